@@ -1,3 +1,4 @@
+import { type Hash, createHash } from "node:crypto";
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
@@ -5,15 +6,42 @@ import process from "node:process";
 import { setTimeout as delay } from "node:timers/promises";
 import * as Lark from "@larksuiteoapi/node-sdk";
 import {
+  type AgentAlert,
+  type AgentDescriptor,
+  type AgentFileResult,
   type AgentFileTransfer,
+  type AgentTerminalHistory,
+  type AgentWatchEvent,
+  type ArchiveFormat,
   type CaptureSource,
   type ClientCommand,
+  type CommandCompletion,
+  type E2eContentKey,
+  type E2eKeyGrant,
+  type E2eKeyPair,
+  type E2eSealed,
+  type FileEntry,
+  type NegotiatedProtocol,
+  type ProtocolCapability,
   type RelayMessage,
   type ScreenCapture,
   type TerminalSnapshot,
   type TerminalSummary,
+  PROTOCOL_CAPABILITIES,
+  PROTOCOL_VERSION,
+  createE2eKeyPair,
+  decodeBinaryFrame,
+  deriveE2eWrapKey,
+  describeValidationIssues,
+  encodeBinaryFrame,
   jsonStringify,
-  safeJsonParse,
+  mergeBinaryPayload,
+  negotiateProtocol,
+  openSealedMessage,
+  parseRelayMessage,
+  sealRelayMessage,
+  splitBinaryPayload,
+  unwrapE2eContentKey,
 } from "@tfclaw/protocol";
 import WebSocket from "ws";
 
@@ -95,6 +123,7 @@ interface ChannelsConfig {
 interface RelayConfig {
   token: string;
   url: string;
+  e2eSecret: string;
 }
 
 interface GatewayConfig {
@@ -109,8 +138,12 @@ interface LoadedGatewayConfig {
 }
 
 interface RelayCache {
+  agents: AgentDescriptor[];
+  offlineAgents: AgentDescriptor[];
+  defaultAgentId?: string;
   terminals: Map<string, TerminalSummary>;
   snapshots: Map<string, TerminalSnapshot>;
+  negotiated?: NegotiatedProtocol;
 }
 
 interface PendingCapture {
@@ -132,6 +165,18 @@ interface PendingCommandResult {
   onProgress?: (output: string, source?: string) => void | Promise<void>;
 }
 
+interface PendingFileResult {
+  resolve: (result: AgentFileResult["payload"]) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface PendingTerminalHistory {
+  resolve: (page: AgentTerminalHistory["payload"]) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
 interface DownloadedFilePayload {
   requestId: string;
   transferId: string;
@@ -149,16 +194,33 @@ interface PendingFileDownloadTransfer {
   mimeType: string;
   size: number;
   totalChunks: number;
-  chunks: string[];
+  resumable: boolean;
+  agentId?: string;
+  chunks: Buffer[];
+  hash: Hash;
+  ackedChunks: number;
+  ackTimer?: NodeJS.Timeout;
 }
 
 interface PendingFileDownload {
   resolve: (payload: DownloadedFilePayload) => void;
   reject: (error: Error) => void;
   timer: NodeJS.Timeout;
+  timeoutMs: number;
+  // Fires when a resumable transfer stops making progress, e.g. across a relay reconnect.
+  stallTimer?: NodeJS.Timeout;
   transfer?: PendingFileDownloadTransfer;
 }
 
+interface PendingUploadAck {
+  receivedChunks: number;
+  waiter?: {
+    minChunks: number;
+    resolve: (receivedChunks: number | undefined) => void;
+    timer: NodeJS.Timeout;
+  };
+}
+
 interface EarlyCommandProgress {
   output: string;
   progressSource?: string;
@@ -297,6 +359,8 @@ const COMMAND_RESULT_TIMEOUT_MS = Math.max(
   1000,
   Math.min(24 * 60 * 60 * 1000, toNumber(process.env.TFCLAW_COMMAND_RESULT_TIMEOUT_MS, 24 * 60 * 60 * 1000)),
 );
+const HISTORY_DEFAULT_LINES = 50;
+const HISTORY_MAX_LINES = 500;
 const FILE_TRANSFER_WAIT_TIMEOUT_MS = Math.max(
   10_000,
   Math.min(10 * 60 * 1000, toNumber(process.env.TFCLAW_FILE_TRANSFER_WAIT_TIMEOUT_MS, 120_000)),
@@ -309,6 +373,21 @@ const FILE_TRANSFER_MAX_BYTES = Math.max(
   1 * 1024 * 1024,
   Math.min(100 * 1024 * 1024, toNumber(process.env.TFCLAW_FILE_TRANSFER_MAX_BYTES, 50 * 1024 * 1024)),
 );
+const FILE_TRANSFER_WINDOW_CHUNKS = Math.max(
+  1,
+  Math.min(256, toNumber(process.env.TFCLAW_FILE_TRANSFER_WINDOW_CHUNKS, 8)),
+);
+const FILE_TRANSFER_ACK_TIMEOUT_MS = Math.max(
+  1000,
+  Math.min(5 * 60 * 1000, toNumber(process.env.TFCLAW_FILE_TRANSFER_ACK_TIMEOUT_MS, 15_000)),
+);
+// Chunks and acks count against the relay's per-socket transfer budget, so uploads are paced and download acks batched.
+const FILE_TRANSFER_MAX_CHUNKS_PER_SECOND = Math.max(
+  1,
+  Math.min(1000, toNumber(process.env.TFCLAW_FILE_TRANSFER_MAX_CHUNKS_PER_SECOND, 100)),
+);
+const FILE_DOWNLOAD_ACK_EVERY_CHUNKS = 4;
+const FILE_DOWNLOAD_ACK_DELAY_MS = 250;
 const FEISHU_MAX_UPLOAD_FILE_BYTES = 30 * 1024 * 1024;
 const FEISHU_ACK_REACTION = toString(process.env.TFCLAW_FEISHU_ACK_REACTION, "OnIt").trim() || "OnIt";
 const FEISHU_ACK_REACTION_ENABLED = toBoolean(process.env.TFCLAW_FEISHU_ACK_REACTION_ENABLED, true);
@@ -409,6 +488,98 @@ function sanitizeInboundFileName(fileName: string): string {
   return cleaned || `file-${Date.now()}.bin`;
 }
 
+function sha256Hex(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+interface FileGetRequest {
+  path: string;
+  archive: ArchiveFormat;
+  include: string[];
+  exclude: string[];
+  maxBytes?: number;
+}
+
+function parseByteSize(input: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)\s*([kmg]?)b?$/i.exec(input.trim());
+  if (!match) {
+    return undefined;
+  }
+  const scale = { "": 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }[match[2].toLowerCase() as "" | "k" | "m" | "g"];
+  const value = Math.floor(Number.parseFloat(match[1]) * scale);
+  return value > 0 ? value : undefined;
+}
+
+// "<path> [--tar|--zip] [--include <glob>]... [--exclude <glob>]... [--max <size>]"; the path may contain spaces.
+function parseFileGetArgs(raw: string): FileGetRequest | string {
+  const tokens = raw.trim().split(/\s+/).filter(Boolean);
+  const pathParts: string[] = [];
+  const request: FileGetRequest = { path: "", archive: "zip", include: [], exclude: [] };
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    const option = token.toLowerCase();
+    if (option === "--tar" || option === "--zip") {
+      request.archive = option === "--tar" ? "tar" : "zip";
+    } else if (option === "--include" || option === "--exclude" || option === "--max") {
+      const value = tokens[index + 1];
+      if (!value) {
+        return `${option} needs a value`;
+      }
+      index += 1;
+      if (option === "--max") {
+        const maxBytes = parseByteSize(value);
+        if (!maxBytes) {
+          return `invalid --max size: ${value}`;
+        }
+        request.maxBytes = maxBytes;
+      } else {
+        (option === "--include" ? request.include : request.exclude).push(value);
+      }
+    } else {
+      pathParts.push(token);
+    }
+  }
+  request.path = pathParts.join(" ");
+  return request.path ? request : "usage: /tmux fileget <path> [--tar|--zip] [--include <glob>] [--exclude <glob>] [--max <size>]";
+}
+
+// Whitespace-separated arguments; double quotes keep paths with spaces together.
+function splitCommandArgs(raw: string): string[] {
+  const args: string[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  for (let match = pattern.exec(raw); match; match = pattern.exec(raw)) {
+    args.push(match[1] ?? match[2]);
+  }
+  return args;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(value >= 10 ? 0 : 1)} ${units[unit]}`;
+}
+
+function formatCommandCompletion(completion: CommandCompletion): string {
+  const seconds = Math.round(completion.durationMs / 1000);
+  const duration = seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, "0")}s`;
+  return `done (exit ${completion.exitCode}, ${duration})`;
+}
+
+function formatFileEntryLine(entry: FileEntry): string {
+  const marker = { file: "-", directory: "d", symlink: "l", other: "?" }[entry.type];
+  const size = entry.type === "file" ? formatFileSize(entry.size) : "";
+  const modified = entry.modifiedAt.slice(0, 16).replace("T", " ");
+  return `${marker} ${size.padStart(7)}  ${modified}  ${entry.name}${entry.type === "directory" ? "/" : ""}`;
+}
+
 function splitBase64Chunks(base64: string): string[] {
   const chunkChars = Math.max(4, FILE_TRANSFER_CHUNK_BASE64_CHARS - (FILE_TRANSFER_CHUNK_BASE64_CHARS % 4));
   const chunks: string[] = [];
@@ -623,6 +794,7 @@ function loadGatewayConfig(): LoadedGatewayConfig {
     relay: {
       token: relayToken,
       url: toString(rawRelay.url, process.env.TFCLAW_RELAY_URL ?? "ws://127.0.0.1:8787"),
+      e2eSecret: toString(rawRelay.e2eSecret, process.env.TFCLAW_E2E_SECRET ?? ""),
     },
     channels: {
       whatsapp: {
@@ -713,12 +885,23 @@ class RelayBridge {
   private pendingCaptures = new Map<string, PendingCapture>();
   private pendingCaptureSourceLists = new Map<string, PendingCaptureSourceList>();
   private pendingCommandResults = new Map<string, PendingCommandResult>();
+  private pendingFileResults = new Map<string, PendingFileResult>();
+  private pendingTerminalHistories = new Map<string, PendingTerminalHistory>();
   private pendingFileDownloads = new Map<string, PendingFileDownload>();
+  private pendingUploadAcks = new Map<string, PendingUploadAck>();
   private earlyCommandOutcomes = new Map<string, { ok: boolean; value: string; at: number }>();
+  private commandCompletions = new Map<string, { completion: CommandCompletion; at: number }>();
   private earlyCommandProgress = new Map<string, EarlyCommandProgress[]>();
+  private watchEventHandler: ((event: AgentWatchEvent["payload"]) => void) | undefined;
+  private alertHandler: ((alert: AgentAlert["payload"]) => void) | undefined;
   private readonly earlyCommandOutcomeTtlMs = 60_000;
+  private e2eKeyPair: E2eKeyPair | undefined;
+  // Content keys granted by each E2E agent for the current connection, keyed by agentId.
+  private e2eKeys = new Map<string, E2eContentKey>();
 
   readonly cache: RelayCache = {
+    agents: [],
+    offlineAgents: [],
     terminals: new Map<string, TerminalSummary>(),
     snapshots: new Map<string, TerminalSnapshot>(),
   };
@@ -727,13 +910,52 @@ class RelayBridge {
     private readonly relayUrl: string,
     private readonly relayToken: string,
     private readonly clientType: "mobile" | "feishu" | "web" = "web",
+    private readonly e2eSecret = "",
   ) {}
 
   connect(): void {
+    void this.requestTicket()
+      .then((ticket) => {
+        if (!this.closed) {
+          this.open(ticket);
+        }
+      })
+      .catch((error) => {
+        console.error(`[gateway] relay ticket request failed: ${error instanceof Error ? error.message : String(error)}`);
+        this.scheduleReconnect();
+      });
+  }
+
+  // The long-lived token is only sent in a request header; the WebSocket URL carries a single-use ticket.
+  private async requestTicket(): Promise<string> {
+    const ticketUrl = new URL(this.relayUrl);
+    ticketUrl.protocol = ticketUrl.protocol === "wss:" ? "https:" : "http:";
+    ticketUrl.pathname = `${ticketUrl.pathname.replace(/\/+$/, "")}/tickets`;
+    ticketUrl.search = "";
+
+    const response = await fetch(ticketUrl, {
+      method: "POST",
+      headers: {
+        authorization: `Bearer ${this.relayToken}`,
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({ role: "client" }),
+    });
+    const body = (await response.json().catch(() => ({}))) as { ticket?: unknown; message?: unknown };
+    if (!response.ok || typeof body.ticket !== "string") {
+      throw new Error(typeof body.message === "string" ? body.message : `HTTP ${response.status}`);
+    }
+    return body.ticket;
+  }
+
+  private open(ticket: string): void {
     const url = new URL(this.relayUrl);
     url.searchParams.set("role", "client");
-    url.searchParams.set("token", this.relayToken);
+    url.searchParams.set("ticket", ticket);
+    const displayUrl = new URL(this.relayUrl);
 
+    this.e2eKeyPair = this.e2eSecret ? createE2eKeyPair() : undefined;
+    this.e2eKeys.clear();
     this.ws = new WebSocket(url.toString());
 
     this.ws.on("open", () => {
@@ -742,12 +964,19 @@ class RelayBridge {
         type: "client.hello",
         payload: {
           clientType: this.clientType,
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: [...PROTOCOL_CAPABILITIES],
+          ...(this.e2eKeyPair ? { e2e: { publicKey: this.e2eKeyPair.publicKey } } : {}),
         },
       });
-      console.log(`[gateway] relay connected: ${url}`);
+      console.log(`[gateway] relay connected: ${displayUrl}`);
     });
 
-    this.ws.on("message", (raw) => {
+    this.ws.on("message", (raw, isBinary) => {
+      if (isBinary) {
+        this.handleBinaryFrame(Buffer.isBuffer(raw) ? raw : Array.isArray(raw) ? Buffer.concat(raw) : Buffer.from(raw));
+        return;
+      }
       this.handleRelayMessage(raw.toString());
     });
 
@@ -756,10 +985,7 @@ class RelayBridge {
         return;
       }
       this.rejectAllPending(new Error("relay disconnected"));
-      this.reconnectAttempts += 1;
-      const retryDelay = Math.min(10000, this.reconnectAttempts * 500);
-      console.warn(`[gateway] relay disconnected. reconnect in ${retryDelay}ms`);
-      setTimeout(() => this.connect(), retryDelay);
+      this.scheduleReconnect();
     });
 
     this.ws.on("error", (err) => {
@@ -767,6 +993,16 @@ class RelayBridge {
     });
   }
 
+  private scheduleReconnect(): void {
+    if (this.closed) {
+      return;
+    }
+    this.reconnectAttempts += 1;
+    const retryDelay = Math.min(10000, this.reconnectAttempts * 500);
+    console.warn(`[gateway] relay disconnected. reconnect in ${retryDelay}ms`);
+    setTimeout(() => this.connect(), retryDelay);
+  }
+
   close(): void {
     this.closed = true;
     this.rejectAllPending(new Error("relay closed"));
@@ -775,22 +1011,62 @@ class RelayBridge {
 
   send(message: RelayMessage): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(jsonStringify(message));
+      // relay.state only lists binary.frames when the relay itself understands binary frames.
+      const split = this.cache.negotiated?.capabilities.includes("binary.frames") ? splitBinaryPayload(message) : undefined;
+      this.ws.send(split ? encodeBinaryFrame(split.header, split.data) : jsonStringify(message));
     }
   }
 
-  command(payload: ClientCommand["payload"]): string {
+  // agentId is the agent a chat selected with /agent; without one the relay's default agent answers.
+  supports(capability: ProtocolCapability, agentId?: string): boolean {
+    const selected = agentId
+      ? this.cache.agents.find((agent) => agent.agentId === agentId)
+      : undefined;
+    const negotiated = selected
+      ? negotiateProtocol(selected, { protocolVersion: PROTOCOL_VERSION, capabilities: [...PROTOCOL_CAPABILITIES] })
+      : this.cache.negotiated;
+    return !negotiated || negotiated.capabilities.includes(capability);
+  }
+
+  command(payload: ClientCommand["payload"], targetAgentId?: string): string {
     const requestId = randomId();
-    this.commandWithRequestId(requestId, payload);
+    this.commandWithRequestId(requestId, payload, targetAgentId);
     return requestId;
   }
 
-  commandWithRequestId(requestId: string, payload: ClientCommand["payload"]): void {
-    this.send({
+  commandWithRequestId(
+    requestId: string,
+    payload: ClientCommand["payload"],
+    targetAgentId?: string,
+  ): void {
+    const message: ClientCommand = {
       type: "client.command",
       requestId,
       payload,
-    });
+      ...(targetAgentId ? { agentId: targetAgentId } : {}),
+    };
+    const agentId = targetAgentId ?? this.cache.defaultAgentId;
+    const agent = this.cache.agents.find((item) => item.agentId === agentId);
+    if (!agent?.e2e) {
+      this.send(message);
+      return;
+    }
+
+    const key = agentId ? this.e2eKeys.get(agentId) : undefined;
+    if (!key || key.keyId !== agent.e2e.keyId) {
+      const reason = this.e2eSecret
+        ? "end-to-end key exchange with this agent has not completed yet"
+        : "this agent requires end-to-end encryption; set relay.e2eSecret";
+      // Deferred so the caller has registered its pending request before the failure is delivered.
+      queueMicrotask(() => this.dispatchRelayMessage({
+        type: "agent.error",
+        agentId,
+        payload: { code: "E2E_UNAVAILABLE", message: reason, requestId },
+      }));
+      return;
+    }
+    // The target is sealed with the message, so name it even when the relay would have picked it by default.
+    this.send(sealRelayMessage({ ...message, agentId }, key));
   }
 
   waitForCapture(requestId: string, timeoutMs = 20000): Promise<ScreenCapture> {
@@ -823,14 +1099,14 @@ class RelayBridge {
     });
   }
 
-  waitForFileDownload(requestId: string, timeoutMs = FILE_TRANSFER_WAIT_TIMEOUT_MS): Promise<DownloadedFilePayload> {
+  waitForFileResult(requestId: string, timeoutMs = 20000): Promise<AgentFileResult["payload"]> {
     return new Promise((resolve, reject) => {
       const timer = setTimeout(() => {
-        this.pendingFileDownloads.delete(requestId);
-        reject(new Error("file download timeout"));
+        this.pendingFileResults.delete(requestId);
+        reject(new Error("file operation timeout"));
       }, timeoutMs);
 
-      this.pendingFileDownloads.set(requestId, {
+      this.pendingFileResults.set(requestId, {
         resolve,
         reject,
         timer,
@@ -838,6 +1114,103 @@ class RelayBridge {
     });
   }
 
+  waitForTerminalHistory(requestId: string, timeoutMs = 20000): Promise<AgentTerminalHistory["payload"]> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingTerminalHistories.delete(requestId);
+        reject(new Error("history timeout"));
+      }, timeoutMs);
+
+      this.pendingTerminalHistories.set(requestId, {
+        resolve,
+        reject,
+        timer,
+      });
+    });
+  }
+
+  // Watch events arrive without a request, so they are handed to the router instead of a pending promise.
+  onWatchEvent(handler: (event: AgentWatchEvent["payload"]) => void): void {
+    this.watchEventHandler = handler;
+  }
+
+  onAlert(handler: (alert: AgentAlert["payload"]) => void): void {
+    this.alertHandler = handler;
+  }
+
+  // Set when the agent's shell integration saw the command finish; read once after waitForCommandResult resolves.
+  takeCommandCompletion(requestId: string): CommandCompletion | undefined {
+    this.pruneCommandCompletions();
+    const entry = this.commandCompletions.get(requestId);
+    this.commandCompletions.delete(requestId);
+    return entry?.completion;
+  }
+
+  waitForFileDownload(requestId: string, timeoutMs = FILE_TRANSFER_WAIT_TIMEOUT_MS): Promise<DownloadedFilePayload> {
+    return new Promise((resolve, reject) => {
+      this.pendingFileDownloads.set(requestId, {
+        resolve,
+        reject,
+        timer: this.fileDownloadTimer(requestId, timeoutMs),
+        timeoutMs,
+      });
+    });
+  }
+
+  private fileDownloadTimer(requestId: string, timeoutMs: number): NodeJS.Timeout {
+    return setTimeout(() => {
+      this.settleFileDownload(requestId, new Error("file download timeout"));
+    }, timeoutMs);
+  }
+
+  private settleFileDownload(requestId: string, outcome: DownloadedFilePayload | Error): void {
+    const pending = this.pendingFileDownloads.get(requestId);
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.timer);
+    clearTimeout(pending.stallTimer);
+    clearTimeout(pending.transfer?.ackTimer);
+    this.pendingFileDownloads.delete(requestId);
+    if (outcome instanceof Error) {
+      pending.reject(outcome);
+    } else {
+      pending.resolve(outcome);
+    }
+  }
+
+  // Upload acks are tracked per transfer; waiters time out with undefined instead of rejecting,
+  // so a relay reconnect only stalls the upload until it resumes.
+  trackUploadAcks(transferId: string): void {
+    this.pendingUploadAcks.set(transferId, { receivedChunks: 0 });
+  }
+
+  untrackUploadAcks(transferId: string): void {
+    const pending = this.pendingUploadAcks.get(transferId);
+    if (pending?.waiter) {
+      clearTimeout(pending.waiter.timer);
+      pending.waiter.resolve(undefined);
+    }
+    this.pendingUploadAcks.delete(transferId);
+  }
+
+  waitForUploadAck(transferId: string, minChunks: number, timeoutMs = FILE_TRANSFER_ACK_TIMEOUT_MS): Promise<number | undefined> {
+    const pending = this.pendingUploadAcks.get(transferId);
+    if (!pending) {
+      return Promise.resolve(undefined);
+    }
+    if (pending.receivedChunks >= minChunks) {
+      return Promise.resolve(pending.receivedChunks);
+    }
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        pending.waiter = undefined;
+        resolve(undefined);
+      }, timeoutMs);
+      pending.waiter = { minChunks, resolve, timer };
+    });
+  }
+
   waitForCommandResult(
     requestId: string,
     timeoutMs = COMMAND_RESULT_TIMEOUT_MS,
@@ -911,12 +1284,67 @@ class RelayBridge {
   }
 
   private handleRelayMessage(raw: string): void {
-    const parsed = safeJsonParse(raw);
-    if (!parsed) {
+    const result = parseRelayMessage(raw);
+    if (!result.ok) {
+      console.warn(`[gateway] dropped ${result.type ?? "invalid"} relay message: ${describeValidationIssues(result.issues)}`);
+      return;
+    }
+    this.dispatchRelayMessage(result.message);
+  }
+
+  private handleBinaryFrame(frame: Buffer): void {
+    const decoded = decodeBinaryFrame(frame);
+    if (!decoded.ok) {
+      console.warn(`[gateway] dropped ${decoded.type ?? "invalid"} binary frame: ${describeValidationIssues(decoded.issues)}`);
+      return;
+    }
+    this.dispatchRelayMessage(mergeBinaryPayload(decoded.message, decoded.data));
+  }
+
+  private acceptKeyGrant(message: E2eKeyGrant): void {
+    const agent = this.cache.agents.find((item) => item.agentId === message.agentId);
+    if (!this.e2eKeyPair || !message.agentId || !agent?.e2e) {
+      return;
+    }
+    try {
+      const wrapKey = deriveE2eWrapKey(this.e2eKeyPair, agent.e2e.publicKey, this.e2eSecret, "client");
+      this.e2eKeys.set(message.agentId, unwrapE2eContentKey(wrapKey, message.payload));
+      console.log(`[gateway] end-to-end key established with agent ${message.agentId}`);
+    } catch {
+      console.warn(`[gateway] cannot unwrap end-to-end key from agent ${message.agentId}; check relay.e2eSecret`);
+    }
+  }
+
+  private openSealed(message: E2eSealed): void {
+    const key = message.agentId ? this.e2eKeys.get(message.agentId) : undefined;
+    if (!key) {
+      return;
+    }
+    const opened = openSealedMessage(message, key);
+    if (!opened.ok) {
+      console.warn(`[gateway] dropped sealed ${message.payload.inner} message: ${describeValidationIssues(opened.issues)}`);
+      return;
+    }
+    this.dispatchRelayMessage({ ...opened.message, agentId: message.agentId } as RelayMessage);
+  }
+
+  private dispatchRelayMessage(parsed: RelayMessage): void {
+    if (parsed.type === "e2e.key_grant") {
+      this.acceptKeyGrant(parsed);
+      return;
+    }
+
+    if (parsed.type === "e2e.sealed") {
+      this.openSealed(parsed);
       return;
     }
 
     if (parsed.type === "relay.state") {
+      this.cache.negotiated = parsed.payload.negotiated;
+      this.cache.agents = parsed.payload.agents ?? (parsed.payload.agent ? [parsed.payload.agent] : []);
+      this.cache.offlineAgents = parsed.payload.offlineAgents ?? [];
+      this.cache.defaultAgentId = parsed.payload.agent?.agentId;
+      // Terminals of every agent are kept (their ids are UUIDs); each chat only sees those of the agent it selected.
       this.cache.terminals.clear();
       for (const terminal of parsed.payload.terminals) {
         this.cache.terminals.set(terminal.terminalId, terminal);
@@ -934,6 +1362,7 @@ class RelayBridge {
       const merged = `${existing?.output ?? ""}${parsed.payload.chunk}`;
       this.cache.snapshots.set(parsed.payload.terminalId, {
         terminalId: parsed.payload.terminalId,
+        agentId: parsed.agentId ?? existing?.agentId,
         output: merged.length > 12000 ? merged.slice(-12000) : merged,
         updatedAt: parsed.payload.at,
       });
@@ -969,6 +1398,40 @@ class RelayBridge {
       return;
     }
 
+    if (parsed.type === "agent.file_result") {
+      if (parsed.payload.requestId) {
+        const pending = this.pendingFileResults.get(parsed.payload.requestId);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pendingFileResults.delete(parsed.payload.requestId);
+          pending.resolve(parsed.payload);
+        }
+      }
+      return;
+    }
+
+    if (parsed.type === "agent.terminal_history") {
+      if (parsed.payload.requestId) {
+        const pending = this.pendingTerminalHistories.get(parsed.payload.requestId);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pendingTerminalHistories.delete(parsed.payload.requestId);
+          pending.resolve(parsed.payload);
+        }
+      }
+      return;
+    }
+
+    if (parsed.type === "agent.watch_event") {
+      this.watchEventHandler?.(parsed.payload);
+      return;
+    }
+
+    if (parsed.type === "agent.alert") {
+      this.alertHandler?.(parsed.payload);
+      return;
+    }
+
     if (parsed.type === "agent.command_result") {
       if (parsed.payload.requestId) {
         const isProgress = Boolean(parsed.payload.progress);
@@ -982,6 +1445,10 @@ class RelayBridge {
             this.saveEarlyCommandProgress(parsed.payload.requestId, parsed.payload.output, parsed.payload.progressSource);
           }
         } else {
+          if (parsed.payload.completion) {
+            this.pruneCommandCompletions();
+            this.commandCompletions.set(parsed.payload.requestId, { completion: parsed.payload.completion, at: Date.now() });
+          }
           if (pending) {
             clearTimeout(pending.timer);
             this.pendingCommandResults.delete(parsed.payload.requestId);
@@ -1012,11 +1479,24 @@ class RelayBridge {
         return;
       }
 
-      const pendingFile = this.pendingFileDownloads.get(parsed.payload.requestId);
-      if (pendingFile) {
-        clearTimeout(pendingFile.timer);
-        this.pendingFileDownloads.delete(parsed.payload.requestId);
-        pendingFile.reject(new Error(`${parsed.payload.code}: ${parsed.payload.message}`));
+      const pendingFileResult = this.pendingFileResults.get(parsed.payload.requestId);
+      if (pendingFileResult) {
+        clearTimeout(pendingFileResult.timer);
+        this.pendingFileResults.delete(parsed.payload.requestId);
+        pendingFileResult.reject(new Error(`${parsed.payload.code}: ${parsed.payload.message}`));
+        return;
+      }
+
+      const pendingHistory = this.pendingTerminalHistories.get(parsed.payload.requestId);
+      if (pendingHistory) {
+        clearTimeout(pendingHistory.timer);
+        this.pendingTerminalHistories.delete(parsed.payload.requestId);
+        pendingHistory.reject(new Error(`${parsed.payload.code}: ${parsed.payload.message}`));
+        return;
+      }
+
+      if (this.pendingFileDownloads.has(parsed.payload.requestId)) {
+        this.settleFileDownload(parsed.payload.requestId, new Error(`${parsed.payload.code}: ${parsed.payload.message}`));
         return;
       }
 
@@ -1035,76 +1515,182 @@ class RelayBridge {
 
   private handleFileTransferMessage(message: AgentFileTransfer): void {
     const payload = message.payload;
-    if (payload.direction !== "download" || !payload.requestId) {
+    if (payload.direction === "upload") {
+      if (payload.stage === "ack") {
+        this.handleUploadAck(payload.transferId, payload.receivedChunks);
+      }
+      return;
+    }
+    if (!payload.requestId) {
       return;
     }
-    const pending = this.pendingFileDownloads.get(payload.requestId);
+    const requestId = payload.requestId;
+    const pending = this.pendingFileDownloads.get(requestId);
     if (!pending) {
       return;
     }
 
     if (payload.stage === "start") {
-      const totalChunks = Math.max(1, Math.trunc(payload.totalChunks));
+      clearTimeout(pending.transfer?.ackTimer);
       pending.transfer = {
         transferId: payload.transferId,
         fileName: sanitizeInboundFileName(payload.fileName),
         path: payload.path,
         mimeType: payload.mimeType || "application/octet-stream",
-        size: Math.max(0, Math.trunc(payload.size)),
-        totalChunks,
-        chunks: new Array(totalChunks).fill(""),
+        size: payload.size,
+        totalChunks: payload.totalChunks,
+        resumable: Boolean(payload.resumable),
+        agentId: message.agentId,
+        chunks: [],
+        hash: createHash("sha256"),
+        ackedChunks: 0,
       };
+      this.touchFileDownload(requestId, pending);
       return;
     }
 
     const transfer = pending.transfer;
-    if (!transfer) {
-      return;
-    }
-    if (transfer.transferId !== payload.transferId) {
+    if (!transfer || transfer.transferId !== payload.transferId || payload.stage === "ack") {
       return;
     }
 
     if (payload.stage === "chunk") {
       if (payload.totalChunks !== transfer.totalChunks) {
-        clearTimeout(pending.timer);
-        this.pendingFileDownloads.delete(payload.requestId);
-        pending.reject(new Error("file transfer chunk count mismatch"));
+        this.settleFileDownload(requestId, new Error("file transfer chunk count mismatch"));
+        return;
+      }
+      const index = payload.chunkIndex;
+      if (index >= transfer.totalChunks) {
+        this.settleFileDownload(requestId, new Error(`invalid file transfer chunk index: ${payload.chunkIndex}`));
+        return;
+      }
+      if (index < transfer.chunks.length) {
         return;
       }
-      const index = Math.trunc(payload.chunkIndex);
-      if (index < 0 || index >= transfer.totalChunks) {
-        clearTimeout(pending.timer);
-        this.pendingFileDownloads.delete(payload.requestId);
-        pending.reject(new Error(`invalid file transfer chunk index: ${payload.chunkIndex}`));
+
+      const data = Buffer.from(payload.chunkBase64, "base64");
+      const problem = index > transfer.chunks.length
+        ? `missing chunk ${transfer.chunks.length + 1}`
+        : payload.sha256 && sha256Hex(data) !== payload.sha256
+          ? `chunk ${index + 1} failed its sha256 check`
+          : undefined;
+      if (problem) {
+        if (transfer.resumable) {
+          this.resumeFileDownload(requestId, transfer);
+        } else {
+          this.settleFileDownload(requestId, new Error(`file transfer incomplete: ${problem}`));
+        }
         return;
       }
-      transfer.chunks[index] = payload.chunkBase64;
+
+      transfer.chunks.push(data);
+      transfer.hash.update(data);
+      this.touchFileDownload(requestId, pending);
+      if (transfer.resumable) {
+        this.scheduleFileDownloadAck(transfer);
+      }
       return;
     }
 
-    const missingChunk = transfer.chunks.findIndex((chunk) => chunk.length === 0);
-    if (missingChunk >= 0) {
-      clearTimeout(pending.timer);
-      this.pendingFileDownloads.delete(payload.requestId);
-      pending.reject(new Error(`file transfer incomplete: missing chunk ${missingChunk + 1}`));
+    if (transfer.chunks.length < transfer.totalChunks) {
+      if (transfer.resumable) {
+        this.resumeFileDownload(requestId, transfer);
+      } else {
+        this.settleFileDownload(requestId, new Error(`file transfer incomplete: missing chunk ${transfer.chunks.length + 1}`));
+      }
       return;
     }
 
-    const data = Buffer.from(transfer.chunks.join(""), "base64");
-    clearTimeout(pending.timer);
-    this.pendingFileDownloads.delete(payload.requestId);
-    pending.resolve({
-      requestId: payload.requestId,
+    const digest = transfer.hash.digest("hex");
+    if (payload.sha256 && digest !== payload.sha256) {
+      this.settleFileDownload(requestId, new Error(`file transfer sha256 mismatch: expected ${payload.sha256}, got ${digest}`));
+      return;
+    }
+    this.settleFileDownload(requestId, {
+      requestId,
       transferId: transfer.transferId,
       fileName: transfer.fileName,
       path: transfer.path,
       mimeType: transfer.mimeType,
       size: transfer.size,
-      data,
+      data: Buffer.concat(transfer.chunks),
     });
   }
 
+  // Progress pushes both timers back: the overall timeout becomes an inactivity timeout for resumable transfers.
+  private touchFileDownload(requestId: string, pending: PendingFileDownload): void {
+    const transfer = pending.transfer;
+    if (!transfer?.resumable) {
+      return;
+    }
+    clearTimeout(pending.timer);
+    pending.timer = this.fileDownloadTimer(requestId, pending.timeoutMs);
+    clearTimeout(pending.stallTimer);
+    pending.stallTimer = setTimeout(() => {
+      this.resumeFileDownload(requestId, transfer);
+    }, FILE_TRANSFER_ACK_TIMEOUT_MS);
+  }
+
+  // Acks every FILE_DOWNLOAD_ACK_EVERY_CHUNKS chunks and the last one right away, anything else shortly after it arrived.
+  private scheduleFileDownloadAck(transfer: PendingFileDownloadTransfer): void {
+    const unacked = transfer.chunks.length - transfer.ackedChunks;
+    if (unacked >= FILE_DOWNLOAD_ACK_EVERY_CHUNKS || transfer.chunks.length >= transfer.totalChunks) {
+      this.ackFileDownload(transfer);
+      return;
+    }
+    transfer.ackTimer ??= setTimeout(() => {
+      this.ackFileDownload(transfer);
+    }, FILE_DOWNLOAD_ACK_DELAY_MS);
+  }
+
+  private ackFileDownload(transfer: PendingFileDownloadTransfer): void {
+    clearTimeout(transfer.ackTimer);
+    transfer.ackTimer = undefined;
+    transfer.ackedChunks = transfer.chunks.length;
+    this.commandWithRequestId(randomId(), {
+      command: "file.download.ack",
+      transferId: transfer.transferId,
+      receivedChunks: transfer.chunks.length,
+    }, transfer.agentId);
+  }
+
+  // Resumes under the original requestId so the remaining chunks, or an agent.error, reach the same pending download.
+  private resumeFileDownload(requestId: string, transfer: PendingFileDownloadTransfer): void {
+    const pending = this.pendingFileDownloads.get(requestId);
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.stallTimer);
+    pending.stallTimer = setTimeout(() => {
+      this.resumeFileDownload(requestId, transfer);
+    }, FILE_TRANSFER_ACK_TIMEOUT_MS);
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    const agent = this.cache.agents.find((item) => item.agentId === transfer.agentId);
+    if (!agent || (agent.e2e && this.e2eKeys.get(agent.agentId)?.keyId !== agent.e2e.keyId)) {
+      return;
+    }
+    this.commandWithRequestId(requestId, {
+      command: "file.download.resume",
+      transferId: transfer.transferId,
+      receivedChunks: transfer.chunks.length,
+    }, transfer.agentId);
+  }
+
+  private handleUploadAck(transferId: string, receivedChunks: number): void {
+    const pending = this.pendingUploadAcks.get(transferId);
+    if (!pending) {
+      return;
+    }
+    pending.receivedChunks = Math.max(pending.receivedChunks, receivedChunks);
+    if (pending.waiter && pending.receivedChunks >= pending.waiter.minChunks) {
+      clearTimeout(pending.waiter.timer);
+      pending.waiter.resolve(pending.receivedChunks);
+      pending.waiter = undefined;
+    }
+  }
+
   private rejectAllPending(error: Error): void {
     for (const [requestId, pending] of this.pendingCaptures.entries()) {
       clearTimeout(pending.timer);
@@ -1124,14 +1710,29 @@ class RelayBridge {
       pending.reject(error);
     }
 
-    for (const [requestId, pending] of this.pendingFileDownloads.entries()) {
+    for (const [requestId, pending] of this.pendingFileResults.entries()) {
+      clearTimeout(pending.timer);
+      this.pendingFileResults.delete(requestId);
+      pending.reject(error);
+    }
+
+    for (const [requestId, pending] of this.pendingTerminalHistories.entries()) {
       clearTimeout(pending.timer);
-      this.pendingFileDownloads.delete(requestId);
+      this.pendingTerminalHistories.delete(requestId);
       pending.reject(error);
     }
 
+    for (const [requestId, pending] of this.pendingFileDownloads.entries()) {
+      // Resumable downloads survive a disconnect; their stall timer resumes them once the relay is back.
+      if (pending.transfer?.resumable && !this.closed) {
+        continue;
+      }
+      this.settleFileDownload(requestId, error);
+    }
+
     this.earlyCommandOutcomes.clear();
     this.earlyCommandProgress.clear();
+    this.commandCompletions.clear();
   }
 
   private saveEarlyCommandOutcome(requestId: string, ok: boolean, value: string): void {
@@ -1172,6 +1773,16 @@ class RelayBridge {
     }
   }
 
+  // Most callers never take the completion, so entries expire like early outcomes.
+  private pruneCommandCompletions(): void {
+    const now = Date.now();
+    for (const [requestId, entry] of this.commandCompletions.entries()) {
+      if (now - entry.at > this.earlyCommandOutcomeTtlMs) {
+        this.commandCompletions.delete(requestId);
+      }
+    }
+  }
+
   private pruneEarlyCommandProgress(): void {
     const now = Date.now();
     for (const [requestId, list] of this.earlyCommandProgress.entries()) {
@@ -1188,12 +1799,20 @@ class RelayBridge {
 }
 // SECTION: router
 class TfclawCommandRouter {
+  // Agent picked with /agent per chat; chats without an entry use the relay's default agent.
+  private chatAgentSelection = new Map<string, string>();
   private chatTerminalSelection = new Map<string, string>();
   private chatTmuxTarget = new Map<string, string>();
   private chatTmuxCaptureLines = new Map<string, number>();
   private chatTmuxStreamMode = new Map<string, "auto" | "on" | "off">();
   private chatPassthroughEnabled = new Map<string, boolean>();
   private chatCaptureSelections = new Map<string, ChatCaptureSelection>();
+  // Cursor of the last /history page per chat, so `/history more` continues above it.
+  private chatHistoryCursor = new Map<string, number>();
+  // Where to deliver watch events; the agent tags each watch with the selection key of the chat that set it.
+  private chatWatchDestinations = new Map<string, { chatId: string; responder: MessageResponder }>();
+  // Chats that receive agent alerts, keyed by selection key; set with `/alert subscribe`.
+  private alertSubscribers = new Map<string, { chatId: string; responder: MessageResponder }>();
   private chatModes = new Map<string, ChatInteractionMode>();
   private progressSessions = new Map<string, TerminalProgressSession>();
   private commandProgressSessions = new Map<string, CommandProgressSession>();
@@ -1214,7 +1833,37 @@ class TfclawCommandRouter {
   private readonly progressIdleTimeoutMs = 10 * 60 * 1000;
   private readonly progressMaxLifetimeMs = 30 * 60 * 1000;
 
-  constructor(private readonly relay: RelayBridge) {}
+  constructor(private readonly relay: RelayBridge) {
+    relay.onWatchEvent((event) => {
+      void this.deliverWatchEvent(event);
+    });
+    relay.onAlert((alert) => {
+      void this.deliverAlert(alert);
+    });
+  }
+
+  private async deliverAlert(alert: AgentAlert["payload"]): Promise<void> {
+    const text = `[alert ${alert.ruleId}] ${alert.terminalTitle}: ${alert.line.trim()}\n${alert.context}`;
+    for (const [selectionKey, subscriber] of this.alertSubscribers) {
+      try {
+        await this.replyWithMode(subscriber.chatId, subscriber.responder, selectionKey, text);
+      } catch (error) {
+        console.warn(`[gateway] alert delivery to ${selectionKey} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  private async deliverWatchEvent(event: AgentWatchEvent["payload"]): Promise<void> {
+    const destination = this.chatWatchDestinations.get(event.sessionKey);
+    if (!destination) {
+      return;
+    }
+    try {
+      await this.replyWithMode(destination.chatId, destination.responder, event.sessionKey, event.text);
+    } catch (error) {
+      console.warn(`[gateway] watch event delivery failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
   private selectionKey(channel: ChannelName, chatId: string): string {
     return `${channel}:${chatId}`;
@@ -1236,12 +1885,32 @@ class TfclawCommandRouter {
     this.chatModes.set(selectionKey, mode);
   }
 
+  private activeAgentId(selectionKey: string): string | undefined {
+    return this.chatAgentSelection.get(selectionKey) ?? this.relay.cache.defaultAgentId;
+  }
+
+  private command(selectionKey: string, payload: ClientCommand["payload"]): string {
+    return this.relay.command(payload, this.chatAgentSelection.get(selectionKey));
+  }
+
+  private commandWithRequestId(selectionKey: string, requestId: string, payload: ClientCommand["payload"]): void {
+    this.relay.commandWithRequestId(requestId, payload, this.chatAgentSelection.get(selectionKey));
+  }
+
+  // The terminals of the chat's agent, in the order the relay listed them.
+  private terminalsFor(selectionKey: string): TerminalSummary[] {
+    const agentId = this.activeAgentId(selectionKey);
+    return Array.from(this.relay.cache.terminals.values()).filter(
+      (terminal) => !terminal.agentId || !agentId || terminal.agentId === agentId,
+    );
+  }
+
   private selectedTerminal(selectionKey: string, requireActive: boolean): TerminalSummary | undefined {
     const selectedId = this.chatTerminalSelection.get(selectionKey);
     if (!selectedId) {
       return undefined;
     }
-    const terminal = this.relay.cache.terminals.get(selectedId);
+    const terminal = this.terminalsFor(selectionKey).find((candidate) => candidate.terminalId === selectedId);
     if (!terminal) {
       return undefined;
     }
@@ -1251,6 +1920,15 @@ class TfclawCommandRouter {
     return terminal;
   }
 
+  // The agent cannot see which terminal a chat selected with /use, so a bare `/rec start|stop` names it.
+  private withSelectedRecordTerminal(selectionKey: string, text: string): string {
+    if (!/^\/rec\s+(?:start|stop)$/i.test(text)) {
+      return text;
+    }
+    const terminal = this.selectedTerminal(selectionKey, true);
+    return terminal ? `${text} ${terminal.terminalId}` : text;
+  }
+
   private modeTag(selectionKey: string): string {
     const passthroughEnabled = Boolean(this.chatPassthroughEnabled.get(selectionKey));
     const tmuxTarget = this.chatTmuxTarget.get(selectionKey);
@@ -1275,6 +1953,13 @@ class TfclawCommandRouter {
     return selectedId ? `terminal:${selectedId}` : "terminal";
   }
 
+  private unsupportedCapabilityText(selectionKey: string, capability: ProtocolCapability): string | undefined {
+    if (this.relay.supports(capability, this.chatAgentSelection.get(selectionKey))) {
+      return undefined;
+    }
+    return `not supported by the connected terminal-agent (missing capability: ${capability}).`;
+  }
+
   private normalizeCommandLine(line: string): string {
     return line.trim().toLowerCase().replace(/\s+/g, " ");
   }
@@ -2045,17 +2730,19 @@ class TfclawCommandRouter {
     }
   }
 
-  private resolveTerminal(input: string): TerminalSummary | undefined {
+  private resolveTerminal(selectionKey: string, input: string): TerminalSummary | undefined {
     const normalized = input.trim();
     if (!normalized) {
       return undefined;
     }
 
-    if (this.relay.cache.terminals.has(normalized)) {
-      return this.relay.cache.terminals.get(normalized);
+    const list = this.terminalsFor(selectionKey);
+    const byId = list.find((terminal) => terminal.terminalId === normalized);
+    if (byId) {
+      return byId;
     }
 
-    for (const terminal of this.relay.cache.terminals.values()) {
+    for (const terminal of list) {
       if (terminal.title === normalized) {
         return terminal;
       }
@@ -2063,20 +2750,14 @@ class TfclawCommandRouter {
 
     const numeric = Number.parseInt(normalized, 10);
     if (Number.isInteger(numeric) && numeric > 0) {
-      const list = Array.from(this.relay.cache.terminals.values());
       return list[numeric - 1];
     }
 
     return undefined;
   }
 
-  private firstActiveTerminal(): TerminalSummary | undefined {
-    for (const terminal of this.relay.cache.terminals.values()) {
-      if (terminal.isActive) {
-        return terminal;
-      }
-    }
-    return undefined;
+  private firstActiveTerminal(selectionKey: string): TerminalSummary | undefined {
+    return this.terminalsFor(selectionKey).find((terminal) => terminal.isActive);
   }
 
   private renderTerminalSnapshotView(terminalId: string, maxChars = 2200): { title: string; body: string } | undefined {
@@ -2281,7 +2962,7 @@ class TfclawCommandRouter {
       return false;
     }
 
-    this.relay.command({
+    this.command(selectionKey, {
       command: "terminal.input",
       terminalId: terminal.terminalId,
       data: parsed.data,
@@ -2329,7 +3010,7 @@ class TfclawCommandRouter {
     }
 
     if (cmd === "list") {
-      const terminals = Array.from(this.relay.cache.terminals.values());
+      const terminals = this.terminalsFor(selectionKey);
       if (terminals.length === 0) {
         await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, "no terminals");
         return true;
@@ -2348,7 +3029,7 @@ class TfclawCommandRouter {
     }
 
     if (cmd === "new") {
-      this.relay.command({
+      this.command(selectionKey, {
         command: "terminal.create",
         title: `${ctx.channel}-${Date.now()}`,
       });
@@ -2372,7 +3053,7 @@ class TfclawCommandRouter {
         await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, this.keyUsageText("/key"));
         return true;
       }
-      const selected = this.selectedTerminal(selectionKey, true) ?? this.firstActiveTerminal();
+      const selected = this.selectedTerminal(selectionKey, true) ?? this.firstActiveTerminal(selectionKey);
       if (!selected) {
         await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, "no active terminal. use /new then /attach.");
         return true;
@@ -2388,7 +3069,7 @@ class TfclawCommandRouter {
         await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, "no selected terminal. use /list then /use <id>");
         return true;
       }
-      this.relay.command({
+      this.command(selectionKey, {
         command: "terminal.input",
         terminalId: selected.terminalId,
         data: cmd === "ctrlc" ? "__CTRL_C__" : "__CTRL_D__",
@@ -2402,7 +3083,7 @@ class TfclawCommandRouter {
         await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, "usage: /use <id|title|index>");
         return true;
       }
-      const terminal = this.resolveTerminal(args);
+      const terminal = this.resolveTerminal(selectionKey, args);
       if (!terminal) {
         await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, `terminal not found: ${args}`);
         return true;
@@ -2422,12 +3103,12 @@ class TfclawCommandRouter {
         await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, "usage: /close <id|title|index>");
         return true;
       }
-      const terminal = this.resolveTerminal(key);
+      const terminal = this.resolveTerminal(selectionKey, key);
       if (!terminal) {
         await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, `terminal not found: ${key}`);
         return true;
       }
-      this.relay.command({
+      this.command(selectionKey, {
         command: "terminal.close",
         terminalId: terminal.terminalId,
       });
@@ -2454,7 +3135,7 @@ class TfclawCommandRouter {
     let terminal: TerminalSummary | undefined;
 
     if (requestedRef) {
-      terminal = this.resolveTerminal(requestedRef);
+      terminal = this.resolveTerminal(selectionKey, requestedRef);
       if (!terminal) {
         await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, `terminal not found: ${requestedRef}`);
         return;
@@ -2464,10 +3145,10 @@ class TfclawCommandRouter {
         return;
       }
     } else {
-      terminal = this.selectedTerminal(selectionKey, true) ?? this.firstActiveTerminal();
+      terminal = this.selectedTerminal(selectionKey, true) ?? this.firstActiveTerminal(selectionKey);
       if (!terminal) {
         const title = `${ctx.channel}-attach-${Date.now()}`;
-        this.relay.command({
+        this.command(selectionKey, {
           command: "terminal.create",
           title,
         });
@@ -2475,7 +3156,7 @@ class TfclawCommandRouter {
         const startAt = Date.now();
         while (Date.now() - startAt < 5000) {
           await delay(250);
-          const created = Array.from(this.relay.cache.terminals.values()).find(
+          const created = this.terminalsFor(selectionKey).find(
             (candidate) => candidate.isActive && candidate.title === title,
           );
           if (created) {
@@ -2535,7 +3216,7 @@ class TfclawCommandRouter {
         await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, "selected terminal missing. switched back to tfclaw.");
         return;
       }
-      this.relay.command({
+      this.command(selectionKey, {
         command: "terminal.input",
         terminalId: selected.terminalId,
         data: "__CTRL_C__",
@@ -2551,7 +3232,7 @@ class TfclawCommandRouter {
         await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, "selected terminal missing. switched back to tfclaw.");
         return;
       }
-      this.relay.command({
+      this.command(selectionKey, {
         command: "terminal.input",
         terminalId: selected.terminalId,
         data: "__CTRL_D__",
@@ -2614,7 +3295,7 @@ class TfclawCommandRouter {
     }
 
     const lineToSend = originalText.replace(/\r/g, "").replace(/\n/g, "");
-    this.relay.command({
+    this.command(selectionKey, {
       command: "terminal.input",
       terminalId: selected.terminalId,
       data: `${lineToSend}\n`,
@@ -2657,7 +3338,7 @@ class TfclawCommandRouter {
     const chosen = selection.options[index];
     this.chatCaptureSelections.delete(key);
 
-    const requestId = this.relay.command({
+    const requestId = this.command(key, {
       command: "screen.capture",
       source: chosen.source,
       sourceId: chosen.sourceId,
@@ -2679,7 +3360,14 @@ class TfclawCommandRouter {
   }
 
   private async handleCaptureList(channel: ChannelName, chatId: string, responder: MessageResponder): Promise<void> {
-    const requestId = this.relay.command({
+    const key = this.selectionKey(channel, chatId);
+    const unsupported = this.unsupportedCapabilityText(key, "screen.capture");
+    if (unsupported) {
+      await this.replyWithMode(chatId, responder, key, `capture ${unsupported}`);
+      return;
+    }
+
+    const requestId = this.command(key, {
       command: "capture.list",
     });
 
@@ -2688,16 +3376,15 @@ class TfclawCommandRouter {
       sources = await this.relay.waitForCaptureSources(requestId, 15000);
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
-      await this.replyWithMode(chatId, responder, this.selectionKey(channel, chatId), `failed to list capture sources: ${msg}`);
+      await this.replyWithMode(chatId, responder, key, `failed to list capture sources: ${msg}`);
       return;
     }
 
     if (sources.length === 0) {
-      await this.replyWithMode(chatId, responder, this.selectionKey(channel, chatId), "no capture sources found.");
+      await this.replyWithMode(chatId, responder, key, "no capture sources found.");
       return;
     }
 
-    const key = this.selectionKey(channel, chatId);
     this.chatCaptureSelections.set(key, {
       options: sources,
       terminalId: this.chatTerminalSelection.get(key),
@@ -2707,11 +3394,52 @@ class TfclawCommandRouter {
     await this.replyWithMode(chatId, responder, key, this.formatCaptureOptions(sources));
   }
 
+  private agentListText(selectionKey: string): string {
+    const agents = this.relay.cache.agents;
+    if (agents.length === 0) {
+      return "no terminal-agent connected.";
+    }
+    const active = this.activeAgentId(selectionKey);
+    const lines = agents.map((agent, index) => {
+      const marker = agent.agentId === active ? "*" : " ";
+      return `${marker} ${index + 1}. ${agent.agentId} (${agent.hostname}, ${agent.platform})`;
+    });
+    const offline = this.relay.cache.offlineAgents.map((agent) => `- ${agent.agentId} (${agent.hostname}, offline)`);
+    const selected = this.chatAgentSelection.get(selectionKey);
+    const mode = selected ? `selected: ${selected}` : "selected: auto (latest agent)";
+    return ["agents:", ...lines, ...offline, mode, "use /agent <id|index|auto> to switch"].join("\n");
+  }
+
+  private selectAgent(selectionKey: string, input: string): string {
+    const query = input.trim();
+    if (!query || query.toLowerCase() === "auto") {
+      this.chatAgentSelection.delete(selectionKey);
+      return "agent selection: auto (latest agent)";
+    }
+    const agents = this.relay.cache.agents;
+    const index = Number.parseInt(query, 10);
+    const match = agents.find((agent) => agent.agentId === query)
+      ?? (String(index) === query && index >= 1 && index <= agents.length ? agents[index - 1] : undefined)
+      ?? agents.find((agent) => agent.hostname.toLowerCase() === query.toLowerCase());
+    if (!match) {
+      return `agent not found: ${query}\n${this.agentListText(selectionKey)}`;
+    }
+    this.chatAgentSelection.set(selectionKey, match.agentId);
+    return `agent selected: ${match.agentId} (${match.hostname})`;
+  }
+
   private fileCommandHelpText(): string {
     return [
       "file commands:",
       "- /tmux fileget <path>  下载文件并回传到聊天",
+      "- /tmux fileget <dir> [--tar|--zip] [--include <glob>] [--exclude <glob>] [--max <size>]  把目录打包为 zip（默认）或 tar 后回传",
       "- /tfileget <path>  /tmux fileget 的别名",
+      "- /ls [path] [-a]  列出目录（-a 包含隐藏文件）",
+      "- /stat <path>  查看文件信息",
+      "- /mkdir [-p] <path>  创建目录",
+      "- /mv <from> <to>  移动或重命名（目标为已有目录时移入其中）",
+      "- /rm [-r] <path>  删除文件；目录需要 -r",
+      "- 含空格的路径请用双引号包起来",
       "- path 为相对路径时，基于当前 tmux target 的 pane 路径解析",
       "- 直接发送一个飞书文件消息给机器人: 自动上传到当前 tmux target pane 路径",
     ].join("\n");
@@ -2724,6 +3452,12 @@ class TfclawCommandRouter {
       return;
     }
 
+    const unsupported = this.unsupportedCapabilityText(selectionKey, "file.upload");
+    if (unsupported) {
+      await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, `file upload ${unsupported}`);
+      return;
+    }
+
     if (ctx.fileData.byteLength <= 0) {
       await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, "file upload failed: empty file.");
       return;
@@ -2743,6 +3477,7 @@ class TfclawCommandRouter {
     const base64 = ctx.fileData.toString("base64");
     const chunks = splitBase64Chunks(base64);
     const totalChunks = chunks.length;
+    const chunkHashes = chunks.map((chunk) => sha256Hex(Buffer.from(chunk, "base64")));
 
     await this.replyWithMode(
       ctx.chatId,
@@ -2751,36 +3486,31 @@ class TfclawCommandRouter {
       `[file] uploading ${fileName} (${ctx.fileData.byteLength} bytes, chunks=${totalChunks}) ...`,
     );
 
-    const startRequestId = randomId();
-    const startWait = this.relay.waitForCommandResult(startRequestId, FILE_TRANSFER_WAIT_TIMEOUT_MS);
-    this.relay.commandWithRequestId(startRequestId, {
-      command: "file.upload.start",
-      transferId,
-      fileName,
-      size: ctx.fileData.byteLength,
-      totalChunks,
-      mimeType: ctx.mimeType,
-      sessionKey: selectionKey,
-    });
-
-    await startWait;
-
-    for (let index = 0; index < chunks.length; index += 1) {
-      this.relay.command({
-        command: "file.upload.chunk",
+    this.relay.trackUploadAcks(transferId);
+    try {
+      const startRequestId = randomId();
+      const startWait = this.relay.waitForCommandResult(startRequestId, FILE_TRANSFER_WAIT_TIMEOUT_MS);
+      this.commandWithRequestId(selectionKey, startRequestId, {
+        command: "file.upload.start",
         transferId,
-        chunkIndex: index,
+        fileName,
+        size: ctx.fileData.byteLength,
         totalChunks,
-        chunkBase64: chunks[index],
+        mimeType: ctx.mimeType,
+        sessionKey: selectionKey,
+        sha256: sha256Hex(ctx.fileData),
+        resumable: true,
       });
-      if (index > 0 && index % 6 === 0) {
-        await delay(300);
-      }
+
+      await startWait;
+      await this.sendUploadChunks(selectionKey, transferId, chunks, chunkHashes);
+    } finally {
+      this.relay.untrackUploadAcks(transferId);
     }
 
     const completeRequestId = randomId();
     const completeWait = this.relay.waitForCommandResult(completeRequestId, FILE_TRANSFER_WAIT_TIMEOUT_MS);
-    this.relay.commandWithRequestId(completeRequestId, {
+    this.commandWithRequestId(selectionKey, completeRequestId, {
       command: "file.upload.complete",
       transferId,
       totalChunks,
@@ -2794,6 +3524,51 @@ class TfclawCommandRouter {
     );
   }
 
+  // Keeps at most FILE_TRANSFER_WINDOW_CHUNKS unacknowledged chunks in flight. When acks stop (e.g. the relay
+  // reconnected) it asks the agent where it is and resends from the last confirmed chunk.
+  private async sendUploadChunks(
+    selectionKey: string,
+    transferId: string,
+    chunks: string[],
+    chunkHashes: string[],
+  ): Promise<void> {
+    let confirmed = 0;
+    let next = 0;
+    let lastProgressAt = Date.now();
+    let lastChunkAt = 0;
+    while (confirmed < chunks.length) {
+      while (next < chunks.length && next - confirmed < FILE_TRANSFER_WINDOW_CHUNKS) {
+        const wait = lastChunkAt + 1000 / FILE_TRANSFER_MAX_CHUNKS_PER_SECOND - Date.now();
+        if (wait > 0) {
+          await delay(wait);
+        }
+        lastChunkAt = Date.now();
+        this.command(selectionKey, {
+          command: "file.upload.chunk",
+          transferId,
+          chunkIndex: next,
+          totalChunks: chunks.length,
+          chunkBase64: chunks[next],
+          sha256: chunkHashes[next],
+        });
+        next += 1;
+      }
+
+      const acked = await this.relay.waitForUploadAck(transferId, confirmed + 1);
+      if (acked !== undefined) {
+        confirmed = acked;
+        next = Math.max(next, confirmed);
+        lastProgressAt = Date.now();
+        continue;
+      }
+      if (Date.now() - lastProgressAt > FILE_TRANSFER_WAIT_TIMEOUT_MS) {
+        throw new Error(`upload stalled at chunk ${confirmed + 1}/${chunks.length}`);
+      }
+      next = confirmed;
+      this.command(selectionKey, { command: "file.upload.resume", transferId });
+    }
+  }
+
   async handleFileMessage(ctx: InboundFileContext): Promise<void> {
     const selectionKey = this.selectionKey(ctx.channel, ctx.chatId);
     try {
@@ -2804,27 +3579,156 @@ class TfclawCommandRouter {
     }
   }
 
+  private async handleFileBrowseCommand(
+    ctx: InboundTextContext,
+    selectionKey: string,
+    name: "ls" | "stat" | "mkdir" | "mv" | "rm",
+    argsRaw: string,
+  ): Promise<void> {
+    const unsupported = this.unsupportedCapabilityText(selectionKey, "file.browse");
+    if (unsupported) {
+      await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, `/${name} ${unsupported}`);
+      return;
+    }
+
+    const args = splitCommandArgs(argsRaw);
+    const flags = new Set(args.filter((arg) => /^-[a-z]+$/i.test(arg)).flatMap((arg) => [...arg.slice(1).toLowerCase()]));
+    const paths = args.filter((arg) => !/^-[a-z]+$/i.test(arg));
+    let payload: ClientCommand["payload"];
+    switch (name) {
+      case "ls":
+        payload = { command: "file.list", path: paths[0], sessionKey: selectionKey, showHidden: flags.has("a") };
+        break;
+      case "stat":
+        payload = { command: "file.stat", path: paths[0] ?? "", sessionKey: selectionKey };
+        break;
+      case "mkdir":
+        payload = { command: "file.mkdir", path: paths[0] ?? "", sessionKey: selectionKey, recursive: flags.has("p") };
+        break;
+      case "mv":
+        payload = { command: "file.move", path: paths[0] ?? "", destination: paths[1] ?? "", sessionKey: selectionKey };
+        break;
+      case "rm":
+        payload = { command: "file.delete", path: paths[0] ?? "", sessionKey: selectionKey, recursive: flags.has("r") };
+        break;
+    }
+    const needed = name === "mv" ? 2 : name === "ls" ? 0 : 1;
+    if (paths.length < needed) {
+      await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, this.fileCommandHelpText());
+      return;
+    }
+
+    const requestId = randomId();
+    const resultPromise = this.relay.waitForFileResult(requestId);
+    this.commandWithRequestId(selectionKey, requestId, payload);
+    const result = await resultPromise;
+    await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, this.fileResultText(result));
+  }
+
+  private fileResultText(result: AgentFileResult["payload"]): string {
+    const entry = result.entry;
+    switch (result.operation) {
+      case "list": {
+        const entries = result.entries ?? [];
+        return [
+          `${result.path} (${entries.length}${result.truncated ? "+" : ""} entries)`,
+          ...entries.map(formatFileEntryLine),
+          ...(result.truncated ? ["... (truncated)"] : []),
+        ].join("\n");
+      }
+      case "stat":
+        return entry
+          ? [
+            entry.path,
+            `type: ${entry.type}`,
+            `size: ${entry.size} bytes (${formatFileSize(entry.size)})`,
+            `modified: ${entry.modifiedAt}`,
+            ...(entry.mode !== undefined ? [`mode: ${entry.mode.toString(8).padStart(4, "0")}`] : []),
+          ].join("\n")
+          : result.path;
+      case "mkdir":
+        return `[file] created directory: ${result.path}`;
+      case "move":
+        return `[file] moved: ${result.path} -> ${entry?.path ?? "?"}`;
+      case "delete":
+        return `[file] deleted ${entry?.type ?? "entry"}: ${result.path}`;
+    }
+  }
+
+  private async handleHistoryCommand(ctx: InboundTextContext, selectionKey: string, argsRaw: string): Promise<void> {
+    const unsupported = this.unsupportedCapabilityText(selectionKey, "tmux.control");
+    if (unsupported) {
+      await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, `/history ${unsupported}`);
+      return;
+    }
+
+    const args = argsRaw.trim().split(/\s+/).filter(Boolean);
+    const more = args[0]?.toLowerCase() === "more";
+    const countRaw = more ? args[1] : args[0];
+    const count = countRaw === undefined ? HISTORY_DEFAULT_LINES : Number.parseInt(countRaw, 10);
+    if (!Number.isFinite(count) || count <= 0) {
+      await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, "Usage: /history [lines] | /history more [lines]");
+      return;
+    }
+    const before = more ? this.chatHistoryCursor.get(selectionKey) : undefined;
+    if (more && before === undefined) {
+      await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, "no earlier /history page; send `/history <lines>` first.");
+      return;
+    }
+    if (before === 0) {
+      await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, "[history] already at the oldest line.");
+      return;
+    }
+
+    const requestId = randomId();
+    const pagePromise = this.relay.waitForTerminalHistory(requestId);
+    this.commandWithRequestId(selectionKey, requestId, {
+      command: "tmux.history",
+      sessionKey: selectionKey,
+      before,
+      lines: Math.min(count, HISTORY_MAX_LINES),
+    });
+    const page = await pagePromise;
+    this.chatHistoryCursor.set(selectionKey, page.cursor);
+    const text = page.text.trimEnd() || "(no output)";
+    const lineCount = page.text ? page.text.split("\n").length : 0;
+    const header = `[history ${page.target ?? page.terminalId ?? ""}] lines ${page.cursor + 1}-${page.cursor + lineCount} of ${page.totalLines}`;
+    const footer = page.hasMore ? "\n... `/history more` for older lines" : "";
+    await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, `${header}\n${text}${footer}`);
+  }
+
   private async handleTmuxFileGetCommand(
     ctx: InboundTextContext,
     selectionKey: string,
     remotePathRaw: string,
   ): Promise<void> {
-    const remotePath = remotePathRaw.trim();
-    if (!remotePath) {
-      await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, "usage: /tmux fileget <path>");
+    const request = parseFileGetArgs(remotePathRaw);
+    if (typeof request === "string") {
+      await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, request);
       return;
     }
+    const remotePath = request.path;
     if (typeof ctx.responder.replyFile !== "function") {
       await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, "current channel does not support file replies.");
       return;
     }
+    const unsupported = this.unsupportedCapabilityText(selectionKey, "file.download");
+    if (unsupported) {
+      await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, `file download ${unsupported}`);
+      return;
+    }
 
     const requestId = randomId();
     const downloadPromise = this.relay.waitForFileDownload(requestId, FILE_TRANSFER_WAIT_TIMEOUT_MS);
-    this.relay.commandWithRequestId(requestId, {
+    this.commandWithRequestId(selectionKey, requestId, {
       command: "file.download",
       path: remotePath,
       sessionKey: selectionKey,
+      resumable: true,
+      archive: request.archive,
+      ...(request.include.length > 0 ? { include: request.include } : {}),
+      ...(request.exclude.length > 0 ? { exclude: request.exclude } : {}),
+      ...(request.maxBytes ? { maxBytes: request.maxBytes } : {}),
     });
 
     await this.replyWithMode(
@@ -2881,6 +3785,36 @@ class TfclawCommandRouter {
     }
 
     const lowered = text.toLowerCase();
+    if (/^\/(?:tmux\s+watch|twatch)\b/.test(lowered)) {
+      this.chatWatchDestinations.set(selectionKey, { chatId: ctx.chatId, responder: ctx.responder });
+    }
+
+    if (lowered === "/alert subscribe" || lowered === "/alert unsubscribe") {
+      const subscribe = lowered === "/alert subscribe";
+      if (subscribe) {
+        this.alertSubscribers.set(selectionKey, { chatId: ctx.chatId, responder: ctx.responder });
+      } else {
+        this.alertSubscribers.delete(selectionKey);
+      }
+      await this.replyWithMode(
+        ctx.chatId,
+        ctx.responder,
+        selectionKey,
+        subscribe ? "this chat now receives agent alerts." : "this chat no longer receives agent alerts.",
+      );
+      return;
+    }
+
+    if (lowered === "/agents" || lowered === "/agent") {
+      await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, this.agentListText(selectionKey));
+      return;
+    }
+
+    if (lowered.startsWith("/agent ")) {
+      await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, this.selectAgent(selectionKey, text.slice("/agent ".length)));
+      return;
+    }
+
     if (lowered === "/capture" || lowered === "capture") {
       await this.handleCaptureList(ctx.channel, ctx.chatId, ctx.responder);
       return;
@@ -2903,6 +3837,29 @@ class TfclawCommandRouter {
       return;
     }
 
+    const historyMatch = /^\/history(?:\s+([\s\S]*))?$/i.exec(text);
+    if (historyMatch) {
+      try {
+        await this.handleHistoryCommand(ctx, selectionKey, historyMatch[1] ?? "");
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, `/history failed: ${msg}`);
+      }
+      return;
+    }
+
+    const browseMatch = /^\/(ls|stat|mkdir|mv|rm)(?:\s+([\s\S]*))?$/i.exec(text);
+    if (browseMatch) {
+      const name = browseMatch[1].toLowerCase() as "ls" | "stat" | "mkdir" | "mv" | "rm";
+      try {
+        await this.handleFileBrowseCommand(ctx, selectionKey, name, browseMatch[2] ?? "");
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, `/${name} failed: ${msg}`);
+      }
+      return;
+    }
+
     if (lowered.startsWith("/tfileget ")) {
       await this.handleTmuxFileGetCommand(ctx, selectionKey, text.slice("/tfileget ".length));
       return;
@@ -2924,7 +3881,12 @@ class TfclawCommandRouter {
     const isDotControl = text.startsWith(".");
     const outboundText = (mode === "terminal" || passthroughEnabled) && !isSlashCommand && !isDotControl
       ? `/tmux send ${text}`
-      : text;
+      : this.withSelectedRecordTerminal(selectionKey, text);
+    const tmuxUnsupported = this.unsupportedCapabilityText(selectionKey, "tmux.control");
+    if (tmuxUnsupported) {
+      await this.replyWithMode(ctx.chatId, ctx.responder, selectionKey, `tmux control ${tmuxUnsupported}`);
+      return;
+    }
     const streamOffFollowEnabled = this.shouldDeferStreamOffCommand(outboundText);
     const selectedBeforeCommand = this.selectedTerminal(selectionKey, true);
     const streamOffFollowTerminalId = selectedBeforeCommand?.terminalId;
@@ -2932,7 +3894,7 @@ class TfclawCommandRouter {
       ? this.relay.cache.snapshots.get(streamOffFollowTerminalId)?.output ?? ""
       : "";
 
-    const requestId = this.relay.command({
+    const requestId = this.command(selectionKey, {
       command: "tfclaw.command",
       text: outboundText,
       sessionKey: selectionKey,
@@ -2974,10 +3936,16 @@ class TfclawCommandRouter {
           finalReply = `# ${snapshotView.title}\n${snapshotView.body}`;
         }
       }
+      // A known completion replaces the stream-off follow-up, which only guesses the end from idle output.
+      const completion = this.relay.takeCommandCompletion(requestId);
+      if (completion) {
+        finalReply = `${finalReply}\n\n${formatCommandCompletion(completion)}`;
+      }
       if (
         effectiveStreamModeAfter === "off"
         && streamOffFollowEnabled
         && streamOffFollowTerminalId
+        && !completion
         && !progressSession?.streamOffIntroSent
       ) {
         await this.replyWithModeReplacingCommandProgress(
@@ -4055,7 +5023,7 @@ async function bootstrap(): Promise<void> {
     return;
   }
 
-  const relay = new RelayBridge(loaded.config.relay.url, loaded.config.relay.token, "feishu");
+  const relay = new RelayBridge(loaded.config.relay.url, loaded.config.relay.token, "feishu", loaded.config.relay.e2eSecret);
   const router = new TfclawCommandRouter(relay);
   const chatApps = new ChatAppManager(loaded.config, router);
 
@@ -23,18 +23,38 @@ import {
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as DocumentPicker from "expo-document-picker";
 import * as FileSystem from "expo-file-system/legacy";
+import {
+  type E2eContentKey,
+  type E2eKeyGrantMessage,
+  type E2eKeyPair,
+  type E2eSealedMessage,
+  type SealableMessage,
+  createE2eKeyPair,
+  deriveE2eWrapKey,
+  openSealedMessage,
+  sealRelayMessage,
+  unwrapE2eContentKey,
+} from "./e2e";
 
 type PlatformName = "windows" | "macos" | "linux" | "unknown";
 type AppStage = "login" | "chat";
 type MessageRole = "user" | "assistant" | "system";
 type ConnectionState = "offline" | "connecting" | "online";
 type WorkMode = "tfclaw" | "tmux";
+type ProtocolCapability = "terminal" | "tmux.control" | "screen.capture" | "file.upload" | "file.download" | "file.browse";
+type ClientScope = "view" | "input" | "capture" | "files.read" | "files.write" | "tmux.control";
 
 const TMUX_LINES_MIN = 10;
 const TMUX_LINES_MAX = 300;
 const TMUX_LINES_SLIDER_THUMB_SIZE = 18;
 const TERMINAL_RENDER_MAX_CHARS = 120000;
 const TMUX_RENDER_DEFAULT_KEY = "__default__";
+const TERMINAL_RESIZE_DEBOUNCE_MS = 400;
+const TERMINAL_HISTORY_PAGE_LINES = 200;
+const TERMINAL_HISTORY_MAX_CHARS = 240_000;
+const TERMINAL_SCROLL_EDGE_PX = 40;
+// Monospace glyphs are roughly 0.6em wide on both Menlo and Android's monospace.
+const TERMINAL_CHAR_WIDTH_RATIO = 0.6;
 const DEFAULT_RELAY_URL = process.env.EXPO_PUBLIC_TFCLAW_RELAY_URL ?? "ws://127.0.0.1:8787";
 const DEFAULT_TOKEN = process.env.EXPO_PUBLIC_TFCLAW_TOKEN ?? "demo-token";
 const LOGIN_PREFS_STORAGE_KEY = "@tfclaw/mobile/login-prefs";
@@ -46,6 +66,15 @@ const UI_SCALE_MAX_PERCENT = 130;
 const UI_SCALE_STEPS = [10, 25, 50, 75, 100, 115, 130] as const;
 const FILE_TRANSFER_CHUNK_BASE64_CHARS = 88_000;
 const FILE_DOWNLOAD_DIRECTORY_NAME = "tfclaw-downloads";
+const PROTOCOL_VERSION = 2;
+const CLIENT_CAPABILITIES: ProtocolCapability[] = [
+  "terminal",
+  "tmux.control",
+  "screen.capture",
+  "file.upload",
+  "file.download",
+  "file.browse",
+];
 const TMUX_KEY_SHORTCUTS: Array<{ label: string; token: string }> = [
   { label: "^C", token: "^C" },
   { label: "Enter", token: "enter" },
@@ -68,14 +97,26 @@ interface AgentDescriptor {
   platform: PlatformName;
   hostname: string;
   connectedAt: string;
+  protocolVersion?: number;
+  capabilities?: ProtocolCapability[];
+  e2e?: {
+    publicKey: string;
+    keyId?: string;
+  };
 }
 
 interface RelayStateMessage {
   type: "relay.state";
   payload: {
     agent?: AgentDescriptor;
+    agents?: AgentDescriptor[];
     terminals: Array<unknown>;
     snapshots: Array<unknown>;
+    negotiated?: {
+      protocolVersion: number;
+      capabilities: ProtocolCapability[];
+    };
+    scopes?: ClientScope[];
   };
 }
 
@@ -107,6 +148,25 @@ interface AgentTerminalOutputMessage {
   };
 }
 
+interface AgentTerminalHistoryMessage {
+  type: "agent.terminal_history";
+  payload: {
+    requestId?: string;
+    target?: string;
+    text: string;
+    cursor: number;
+    totalLines: number;
+    hasMore: boolean;
+    full?: boolean;
+  };
+}
+
+interface TerminalHistoryState {
+  text: string;
+  cursor: number;
+  hasMore: boolean;
+}
+
 interface AgentErrorMessage {
   type: "agent.error";
   payload: {
@@ -129,6 +189,7 @@ interface AgentFileTransferMessage {
         mimeType: string;
         size: number;
         totalChunks: number;
+        archive?: "tar" | "zip";
       }
     | {
         direction: "download";
@@ -147,13 +208,36 @@ interface AgentFileTransferMessage {
       };
 }
 
+interface RemoteFileEntry {
+  name: string;
+  path: string;
+  type: "file" | "directory" | "symlink" | "other";
+  size: number;
+  modifiedAt: string;
+}
+
+interface AgentFileResultMessage {
+  type: "agent.file_result";
+  payload: {
+    requestId?: string;
+    operation: "list" | "stat" | "mkdir" | "move" | "delete";
+    path: string;
+    entries?: RemoteFileEntry[];
+    truncated?: boolean;
+  };
+}
+
 type IncomingMessage =
   | RelayStateMessage
   | RelayAckMessage
   | AgentCommandResultMessage
   | AgentTerminalOutputMessage
+  | AgentTerminalHistoryMessage
   | AgentFileTransferMessage
-  | AgentErrorMessage;
+  | AgentFileResultMessage
+  | AgentErrorMessage
+  | E2eKeyGrantMessage
+  | E2eSealedMessage;
 
 interface ChatMessage {
   id: string;
@@ -171,6 +255,7 @@ interface SavedLoginPrefs {
   remember: boolean;
   relayUrl?: string;
   token?: string;
+  e2eSecret?: string;
 }
 
 interface TextActionMenuState {
@@ -193,6 +278,26 @@ interface IncomingDownloadTransfer {
   chunks: string[];
 }
 
+// Exchanges the long-lived relay token for a single-use connect ticket so the token never appears in the WebSocket URL.
+async function requestConnectTicket(relayUrl: string, token: string): Promise<string> {
+  const httpUrl = relayUrl
+    .replace(/\/+$/, "")
+    .replace(/^ws(s?):\/\//i, (_match, secure: string) => `http${secure}://`);
+  const response = await fetch(`${httpUrl}/tickets`, {
+    method: "POST",
+    headers: {
+      authorization: `Bearer ${token}`,
+      "content-type": "application/json",
+    },
+    body: JSON.stringify({ role: "client" }),
+  });
+  const body = (await response.json().catch(() => ({}))) as { ticket?: unknown; message?: unknown };
+  if (!response.ok || typeof body.ticket !== "string") {
+    throw new Error(typeof body.message === "string" ? body.message : `HTTP ${response.status}`);
+  }
+  return body.ticket;
+}
+
 function randomId(prefix: string): string {
   return `${prefix}-${Date.now()}-${Math.floor(Math.random() * 1_000_000)}`;
 }
@@ -278,6 +383,37 @@ function parseTmuxTargetHint(output: string): string | undefined {
   return undefined;
 }
 
+// Once the agent drops old lines, a cursor moves up and the next page ends with lines already shown; cut them off.
+function trimHistoryOverlap(pageText: string, existingText: string): string {
+  const pageLines = pageText.split("\n");
+  const existingLines = existingText.split("\n");
+  for (let overlap = Math.min(pageLines.length, existingLines.length); overlap > 0; overlap -= 1) {
+    const tail = pageLines.slice(pageLines.length - overlap);
+    if (tail.every((line, index) => line === existingLines[index])) {
+      return pageLines.slice(0, pageLines.length - overlap).join("\n");
+    }
+  }
+  return pageText;
+}
+
+function parseMacroNames(output: string): string[] | undefined {
+  const trimmed = output.trim();
+  if (trimmed === "No macros.") {
+    return [];
+  }
+  if (!trimmed.startsWith("macros:")) {
+    return undefined;
+  }
+  const names: string[] = [];
+  for (const line of trimmed.split(/\r?\n/)) {
+    const match = line.match(/^-\s+([\w.-]+)\s+\(\d+ steps?\)/);
+    if (match?.[1]) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
 function parseTmuxLinesValue(output: string): number | undefined {
   const setMatch = output.match(/capture_lines set to\s+(\d+)/i);
   if (setMatch?.[1]) {
@@ -327,6 +463,7 @@ export default function App() {
   const [stage, setStage] = useState<AppStage>("login");
   const [relayUrl, setRelayUrl] = useState("");
   const [token, setToken] = useState("");
+  const [e2eSecret, setE2eSecret] = useState("");
   const [rememberLogin, setRememberLogin] = useState(false);
   const [connectionState, setConnectionState] = useState<ConnectionState>("offline");
   const [workMode, setWorkMode] = useState<WorkMode>("tfclaw");
@@ -337,6 +474,7 @@ export default function App() {
   const [tmuxTargetMenuOpen, setTmuxTargetMenuOpen] = useState(false);
   const [tmuxNewDialogOpen, setTmuxNewDialogOpen] = useState(false);
   const [tmuxNewNameInput, setTmuxNewNameInput] = useState("");
+  const [macroNames, setMacroNames] = useState<string[]>([]);
   const [hideTfclawWindowInTmux, setHideTfclawWindowInTmux] = useState(false);
   const [ignoreTopPanels, setIgnoreTopPanels] = useState(false);
   const [uiScalePercent, setUiScalePercent] = useState(UI_SCALE_DEFAULT_PERCENT);
@@ -344,13 +482,27 @@ export default function App() {
   const [contentFontStep, setContentFontStep] = useState(0);
   const [tmuxKeyPanelOpen, setTmuxKeyPanelOpen] = useState(false);
   const [agent, setAgent] = useState<AgentDescriptor | undefined>(undefined);
+  const [agents, setAgents] = useState<AgentDescriptor[]>([]);
+  const [selectedAgentId, setSelectedAgentId] = useState("");
+  const [negotiatedCapabilities, setNegotiatedCapabilities] = useState<ProtocolCapability[] | undefined>(undefined);
+  const [clientScopes, setClientScopes] = useState<ClientScope[] | undefined>(undefined);
   const [inputText, setInputText] = useState("");
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [tmuxRenderByTarget, setTmuxRenderByTarget] = useState<Record<string, string>>({});
   const [tmuxLiveProgressByTarget, setTmuxLiveProgressByTarget] = useState<Record<string, string>>({});
+  const [tmuxHistoryByTarget, setTmuxHistoryByTarget] = useState<Record<string, TerminalHistoryState>>({});
+  const historyRequestRef = useRef<{ requestId: string; key: string } | null>(null);
   const [uploadingFile, setUploadingFile] = useState(false);
   const [downloadDialogOpen, setDownloadDialogOpen] = useState(false);
   const [downloadPathInput, setDownloadPathInput] = useState("");
+  const [downloadArchiveFormat, setDownloadArchiveFormat] = useState<"zip" | "tar">("zip");
+  const [downloadIncludeInput, setDownloadIncludeInput] = useState("");
+  const [downloadExcludeInput, setDownloadExcludeInput] = useState("");
+  const [browseDialogOpen, setBrowseDialogOpen] = useState(false);
+  const [browsePath, setBrowsePath] = useState("");
+  const [browseEntries, setBrowseEntries] = useState<RemoteFileEntry[]>([]);
+  const [browseStatus, setBrowseStatus] = useState("");
+  const browseRequestIdRef = useRef("");
   const [selectedTextMessageId, setSelectedTextMessageId] = useState("");
   const [terminalTextSelected, setTerminalTextSelected] = useState(false);
   const [textActionMenu, setTextActionMenu] = useState<TextActionMenuState>({
@@ -365,9 +517,17 @@ export default function App() {
   const workModeRef = useRef<WorkMode>("tfclaw");
   const stageRef = useRef<AppStage>("login");
   const connectionStateRef = useRef<ConnectionState>("offline");
+  const e2eNoticeAgentIdsRef = useRef(new Set<string>());
+  // A fresh key pair per connection; agents with end-to-end encryption answer client.hello with a content key.
+  const e2eSecretRef = useRef("");
+  const e2eKeyPairRef = useRef<E2eKeyPair | undefined>(undefined);
+  const e2eKeysRef = useRef(new Map<string, E2eContentKey>());
+  const agentsRef = useRef<AgentDescriptor[]>([]);
+  const defaultAgentIdRef = useRef("");
   const appStateRef = useRef(AppState.currentState);
   const keepConnectionRef = useRef(false);
   const selectedTmuxTargetRef = useRef("");
+  const selectedAgentIdRef = useRef("");
   const tmuxProgressRequestTargetRef = useRef<Map<string, string>>(new Map());
   const pendingMapRef = useRef<Map<string, PendingCommandState>>(new Map());
   const silentRequestIdsRef = useRef<Set<string>>(new Set());
@@ -378,9 +538,30 @@ export default function App() {
   const terminalScrollRef = useRef<ScrollView | null>(null);
   const tmuxLinesTrackWidthRef = useRef(1);
   const [tmuxLinesTrackWidth, setTmuxLinesTrackWidth] = useState(1);
+  const [terminalViewport, setTerminalViewport] = useState({ width: 0, height: 0 });
+  const terminalSizeKeyRef = useRef("");
+  // Older history is prepended while scrolling up, so the renderer only follows new output when already at the bottom.
+  const terminalPinnedRef = useRef(true);
+  const terminalScrollYRef = useRef(0);
+  const terminalContentHeightRef = useRef(0);
+  const terminalPrependRef = useRef(false);
 
   const isOnline = connectionState === "online";
   const isConnecting = connectionState === "connecting";
+  // Relays that predate negotiation send no capability list; keep everything enabled for them.
+  // The relay negotiates against its default agent, so a picked agent is checked against its own list.
+  const pickedAgentCapabilities = selectedAgentId
+    ? agents.find((item) => item.agentId === selectedAgentId)?.capabilities
+    : undefined;
+  const effectiveCapabilities = selectedAgentId ? pickedAgentCapabilities : negotiatedCapabilities;
+  const supports = (capability: ProtocolCapability) => !effectiveCapabilities || effectiveCapabilities.includes(capability);
+  // Derived (shared) relay tokens carry scopes; the owner token gets every scope.
+  const granted = (scope: ClientScope) => !clientScopes || clientScopes.includes(scope);
+  const canCapture = supports("screen.capture") && granted("capture");
+  const canUpload = supports("file.upload") && granted("files.write");
+  const canDownload = supports("file.download") && granted("files.read");
+  const canBrowse = supports("file.browse") && granted("files.read");
+  const canControlTmux = supports("tmux.control") && granted("tmux.control");
   const uiScaleValue = clampUiScalePercent(uiScalePercent);
   const uiScale = uiScaleValue / 100;
   const uiScaleLabel = `${uiScaleValue}%`;
@@ -472,12 +653,18 @@ export default function App() {
     return "offline";
   }, [connectionState]);
 
+  const activeAgent = useMemo(
+    () => agents.find((item) => item.agentId === selectedAgentId) ?? agent,
+    [agent, agents, selectedAgentId],
+  );
+
   const agentText = useMemo(() => {
-    if (!agent) {
+    if (!activeAgent) {
       return "agent: not connected";
     }
-    return `agent: ${agent.hostname} (${agent.platform})`;
-  }, [agent]);
+    const suffix = agents.length > 1 ? ` [${selectedAgentId ? "selected" : "auto"}, ${agents.length} online]` : "";
+    return `agent: ${activeAgent.hostname} (${activeAgent.platform})${suffix}`;
+  }, [activeAgent, agents, selectedAgentId]);
 
   const modeText = useMemo(() => `mode: ${workMode}`, [workMode]);
 
@@ -579,6 +766,60 @@ export default function App() {
     clearTmuxProgressByTarget();
   };
 
+  // Commands carry the picked agentId; without one the relay routes to its most recently registered agent.
+  const withSelectedAgent = (payload: unknown): unknown => {
+    const agentId = selectedAgentIdRef.current;
+    if (!agentId || !payload || typeof payload !== "object" || (payload as { type?: unknown }).type !== "client.command") {
+      return payload;
+    }
+    return { ...(payload as Record<string, unknown>), agentId };
+  };
+
+  const selectAgent = (agentId: string) => {
+    selectedAgentIdRef.current = agentId;
+    setSelectedAgentId(agentId);
+  };
+
+  const handleCycleAgent = () => {
+    if (agents.length === 0) {
+      return;
+    }
+    const currentIndex = agents.findIndex((item) => item.agentId === selectedAgentIdRef.current);
+    const next = currentIndex + 1 >= agents.length ? "" : agents[currentIndex + 1].agentId;
+    selectAgent(next);
+    const nextAgent = agents.find((item) => item.agentId === next);
+    appendSystemText(nextAgent ? `Agent selected: ${nextAgent.hostname} (${nextAgent.agentId})` : "Agent selection: auto");
+    setTimeout(() => {
+      void sendSilentCommandText("/tmux panes");
+      void sendSilentCommandText("/macro list");
+    }, 0);
+  };
+
+  // Commands for an agent with end-to-end encryption are sealed with its content key; undefined when that is not possible yet.
+  const encodeOutgoing = (payload: unknown, quiet = false): string | undefined => {
+    const message = withSelectedAgent(payload) as { type?: unknown; agentId?: string } | null;
+    if (!message || message.type !== "client.command") {
+      return JSON.stringify(message);
+    }
+    const agentId = message.agentId || defaultAgentIdRef.current;
+    const target = agentsRef.current.find((item) => item.agentId === agentId);
+    if (!target?.e2e) {
+      return JSON.stringify(message);
+    }
+    const key = e2eKeysRef.current.get(target.agentId);
+    if (!key || key.keyId !== target.e2e.keyId) {
+      if (!quiet) {
+        appendSystemText(
+          e2eSecretRef.current
+            ? `End-to-end key exchange with agent ${target.agentId} has not completed yet. Message was not sent.`
+            : `Agent ${target.agentId} requires end-to-end encryption; set the E2E secret on the login screen. Message was not sent.`,
+        );
+      }
+      return undefined;
+    }
+    return JSON.stringify(sealRelayMessage({ ...(message as SealableMessage), agentId: target.agentId }, key));
+  };
+
   const sendJson = (payload: unknown): boolean => {
     const ws = wsRef.current;
     if (!ws || ws.readyState !== WebSocket.OPEN) {
@@ -593,7 +834,11 @@ export default function App() {
       }
       return false;
     }
-    ws.send(JSON.stringify(payload));
+    const encoded = encodeOutgoing(payload);
+    if (encoded === undefined) {
+      return false;
+    }
+    ws.send(encoded);
     return true;
   };
 
@@ -607,19 +852,21 @@ export default function App() {
       return false;
     }
     const requestId = randomId("tfclaw-silent");
+    const encoded = encodeOutgoing({
+      type: "client.command",
+      requestId,
+      payload: {
+        command: "tfclaw.command",
+        text,
+        sessionKey: "mobile-app",
+      },
+    }, true);
+    if (encoded === undefined) {
+      return false;
+    }
     silentRequestIdsRef.current.add(requestId);
     pendingMapRef.current.set(requestId, {});
-    ws.send(
-      JSON.stringify({
-        type: "client.command",
-        requestId,
-        payload: {
-          command: "tfclaw.command",
-          text,
-          sessionKey: "mobile-app",
-        },
-      }),
-    );
+    ws.send(encoded);
     return true;
   };
 
@@ -707,6 +954,12 @@ export default function App() {
       setTmuxLines(maybeLines);
       setTmuxLinesInput(String(maybeLines));
     }
+    const maybeMacros = parseMacroNames(output);
+    if (maybeMacros) {
+      setMacroNames(maybeMacros);
+    } else if (/^(?:Saved|Deleted) macro /.test(output.trim())) {
+      void sendSilentCommandText("/macro list");
+    }
   };
 
   const finishPending = (requestId?: string) => {
@@ -730,8 +983,59 @@ export default function App() {
       return;
     }
 
+    if (parsed.type === "e2e.key_grant") {
+      const agentId = parsed.agentId ?? "";
+      const grantingAgent = agentsRef.current.find((item) => item.agentId === agentId);
+      const keyPair = e2eKeyPairRef.current;
+      if (!keyPair || !grantingAgent?.e2e) {
+        return;
+      }
+      try {
+        const wrapKey = deriveE2eWrapKey(keyPair, grantingAgent.e2e.publicKey, e2eSecretRef.current);
+        e2eKeysRef.current.set(agentId, unwrapE2eContentKey(wrapKey, parsed.payload));
+      } catch {
+        appendSystemText(`Cannot unwrap the end-to-end key of agent ${agentId}; check the E2E secret.`);
+        return;
+      }
+      // The refresh sent right after connecting could not be sealed yet.
+      if (agentId === (selectedAgentIdRef.current || defaultAgentIdRef.current)) {
+        void sendSilentCommandText("/tmux panes");
+        void sendSilentCommandText("/macro list");
+      }
+      return;
+    }
+
+    if (parsed.type === "e2e.sealed") {
+      const sealed = parsed;
+      const key = sealed.agentId ? e2eKeysRef.current.get(sealed.agentId) : undefined;
+      if (!key) {
+        return;
+      }
+      try {
+        parsed = { ...(openSealedMessage(sealed, key) as object), agentId: sealed.agentId } as IncomingMessage;
+      } catch (error) {
+        appendSystemText(`Dropped a sealed ${sealed.payload.inner} message from agent ${sealed.agentId}: it ${error instanceof Error ? error.message : String(error)}.`);
+        return;
+      }
+    }
+
     if (parsed.type === "relay.state") {
+      const nextAgents = parsed.payload.agents ?? (parsed.payload.agent ? [parsed.payload.agent] : []);
+      agentsRef.current = nextAgents;
+      defaultAgentIdRef.current = parsed.payload.agent?.agentId ?? "";
       setAgent(parsed.payload.agent);
+      setAgents(nextAgents);
+      if (selectedAgentIdRef.current && !nextAgents.some((item) => item.agentId === selectedAgentIdRef.current)) {
+        selectAgent("");
+      }
+      setNegotiatedCapabilities(parsed.payload.negotiated?.capabilities);
+      setClientScopes(parsed.payload.scopes);
+      for (const item of nextAgents) {
+        if (item.e2e && !e2eSecretRef.current && !e2eNoticeAgentIdsRef.current.has(item.agentId)) {
+          e2eNoticeAgentIdsRef.current.add(item.agentId);
+          appendSystemText(`Agent ${item.agentId} uses end-to-end encryption. Set the E2E secret on the login screen to use it.`);
+        }
+      }
       return;
     }
 
@@ -812,6 +1116,52 @@ export default function App() {
       return;
     }
 
+    if (parsed.type === "agent.file_result") {
+      if (parsed.payload.operation === "list" && parsed.payload.requestId === browseRequestIdRef.current) {
+        browseRequestIdRef.current = "";
+        setBrowsePath(parsed.payload.path);
+        setBrowseEntries(parsed.payload.entries ?? []);
+        setBrowseStatus(parsed.payload.truncated ? "showing the first entries only" : "");
+      }
+      return;
+    }
+
+    if (parsed.type === "agent.terminal_history") {
+      const pendingHistory = historyRequestRef.current;
+      if (!pendingHistory || parsed.payload.requestId !== pendingHistory.requestId) {
+        return;
+      }
+      historyRequestRef.current = null;
+      const rawPageText = stripAnsi(parsed.payload.text).replace(/\r\n/g, "\n");
+      const full = Boolean(parsed.payload.full);
+      terminalPrependRef.current = Boolean(rawPageText);
+      setTmuxHistoryByTarget((prev) => {
+        const existing = prev[pendingHistory.key]?.text ?? "";
+        const pageText = full && existing ? trimHistoryOverlap(rawPageText, existing) : rawPageText;
+        const text = pageText ? `${pageText}\n${existing}` : existing;
+        return {
+          ...prev,
+          [pendingHistory.key]: {
+            text,
+            cursor: parsed.payload.cursor,
+            hasMore: parsed.payload.hasMore && text.length < TERMINAL_HISTORY_MAX_CHARS,
+          },
+        };
+      });
+      return;
+    }
+
+    if (parsed.type === "agent.error" && parsed.payload.requestId && parsed.payload.requestId === historyRequestRef.current?.requestId) {
+      historyRequestRef.current = null;
+      return;
+    }
+
+    if (parsed.type === "agent.error" && parsed.payload.requestId && parsed.payload.requestId === browseRequestIdRef.current) {
+      browseRequestIdRef.current = "";
+      setBrowseStatus(`[${parsed.payload.code}] ${parsed.payload.message}`);
+      return;
+    }
+
     if (parsed.type === "agent.error") {
       const requestId = parsed.payload.requestId;
       const isSilent = Boolean(requestId && silentRequestIdsRef.current.has(requestId));
@@ -879,6 +1229,7 @@ export default function App() {
   const connectWithToken = () => {
     const urlText = relayUrl.trim() || DEFAULT_RELAY_URL;
     const tokenText = token.trim() || DEFAULT_TOKEN;
+    const secretText = e2eSecret.trim();
     if (isConnecting) {
       return;
     }
@@ -891,6 +1242,7 @@ export default function App() {
             remember: true,
             relayUrl: urlText,
             token: tokenText,
+            e2eSecret: secretText || undefined,
           };
           await AsyncStorage.setItem(LOGIN_PREFS_STORAGE_KEY, JSON.stringify(saved));
           return;
@@ -906,6 +1258,8 @@ export default function App() {
     clearTmuxProgress();
     setTmuxRenderByTarget({});
     setTmuxLiveProgressByTarget({});
+    setTmuxHistoryByTarget({});
+    historyRequestRef.current = null;
     clearIncomingDownloadTransfers();
     setUploadingFile(false);
     tmuxProgressRequestTargetRef.current.clear();
@@ -925,74 +1279,108 @@ export default function App() {
     const connectingText = "Connecting to TFClaw relay...";
     appendSystemText(connectingText);
 
-    const wsUrl = `${urlText.replace(/\/+$/, "")}/?role=client&token=${encodeURIComponent(tokenText)}`;
-    const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
+    const openRelaySocket = (ticket: string) => {
+      const wsUrl = `${urlText.replace(/\/+$/, "")}/?role=client&ticket=${encodeURIComponent(ticket)}`;
+      const ws = new WebSocket(wsUrl);
+      wsRef.current = ws;
+      e2eSecretRef.current = secretText;
+      e2eKeyPairRef.current = secretText ? createE2eKeyPair() : undefined;
+      e2eKeysRef.current.clear();
 
-    ws.onopen = () => {
-      if (wsRef.current !== ws) {
-        return;
-      }
-      setConnectionState("online");
-      const connectedText = "Connected.";
-      appendSystemText(connectedText);
-      sendJson({
-        type: "client.hello",
-        payload: {
-          clientType: "mobile",
-        },
-      });
-      // Auto-refresh tmux targets immediately after connecting.
-      setTimeout(() => {
-        void sendSilentCommandText("/tmux panes");
-      }, 180);
-    };
+      ws.onopen = () => {
+        if (wsRef.current !== ws) {
+          return;
+        }
+        setConnectionState("online");
+        const connectedText = "Connected.";
+        appendSystemText(connectedText);
+        sendJson({
+          type: "client.hello",
+          payload: {
+            clientType: "mobile",
+            protocolVersion: PROTOCOL_VERSION,
+            capabilities: CLIENT_CAPABILITIES,
+            ...(e2eKeyPairRef.current ? { e2e: { publicKey: e2eKeyPairRef.current.publicKey } } : {}),
+          },
+        });
+        // Auto-refresh tmux targets and macros immediately after connecting.
+        setTimeout(() => {
+          void sendSilentCommandText("/tmux panes");
+          void sendSilentCommandText("/macro list");
+        }, 180);
+      };
 
-    ws.onmessage = (event) => {
-      if (wsRef.current !== ws) {
-        return;
-      }
-      handleIncoming(String(event.data));
-    };
+      ws.onmessage = (event) => {
+        if (wsRef.current !== ws) {
+          return;
+        }
+        handleIncoming(String(event.data));
+      };
 
-    ws.onerror = () => {
-      if (wsRef.current !== ws) {
-        return;
-      }
-      const errorText = "Socket error. Check relay URL/token and network.";
-      appendSystemText(errorText);
-    };
+      ws.onerror = () => {
+        if (wsRef.current !== ws) {
+          return;
+        }
+        const errorText = "Socket error. Check relay URL/token and network.";
+        appendSystemText(errorText);
+      };
 
-    ws.onclose = () => {
-      if (wsRef.current !== ws) {
-        return;
-      }
-      setConnectionState("offline");
-      setAgent(undefined);
-      wsRef.current = null;
-      pendingMapRef.current.clear();
-      setTmuxNewDialogOpen(false);
-      setTmuxNewNameInput("");
-      setDownloadDialogOpen(false);
-      setDownloadPathInput("");
-      silentRequestIdsRef.current.clear();
-      setTmuxRenderByTarget({});
-      setTmuxLiveProgressByTarget({});
-      clearIncomingDownloadTransfers();
-      setUploadingFile(false);
-      tmuxProgressRequestTargetRef.current.clear();
-      selectedTmuxTargetRef.current = "";
-      if (closeSwitchTimerRef.current) {
-        clearTimeout(closeSwitchTimerRef.current);
-        closeSwitchTimerRef.current = null;
-      }
-      clearTmuxProgress();
-      const disconnectedText = "Disconnected.";
-      appendSystemText(disconnectedText);
-      if (keepConnectionRef.current && appStateRef.current === "active") {
-        scheduleAutoReconnect(900);
-      }
+      ws.onclose = () => {
+        if (wsRef.current !== ws) {
+          return;
+        }
+        setConnectionState("offline");
+        setAgent(undefined);
+        setAgents([]);
+        agentsRef.current = [];
+        e2eKeysRef.current.clear();
+        setNegotiatedCapabilities(undefined);
+        setClientScopes(undefined);
+        wsRef.current = null;
+        pendingMapRef.current.clear();
+        setTmuxNewDialogOpen(false);
+        setTmuxNewNameInput("");
+        setDownloadDialogOpen(false);
+        setDownloadPathInput("");
+        silentRequestIdsRef.current.clear();
+        setTmuxRenderByTarget({});
+        setTmuxLiveProgressByTarget({});
+        setTmuxHistoryByTarget({});
+        historyRequestRef.current = null;
+        clearIncomingDownloadTransfers();
+        setUploadingFile(false);
+        tmuxProgressRequestTargetRef.current.clear();
+        selectedTmuxTargetRef.current = "";
+        if (closeSwitchTimerRef.current) {
+          clearTimeout(closeSwitchTimerRef.current);
+          closeSwitchTimerRef.current = null;
+        }
+        clearTmuxProgress();
+        const disconnectedText = "Disconnected.";
+        appendSystemText(disconnectedText);
+        if (keepConnectionRef.current && appStateRef.current === "active") {
+          scheduleAutoReconnect(900);
+        }
+      };
     };
+
+    void requestConnectTicket(urlText, tokenText)
+      .then((ticket) => {
+        if (!keepConnectionRef.current || wsRef.current) {
+          return;
+        }
+        openRelaySocket(ticket);
+      })
+      .catch((error) => {
+        if (!keepConnectionRef.current || wsRef.current) {
+          return;
+        }
+        setConnectionState("offline");
+        appendSystemText(`Relay login failed: ${error instanceof Error ? error.message : String(error)}`);
+        if (appStateRef.current === "active") {
+          scheduleAutoReconnect(2000);
+        }
+      });
   };
 
   const backToLogin = () => {
@@ -1002,6 +1390,10 @@ export default function App() {
     wsRef.current = null;
     setConnectionState("offline");
     setAgent(undefined);
+    setAgents([]);
+    selectAgent("");
+    setNegotiatedCapabilities(undefined);
+    setClientScopes(undefined);
     pendingMapRef.current.clear();
     setTmuxNewDialogOpen(false);
     setTmuxNewNameInput("");
@@ -1010,6 +1402,8 @@ export default function App() {
     silentRequestIdsRef.current.clear();
     setTmuxRenderByTarget({});
     setTmuxLiveProgressByTarget({});
+    setTmuxHistoryByTarget({});
+    historyRequestRef.current = null;
     clearIncomingDownloadTransfers();
     setUploadingFile(false);
     tmuxProgressRequestTargetRef.current.clear();
@@ -1173,7 +1567,7 @@ export default function App() {
         chunks: new Array(totalChunks).fill(""),
       });
       appendSystemText(
-        `[file] receiving ${payload.fileName || fileNameFromPath(payload.path)} (${payload.size} bytes, chunks=${totalChunks})`,
+        `[file] receiving ${payload.fileName || fileNameFromPath(payload.path)} (${payload.size} bytes, chunks=${totalChunks}${payload.archive ? `, ${payload.archive} of ${payload.path}` : ""})`,
       );
       return;
     }
@@ -1313,20 +1707,106 @@ export default function App() {
       appendSystemText("[file] remote path is required.");
       return;
     }
+    if (requestRemoteDownload(remotePath)) {
+      closeDownloadDialog();
+    }
+  };
+
+  const requestRemoteDownload = (remotePath: string): boolean => {
+    const splitGlobs = (input: string) => input.split(",").map((item) => item.trim()).filter(Boolean);
+    const include = splitGlobs(downloadIncludeInput);
+    const exclude = splitGlobs(downloadExcludeInput);
     const requestId = randomId("file-download");
+    // archive only takes effect when the remote path turns out to be a directory.
     const sent = sendJson({
       type: "client.command",
       requestId,
       payload: {
         command: "file.download",
         path: remotePath,
+        archive: downloadArchiveFormat,
+        ...(include.length > 0 ? { include } : {}),
+        ...(exclude.length > 0 ? { exclude } : {}),
       },
     });
     if (!sent) {
-      return;
+      return false;
     }
     appendSystemText(`[file] download requested: ${remotePath}`);
-    closeDownloadDialog();
+    return true;
+  };
+
+  const requestBrowse = (remotePath?: string) => {
+    const requestId = randomId("file-list");
+    const sent = sendJson({
+      type: "client.command",
+      requestId,
+      payload: {
+        command: "file.list",
+        ...(remotePath ? { path: remotePath } : {}),
+      },
+    });
+    if (sent) {
+      browseRequestIdRef.current = requestId;
+      setBrowseStatus("loading...");
+    }
+  };
+
+  const requestTerminalHistory = () => {
+    const key = normalizeTmuxTarget(selectedTmuxTarget);
+    if (workMode !== "tmux" || !isOnline || !canControlTmux || !supports("tmux.control") || !key || historyRequestRef.current) {
+      return;
+    }
+    const existing = tmuxHistoryByTarget[key];
+    if (existing && !existing.hasMore) {
+      return;
+    }
+    const requestId = randomId("history");
+    const sent = sendJson({
+      type: "client.command",
+      requestId,
+      payload: {
+        command: "tmux.history",
+        sessionKey: "mobile-app",
+        lines: TERMINAL_HISTORY_PAGE_LINES,
+        // The first page starts above the lines the renderer already got from tmux captures.
+        ...(existing ? { before: existing.cursor } : { offset: clampTmuxLines(tmuxLines) }),
+      },
+    });
+    if (sent) {
+      historyRequestRef.current = { requestId, key };
+    }
+  };
+
+  const openBrowseDialog = () => {
+    setBrowseDialogOpen(true);
+    requestBrowse(browsePath || undefined);
+  };
+
+  const closeBrowseDialog = () => {
+    browseRequestIdRef.current = "";
+    setBrowseDialogOpen(false);
+  };
+
+  const browseParentPath = (current: string): string => {
+    const trimmed = current.replace(/[\\/]+$/, "");
+    const index = Math.max(trimmed.lastIndexOf("/"), trimmed.lastIndexOf("\\"));
+    if (index < 0) {
+      return current;
+    }
+    if (index === 0) {
+      return trimmed.slice(0, 1);
+    }
+    const parent = trimmed.slice(0, index);
+    return /^[A-Za-z]:$/.test(parent) ? `${parent}\\` : parent;
+  };
+
+  const handleBrowseEntryPress = (entry: RemoteFileEntry) => {
+    if (entry.type === "directory") {
+      requestBrowse(entry.path);
+      return;
+    }
+    requestRemoteDownload(entry.path);
   };
 
   const applyUiScalePercent = (value: number) => {
@@ -1441,6 +1921,7 @@ export default function App() {
   const handleClearLoginInputs = () => {
     setRelayUrl("");
     setToken("");
+    setE2eSecret("");
   };
 
   const handleTmuxLinesApply = (lines: number) => {
@@ -1500,6 +1981,15 @@ export default function App() {
     void sendCommandText("/tmux panes");
   };
 
+  const handleRunMacro = (name: string) => {
+    void sendCommandText(`/macro run ${name}`);
+  };
+
+  // Long press leaves the command in the input box so arguments can be added.
+  const handleEditMacroRun = (name: string) => {
+    setInputText(`/macro run ${name} `);
+  };
+
   const closeTmuxNewDialog = () => {
     setTmuxNewDialogOpen(false);
     setTmuxNewNameInput("");
@@ -1636,6 +2126,9 @@ export default function App() {
         if (typeof parsed.token === "string") {
           setToken(parsed.token);
         }
+        if (typeof parsed.e2eSecret === "string") {
+          setE2eSecret(parsed.e2eSecret);
+        }
       } catch {
         // Ignore invalid persisted values and continue with defaults.
       }
@@ -1738,7 +2231,8 @@ export default function App() {
   const activeTmuxRenderKey = normalizeTmuxTarget(selectedTmuxTarget) || TMUX_RENDER_DEFAULT_KEY;
   const terminalDisplay = useMemo(() => {
     const baseRender = tmuxRenderByTarget[activeTmuxRenderKey] ?? "";
-    const base = baseRender || "# tmux renderer\n# output will appear here";
+    const history = tmuxHistoryByTarget[activeTmuxRenderKey]?.text ?? "";
+    const base = `${history}${baseRender || "# tmux renderer\n# output will appear here"}`;
     if (workMode !== "tmux") {
       return base;
     }
@@ -1747,10 +2241,10 @@ export default function App() {
       return base;
     }
     return `${base}${base.endsWith("\n") ? "" : "\n"}${live}`;
-  }, [activeTmuxRenderKey, tmuxLiveProgressByTarget, tmuxRenderByTarget, workMode]);
+  }, [activeTmuxRenderKey, tmuxHistoryByTarget, tmuxLiveProgressByTarget, tmuxRenderByTarget, workMode]);
 
   useEffect(() => {
-    if (workMode !== "tmux") {
+    if (workMode !== "tmux" || !terminalPinnedRef.current) {
       return;
     }
     const timer = setTimeout(() => {
@@ -1761,6 +2255,34 @@ export default function App() {
     };
   }, [terminalDisplay, workMode]);
 
+  const terminalFontSize = dynamicUi.terminalText.fontSize;
+  const terminalLineHeight = dynamicUi.terminalText.lineHeight;
+  useEffect(() => {
+    const target = normalizeTmuxTarget(selectedTmuxTarget);
+    if (workMode !== "tmux" || !isOnline || !canControlTmux || !target) {
+      terminalSizeKeyRef.current = "";
+      return;
+    }
+    if (terminalViewport.width <= 0 || terminalViewport.height <= 0) {
+      return;
+    }
+    // terminalContent pads the text by 10 on every side.
+    const cols = Math.max(10, Math.floor((terminalViewport.width - 20) / (terminalFontSize * TERMINAL_CHAR_WIDTH_RATIO)));
+    const rows = Math.max(5, Math.floor((terminalViewport.height - 20) / terminalLineHeight));
+    const sizeKey = `${target}|${cols}x${rows}`;
+    if (sizeKey === terminalSizeKeyRef.current) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      if (sendSilentCommandText(`/tmux size ${cols}x${rows}`)) {
+        terminalSizeKeyRef.current = sizeKey;
+      }
+    }, TERMINAL_RESIZE_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [canControlTmux, isOnline, selectedTmuxTarget, terminalFontSize, terminalLineHeight, terminalViewport, workMode]);
+
   useEffect(() => {
     const showEvent = Platform.OS === "ios" ? "keyboardWillShow" : "keyboardDidShow";
     const hideEvent = Platform.OS === "ios" ? "keyboardWillHide" : "keyboardDidHide";
@@ -1901,11 +2423,22 @@ export default function App() {
               placeholder={DEFAULT_TOKEN}
               placeholderTextColor="#6f878f"
             />
+            <Text style={[styles.label, dynamicUi.label]}>E2E secret</Text>
+            <TextInput
+              style={[styles.input, dynamicUi.input]}
+              value={e2eSecret}
+              onChangeText={setE2eSecret}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+              placeholder="only for agents with TFCLAW_E2E_SECRET"
+              placeholderTextColor="#6f878f"
+            />
             <Pressable style={styles.rememberRow} onPress={handleToggleRememberLogin}>
               <View style={[styles.rememberBox, rememberLogin ? styles.rememberBoxActive : undefined]}>
                 {rememberLogin ? <Text style={[styles.rememberBoxMark, dynamicUi.metaText]}>✓</Text> : null}
               </View>
-              <Text style={[styles.metaText, dynamicUi.metaText]}>Remember URL and token on this device</Text>
+              <Text style={[styles.metaText, dynamicUi.metaText]}>Remember URL, token and E2E secret on this device</Text>
             </Pressable>
             <View style={styles.loginActionsRow}>
               <Pressable style={[styles.btn, dynamicUi.btn, styles.btnPrimary, styles.loginActionBtn]} onPress={connectWithToken}>
@@ -1938,24 +2471,33 @@ export default function App() {
                   </View>
                   <View style={styles.chatTopBtns}>
                     <Pressable
-                      style={[styles.btn, dynamicUi.btn, styles.topBtn, dynamicUi.topBtn, styles.topBtnCapture]}
+                      style={[styles.btn, dynamicUi.btn, styles.topBtn, dynamicUi.topBtn, styles.topBtnCapture, !canCapture ? styles.btnUnsupported : undefined]}
                       onPress={handleTCapture}
+                      disabled={!canCapture}
                     >
                       <Text style={[styles.btnText, dynamicUi.btnText]}>/tcapture</Text>
                     </Pressable>
                     <Pressable
-                      style={[styles.btn, dynamicUi.btn, styles.topBtn, dynamicUi.topBtn, styles.topBtnFileSend]}
+                      style={[styles.btn, dynamicUi.btn, styles.topBtn, dynamicUi.topBtn, styles.topBtnFileSend, !canUpload ? styles.btnUnsupported : undefined]}
                       onPress={handleSendFile}
-                      disabled={uploadingFile}
+                      disabled={uploadingFile || !canUpload}
                     >
                       <Text style={[styles.btnText, dynamicUi.btnText]}>{uploadingFile ? "Sending..." : "Send File"}</Text>
                     </Pressable>
                     <Pressable
-                      style={[styles.btn, dynamicUi.btn, styles.topBtn, dynamicUi.topBtn, styles.topBtnFileGet]}
+                      style={[styles.btn, dynamicUi.btn, styles.topBtn, dynamicUi.topBtn, styles.topBtnFileGet, !canDownload ? styles.btnUnsupported : undefined]}
                       onPress={openDownloadDialog}
+                      disabled={!canDownload}
                     >
                       <Text style={[styles.btnText, dynamicUi.btnText]}>Get File</Text>
                     </Pressable>
+                    <Pressable
+                      style={[styles.btn, dynamicUi.btn, styles.topBtn, dynamicUi.topBtn, styles.topBtnFileGet, !canBrowse ? styles.btnUnsupported : undefined]}
+                      onPress={openBrowseDialog}
+                      disabled={!canBrowse}
+                    >
+                      <Text style={[styles.btnText, dynamicUi.btnText]}>Browse</Text>
+                    </Pressable>
                     <Pressable
                       style={[styles.btn, dynamicUi.btn, styles.topBtn, dynamicUi.topBtn, styles.topBtnBright]}
                       onPress={connectWithToken}
@@ -1972,12 +2514,25 @@ export default function App() {
                   <View style={[styles.modeBadge, workMode === "tmux" ? styles.modeTmux : styles.modeTfclaw]}>
                     <Text style={[styles.modeBadgeText, dynamicUi.modeBadgeText]}>{modeText}</Text>
                   </View>
-                  <Pressable style={[styles.btn, dynamicUi.btn, styles.modeBtnOn]} onPress={handlePtOn}>
+                  <Pressable
+                    style={[styles.btn, dynamicUi.btn, styles.modeBtnOn, !canControlTmux ? styles.btnUnsupported : undefined]}
+                    onPress={handlePtOn}
+                    disabled={!canControlTmux}
+                  >
                     <Text style={[styles.btnText, dynamicUi.btnText]}>PT ON</Text>
                   </Pressable>
-                  <Pressable style={[styles.btn, dynamicUi.btn, styles.modeBtnOff]} onPress={handlePtOff}>
+                  <Pressable
+                    style={[styles.btn, dynamicUi.btn, styles.modeBtnOff, !canControlTmux ? styles.btnUnsupported : undefined]}
+                    onPress={handlePtOff}
+                    disabled={!canControlTmux}
+                  >
                     <Text style={[styles.btnText, dynamicUi.btnText]}>PT OFF</Text>
                   </Pressable>
+                  {agents.length > 1 ? (
+                    <Pressable style={[styles.btn, dynamicUi.btn, styles.modeBtnAgent]} onPress={handleCycleAgent}>
+                      <Text style={[styles.btnText, dynamicUi.btnText]}>{activeAgent?.hostname ?? "Agent"}</Text>
+                    </Pressable>
+                  ) : null}
                   {workMode === "tmux" ? (
                     <Pressable style={[styles.btn, dynamicUi.btn, styles.modeBtnToggleTfclaw]} onPress={handleToggleTfclawWindowInTmux}>
                       <Text style={[styles.btnText, dynamicUi.btnText]}>
@@ -2053,6 +2608,22 @@ export default function App() {
                   </View>
                 ) : null}
 
+                {macroNames.length > 0 ? (
+                  <View style={styles.targetRow}>
+                    <Text style={[styles.metaText, dynamicUi.metaText]}>macros:</Text>
+                    {macroNames.map((name) => (
+                      <Pressable
+                        key={name}
+                        style={[styles.linesApplyBtn, dynamicUi.linesApplyBtn]}
+                        onPress={() => handleRunMacro(name)}
+                        onLongPress={() => handleEditMacroRun(name)}
+                      >
+                        <Text style={[styles.linesApplyBtnText, dynamicUi.linesApplyBtnText]}>{name}</Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                ) : null}
+
                 <Text style={[styles.metaText, dynamicUi.metaText]}>
                   {agentText} | lines: {tmuxLines} | target: {selectedTmuxTarget || "(none)"}
                 </Text>
@@ -2093,7 +2664,40 @@ export default function App() {
                   style={styles.terminalView}
                   contentContainerStyle={styles.terminalContent}
                   keyboardShouldPersistTaps="handled"
-                  onContentSizeChange={() => terminalScrollRef.current?.scrollToEnd({ animated: true })}
+                  onLayout={(event) => {
+                    const { width, height } = event.nativeEvent.layout;
+                    setTerminalViewport((prev) => (
+                      prev.width === Math.round(width) && prev.height === Math.round(height)
+                        ? prev
+                        : { width: Math.round(width), height: Math.round(height) }
+                    ));
+                  }}
+                  scrollEventThrottle={100}
+                  onScroll={(event) => {
+                    const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+                    terminalScrollYRef.current = contentOffset.y;
+                    terminalPinnedRef.current =
+                      contentOffset.y + layoutMeasurement.height >= contentSize.height - TERMINAL_SCROLL_EDGE_PX;
+                    if (contentOffset.y <= TERMINAL_SCROLL_EDGE_PX) {
+                      requestTerminalHistory();
+                    }
+                  }}
+                  onContentSizeChange={(_width, height) => {
+                    const previousHeight = terminalContentHeightRef.current;
+                    terminalContentHeightRef.current = height;
+                    if (terminalPrependRef.current) {
+                      // Keep the lines the user was reading in place when a history page lands above them.
+                      terminalPrependRef.current = false;
+                      terminalScrollRef.current?.scrollTo({
+                        y: terminalScrollYRef.current + height - previousHeight,
+                        animated: false,
+                      });
+                      return;
+                    }
+                    if (terminalPinnedRef.current) {
+                      terminalScrollRef.current?.scrollToEnd({ animated: true });
+                    }
+                  }}
                 >
                   <View>
                     <TextInput
@@ -2130,14 +2734,15 @@ export default function App() {
             </View>
             <View style={styles.keyToggleRow}>
               <Pressable
-                style={[styles.btn, dynamicUi.btn, styles.keyToggleBtn]}
+                style={[styles.btn, dynamicUi.btn, styles.keyToggleBtn, !canControlTmux ? styles.btnUnsupported : undefined]}
                 onPress={() => setTmuxKeyPanelOpen((prev) => !prev)}
+                disabled={!canControlTmux}
               >
                 <Text style={[styles.btnText, dynamicUi.btnText]}>{tmuxKeyPanelOpen ? "Hide Key" : "Key"}</Text>
               </Pressable>
               <Text style={[styles.metaText, dynamicUi.metaText]}>Send /tkey shortcuts to tmux</Text>
             </View>
-            {tmuxKeyPanelOpen ? (
+            {tmuxKeyPanelOpen && canControlTmux ? (
               <View style={styles.keyPanel}>
                 {TMUX_KEY_SHORTCUTS.map((item) => (
                   <Pressable
@@ -2195,7 +2800,7 @@ export default function App() {
         >
           <View style={styles.dialogBackdrop}>
             <View style={styles.dialogCard}>
-              <Text style={[styles.dialogTitle, dynamicUi.dialogTitle]}>Download remote file</Text>
+              <Text style={[styles.dialogTitle, dynamicUi.dialogTitle]}>Download remote file or folder</Text>
               <Text style={[styles.metaText, dynamicUi.metaText]}>remote path:</Text>
               <TextInput
                 style={[styles.input, dynamicUi.input]}
@@ -2209,6 +2814,40 @@ export default function App() {
                 returnKeyType="done"
                 onSubmitEditing={handleRequestFileDownload}
               />
+              <Text style={[styles.metaText, dynamicUi.metaText]}>if it is a directory, download as:</Text>
+              <View style={styles.modeRow}>
+                {(["zip", "tar"] as const).map((format) => (
+                  <Pressable
+                    key={format}
+                    style={[
+                      styles.linesApplyBtn,
+                      dynamicUi.linesApplyBtn,
+                      downloadArchiveFormat === format ? styles.dialogConfirmBtn : styles.dialogCancelBtn,
+                    ]}
+                    onPress={() => setDownloadArchiveFormat(format)}
+                  >
+                    <Text style={[styles.linesApplyBtnText, dynamicUi.linesApplyBtnText]}>{format}</Text>
+                  </Pressable>
+                ))}
+              </View>
+              <TextInput
+                style={[styles.input, dynamicUi.input]}
+                value={downloadIncludeInput}
+                onChangeText={setDownloadIncludeInput}
+                placeholder="include globs, e.g. **/*.log, dist/**"
+                placeholderTextColor="#6f878f"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TextInput
+                style={[styles.input, dynamicUi.input]}
+                value={downloadExcludeInput}
+                onChangeText={setDownloadExcludeInput}
+                placeholder="exclude globs, e.g. node_modules, *.tmp"
+                placeholderTextColor="#6f878f"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
               <View style={styles.dialogActions}>
                 <Pressable style={[styles.linesApplyBtn, dynamicUi.linesApplyBtn, styles.dialogCancelBtn]} onPress={closeDownloadDialog}>
                   <Text style={[styles.linesApplyBtnText, dynamicUi.linesApplyBtnText]}>Cancel</Text>
@@ -2223,6 +2862,56 @@ export default function App() {
             </View>
           </View>
         </Modal>
+        <Modal
+          visible={browseDialogOpen}
+          transparent
+          animationType="fade"
+          onRequestClose={closeBrowseDialog}
+        >
+          <View style={styles.dialogBackdrop}>
+            <View style={styles.dialogCard}>
+              <Text style={[styles.dialogTitle, dynamicUi.dialogTitle]}>Browse remote files</Text>
+              <Text style={[styles.metaText, dynamicUi.metaText]} numberOfLines={2}>{browsePath || "(tmux target directory)"}</Text>
+              {browseStatus ? <Text style={[styles.metaText, dynamicUi.metaText]}>{browseStatus}</Text> : null}
+              <ScrollView style={[styles.targetMenu, styles.browseList]}>
+                {browseEntries.length === 0 ? (
+                  <Text style={[styles.emptyText, dynamicUi.emptyText]}>empty directory</Text>
+                ) : (
+                  browseEntries.map((entry) => (
+                    <Pressable
+                      key={entry.path}
+                      style={styles.targetMenuItem}
+                      onPress={() => handleBrowseEntryPress(entry)}
+                      onLongPress={() => requestRemoteDownload(entry.path)}
+                    >
+                      <Text style={[styles.targetMenuItemText, dynamicUi.targetMenuItemText]} numberOfLines={1}>
+                        {entry.type === "directory" ? `${entry.name}/` : `${entry.name}  (${entry.size} bytes)`}
+                      </Text>
+                    </Pressable>
+                  ))
+                )}
+              </ScrollView>
+              <Text style={[styles.metaText, dynamicUi.metaText]}>tap a file to download it; long-press a folder to download it as {downloadArchiveFormat}</Text>
+              <View style={styles.dialogActions}>
+                <Pressable
+                  style={[styles.linesApplyBtn, dynamicUi.linesApplyBtn, styles.dialogCancelBtn]}
+                  onPress={() => requestBrowse(browsePath ? browseParentPath(browsePath) : undefined)}
+                >
+                  <Text style={[styles.linesApplyBtnText, dynamicUi.linesApplyBtnText]}>Up</Text>
+                </Pressable>
+                <Pressable
+                  style={[styles.linesApplyBtn, dynamicUi.linesApplyBtn, styles.dialogCancelBtn]}
+                  onPress={() => requestBrowse(browsePath || undefined)}
+                >
+                  <Text style={[styles.linesApplyBtnText, dynamicUi.linesApplyBtnText]}>Refresh</Text>
+                </Pressable>
+                <Pressable style={[styles.linesApplyBtn, dynamicUi.linesApplyBtn, styles.dialogConfirmBtn]} onPress={closeBrowseDialog}>
+                  <Text style={[styles.linesApplyBtnText, dynamicUi.linesApplyBtnText]}>Close</Text>
+                </Pressable>
+              </View>
+            </View>
+          </View>
+        </Modal>
         <Modal
           visible={tmuxNewDialogOpen}
           transparent
@@ -2420,6 +3109,9 @@ const styles = StyleSheet.create({
   btnGhost: {
     backgroundColor: "#304c59",
   },
+  btnUnsupported: {
+    opacity: 0.35,
+  },
   topBtnBright: {
     backgroundColor: "#496a79",
     borderWidth: 1,
@@ -2486,6 +3178,9 @@ const styles = StyleSheet.create({
   modeBtnToggleTfclaw: {
     backgroundColor: "#6a7f3d",
   },
+  modeBtnAgent: {
+    backgroundColor: "#3d5f7f",
+  },
   linesRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -2812,6 +3507,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "700",
   },
+  browseList: {
+    maxHeight: 320,
+  },
   dialogActions: {
     flexDirection: "row",
     justifyContent: "flex-end",
@@ -0,0 +1,200 @@
+import { gcm } from "@noble/ciphers/aes.js";
+import { utf8ToBytes } from "@noble/ciphers/utils.js";
+import { x25519 } from "@noble/curves/ed25519.js";
+import { hkdf } from "@noble/hashes/hkdf.js";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { getRandomBytes } from "expo-crypto";
+
+// The same handshake and envelope as packages/protocol/src/e2e.ts, on JS crypto because React Native has no node:crypto.
+
+export interface E2eKeyPair {
+  publicKey: string;
+  privateKey: Uint8Array;
+}
+
+export interface E2eContentKey {
+  keyId: string;
+  key: Uint8Array;
+  sender: string;
+  nextSeq: number;
+  // Highest sequence number opened so far, per peer sender.
+  lastSeen: Map<string, number>;
+}
+
+export interface E2eKeyGrantMessage {
+  type: "e2e.key_grant";
+  agentId?: string;
+  payload: {
+    clientId: string;
+    keyId: string;
+    nonce: string;
+    ciphertext: string;
+  };
+}
+
+export interface E2eSealedMessage {
+  type: "e2e.sealed";
+  agentId?: string;
+  requestId?: string;
+  payload: {
+    inner: string;
+    keyId: string;
+    command?: string;
+    nonce: string;
+    ciphertext: string;
+  };
+}
+
+export interface SealableMessage {
+  type: string;
+  agentId?: string;
+  requestId?: string;
+  payload: { command?: string; requestId?: string };
+}
+
+interface SealedPlaintext {
+  sender: string;
+  seq: number;
+  message: unknown;
+}
+
+const E2E_NONCE_BYTES = 12;
+const E2E_MAX_TRACKED_SENDERS = 4096;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// Hermes may lack TextDecoder; percent-decoding is slower but handles the same UTF-8.
+function fromUtf8(bytes: Uint8Array): string {
+  if (typeof TextDecoder !== "undefined") {
+    return new TextDecoder().decode(bytes);
+  }
+  let encoded = "";
+  for (const byte of bytes) {
+    encoded += `%${byte.toString(16).padStart(2, "0")}`;
+  }
+  return decodeURIComponent(encoded);
+}
+
+function sealBytes(key: Uint8Array, plaintext: Uint8Array, associatedData: string): { nonce: string; ciphertext: string } {
+  const nonce = getRandomBytes(E2E_NONCE_BYTES);
+  const encrypted = gcm(key, nonce, utf8ToBytes(associatedData)).encrypt(plaintext);
+  return { nonce: toBase64(nonce), ciphertext: toBase64(encrypted) };
+}
+
+function openBytes(key: Uint8Array, nonce: string, ciphertext: string, associatedData: string): Uint8Array {
+  return gcm(key, fromBase64(nonce), utf8ToBytes(associatedData)).decrypt(fromBase64(ciphertext));
+}
+
+export function createE2eKeyPair(): E2eKeyPair {
+  const privateKey = getRandomBytes(32);
+  return { publicKey: toBase64Url(x25519.getPublicKey(privateKey)), privateKey };
+}
+
+// The shared secret is the HKDF salt, so a relay that substitutes its own public keys still cannot derive the wrap key.
+export function deriveE2eWrapKey(own: E2eKeyPair, agentPublicKey: string, secret: string): Uint8Array {
+  const shared = x25519.getSharedSecret(own.privateKey, fromBase64(agentPublicKey));
+  const info = utf8ToBytes(`tfclaw-e2e-wrap|${own.publicKey}|${agentPublicKey}`);
+  return hkdf(sha256, shared, utf8ToBytes(secret), info, 32);
+}
+
+export function unwrapE2eContentKey(wrapKey: Uint8Array, grant: E2eKeyGrantMessage["payload"]): E2eContentKey {
+  const key = openBytes(wrapKey, grant.nonce, grant.ciphertext, `e2e.key_grant|${grant.clientId}|${grant.keyId}`);
+  return { keyId: grant.keyId, key, sender: toBase64Url(getRandomBytes(9)), nextSeq: 1, lastSeen: new Map() };
+}
+
+function sealedAssociatedData(sealed: {
+  agentId?: string;
+  requestId?: string;
+  payload: { inner: string; command?: string; keyId: string };
+}): string {
+  const { inner, command, keyId } = sealed.payload;
+  return `e2e.sealed|${inner}|${command ?? ""}|${keyId}|${sealed.agentId ?? ""}|${sealed.requestId ?? ""}`;
+}
+
+function sealedRequestId(message: SealableMessage): string | undefined {
+  return message.type === "client.command" ? message.requestId : message.payload?.requestId;
+}
+
+export function sealRelayMessage(message: SealableMessage, content: E2eContentKey): E2eSealedMessage {
+  const envelope = {
+    agentId: message.agentId,
+    requestId: sealedRequestId(message),
+    payload: {
+      inner: message.type,
+      keyId: content.keyId,
+      command: message.type === "client.command" ? message.payload.command : undefined,
+    },
+  };
+  const plaintext: SealedPlaintext = { sender: content.sender, seq: content.nextSeq, message };
+  content.nextSeq += 1;
+  return {
+    type: "e2e.sealed",
+    ...envelope,
+    payload: {
+      ...envelope.payload,
+      ...sealBytes(content.key, utf8ToBytes(JSON.stringify(plaintext)), sealedAssociatedData(envelope)),
+    },
+  };
+}
+
+// Returns the inner message, or throws with the reason it was dropped.
+export function openSealedMessage(sealed: E2eSealedMessage, content: E2eContentKey): unknown {
+  if (sealed.payload.keyId !== content.keyId) {
+    throw new Error("unknown content key");
+  }
+  let data: Partial<SealedPlaintext>;
+  try {
+    const plaintext = openBytes(content.key, sealed.payload.nonce, sealed.payload.ciphertext, sealedAssociatedData(sealed));
+    data = JSON.parse(fromUtf8(plaintext)) as Partial<SealedPlaintext>;
+  } catch {
+    throw new Error("cannot be decrypted");
+  }
+
+  const { sender, seq } = data;
+  if (typeof sender !== "string" || typeof seq !== "number" || !Number.isSafeInteger(seq) || seq < 1) {
+    throw new Error("has no sender sequence number");
+  }
+  if (sender === content.sender || seq <= (content.lastSeen.get(sender) ?? 0)) {
+    throw new Error("is a replayed or out-of-order message");
+  }
+  const message = data.message as SealableMessage | undefined;
+  if (
+    !message
+    || typeof message !== "object"
+    || message.type !== sealed.payload.inner
+    || (message.type === "client.command" && message.payload?.command !== sealed.payload.command)
+    || message.agentId !== sealed.agentId
+    || sealedRequestId(message) !== sealed.requestId
+  ) {
+    throw new Error("does not match the sealed message");
+  }
+
+  content.lastSeen.delete(sender);
+  content.lastSeen.set(sender, seq);
+  if (content.lastSeen.size > E2E_MAX_TRACKED_SENDERS) {
+    const oldest = content.lastSeen.keys().next().value;
+    if (oldest !== undefined) {
+      content.lastSeen.delete(oldest);
+    }
+  }
+  return message;
+}
@@ -1,51 +1,233 @@
-﻿import http from "node:http";
+﻿import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  randomUUID,
+  timingSafeEqual,
+} from "node:crypto";
+import fs from "node:fs";
+import http from "node:http";
+import https from "node:https";
+import path from "node:path";
+import type { TLSSocket } from "node:tls";
 import { URL } from "node:url";
 import {
   type AgentDescriptor,
+  type AgentError,
+  type AgentFileTransfer,
+  type ClientCommand,
+  type ClientScope,
+  type E2eSealed,
+  type NegotiatedProtocol,
+  type ProtocolHandshake,
   type RelayMessage,
   type RelayState,
   type TerminalSnapshot,
   type TerminalSummary,
+  CLIENT_SCOPES,
+  PROTOCOL_CAPABILITIES,
+  PROTOCOL_VERSION,
+  commandCapability,
+  commandScope,
+  decodeBinaryFrame,
+  describeValidationIssues,
+  encodeBinaryFrame,
+  isClientScope,
+  isSealableMessage,
   jsonStringify,
-  safeJsonParse,
+  mergeBinaryPayload,
+  negotiateProtocol,
+  parseRelayMessage,
+  resolveHandshake,
 } from "@tfclaw/protocol";
 import { WebSocketServer, type RawData, type WebSocket } from "ws";
 
 type Role = "agent" | "client";
 
+type CommandMessage = ClientCommand | E2eSealed;
+
 interface SocketMeta {
+  id: string;
   role: Role;
   token: string;
   ip: string;
+  connectedAt: number;
+  certSubject?: string;
+  // Set for sockets authenticated with a derived client token; owner-token sockets have every scope.
+  grant?: ClientGrant;
+  clientType?: string;
 }
 
-interface TokenSession {
-  agent?: WebSocket;
-  agentInfo?: AgentDescriptor;
-  clients: Set<WebSocket>;
+// What the state store keeps of a derived client token: its digest, never the token or the owner token in clear.
+interface PersistedGrant {
+  id: string;
+  digest: string;
+  sessionDigest: string;
+  // The owner token sealed with a key derived from the client token; it is only recovered when that token is presented.
+  sealedSessionToken: string;
+  scopes: ClientScope[];
+  label?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+interface ClientGrant extends PersistedGrant {
+  // Unknown for grants loaded from the state store until their client token connects.
+  sessionToken?: string;
+}
+
+interface AgentConnection {
+  socket?: WebSocket;
+  info: AgentDescriptor;
   terminals: Map<string, TerminalSummary>;
   snapshots: Map<string, TerminalSnapshot>;
+  disconnectedAt?: number;
+}
+
+interface TokenSession {
+  token: string;
+  lastActivityAt: number;
+  // Keyed by agentId, in registration order; the last online entry is the default target.
+  agents: Map<string, AgentConnection>;
+  pendingAgents: Set<WebSocket>;
+  clients: Set<WebSocket>;
+  // Keyed by requestId: the client that sent each forwarded command, so the agent's reply goes back only to it.
+  requestOrigins: Map<string, RequestOrigin>;
+  // Keyed by requestId: audited file.download commands waiting for the agent to report the size it sent.
+  downloadAudits: Map<string, DownloadAudit>;
+}
+
+interface RequestOrigin {
+  socket: WebSocket;
+  lastUsedAt: number;
+}
+
+interface DownloadAudit {
+  entry: AuditEntry;
+  bytes?: number;
+  lastUsedAt: number;
+}
+
+interface PersistedAgent {
+  info: AgentDescriptor;
+  terminals: TerminalSummary[];
+  snapshots: TerminalSnapshot[];
+  disconnectedAt?: number;
+}
+
+interface PersistedSession {
+  updatedAt: number;
+  agents: PersistedAgent[];
+}
+
+interface AuditEntry {
+  at: string;
+  session: string;
+  token: string;
+  ip: string;
+  clientType?: string;
+  grantId?: string;
+  agentId?: string;
+  requestId?: string;
+  command: string;
+  sealed?: boolean;
+  terminalId?: string;
+  transferId?: string;
+  bytes?: number;
+  ok: boolean;
+  message?: string;
+}
+
+interface AuditLog {
+  append(entry: AuditEntry): void;
+  recent(session: string, limit: number): Promise<AuditEntry[]>;
+}
+
+interface ConnectTicket {
+  id: string;
+  role: Role;
+  // The token the ticket was exchanged for: a session token or a derived client token.
+  token: string;
+  expiresAt: number;
+}
+
+type MetricLabels = Record<string, string>;
+
+interface CounterMetric {
+  help: string;
+  values: Map<string, number>;
+}
+
+interface SessionStore {
+  readonly kind: string;
+  get(token: string): PersistedSession | undefined;
+  put(token: string, session: PersistedSession): void;
+  delete(token: string): void;
+  prune(olderThan: number): number;
+  grants(): PersistedGrant[];
+  putGrant(grant: PersistedGrant): void;
+  deleteGrant(digest: string): void;
+  flush(): Promise<void>;
 }
 
 const RELAY_PORT = Number.parseInt(process.env.RELAY_PORT ?? "8787", 10);
 const RELAY_HOST = process.env.RELAY_HOST ?? "0.0.0.0";
 const RELAY_WS_PATH = process.env.RELAY_WS_PATH ?? "/";
+// Tickets are also served next to the WebSocket path so clients can derive the URL from the relay URL they were given.
+const RELAY_TICKETS_PATH = `${RELAY_WS_PATH.replace(/\/+$/, "")}/tickets`;
 const MAX_SNAPSHOT_CHARS = Number.parseInt(process.env.MAX_SNAPSHOT_CHARS ?? "12000", 10);
 const MAX_MESSAGE_BYTES = Number.parseInt(process.env.RELAY_MAX_MESSAGE_BYTES ?? "262144", 10);
 const MAX_CONNECTIONS = Number.parseInt(process.env.RELAY_MAX_CONNECTIONS ?? "500", 10);
 const MAX_CONNECTIONS_PER_IP = Number.parseInt(process.env.RELAY_MAX_CONNECTIONS_PER_IP ?? "40", 10);
 const MAX_SESSIONS = Number.parseInt(process.env.RELAY_MAX_SESSIONS ?? "500", 10);
 const MAX_CLIENTS_PER_SESSION = Number.parseInt(process.env.RELAY_MAX_CLIENTS_PER_SESSION ?? "80", 10);
+const MAX_AGENTS_PER_SESSION = Number.parseInt(process.env.RELAY_MAX_AGENTS_PER_SESSION ?? "16", 10);
 const MESSAGE_RATE_LIMIT_WINDOW_MS = Number.parseInt(process.env.RELAY_MESSAGE_RATE_WINDOW_MS ?? "10000", 10);
 const MAX_MESSAGES_PER_WINDOW = Number.parseInt(process.env.RELAY_MAX_MESSAGES_PER_WINDOW ?? "240", 10);
+const MAX_TRANSFER_MESSAGES_PER_WINDOW = Number.parseInt(process.env.RELAY_MAX_TRANSFER_MESSAGES_PER_WINDOW ?? "4000", 10);
 const UPGRADE_RATE_LIMIT_WINDOW_MS = Number.parseInt(process.env.RELAY_UPGRADE_RATE_WINDOW_MS ?? "10000", 10);
 const MAX_UPGRADES_PER_WINDOW_PER_IP = Number.parseInt(process.env.RELAY_MAX_UPGRADES_PER_WINDOW_PER_IP ?? "120", 10);
 const HEARTBEAT_INTERVAL_MS = Number.parseInt(process.env.RELAY_HEARTBEAT_INTERVAL_MS ?? "20000", 10);
 const IDLE_TIMEOUT_MS = Number.parseInt(process.env.RELAY_IDLE_TIMEOUT_MS ?? "120000", 10);
 const TOKEN_MIN_LENGTH = Number.parseInt(process.env.RELAY_TOKEN_MIN_LENGTH ?? "8", 10);
 const TOKEN_MAX_LENGTH = Number.parseInt(process.env.RELAY_TOKEN_MAX_LENGTH ?? "128", 10);
+const STATE_STORE_KIND = (process.env.RELAY_STATE_STORE ?? "file").trim().toLowerCase();
+const STATE_DIR = path.resolve(process.env.RELAY_STATE_DIR ?? ".tfclaw-relay-state");
+const STATE_RETENTION_MS = Math.max(60_000, Number.parseInt(process.env.RELAY_STATE_RETENTION_MS ?? "86400000", 10));
+const STATE_FLUSH_INTERVAL_MS = Math.max(200, Number.parseInt(process.env.RELAY_STATE_FLUSH_MS ?? "2000", 10));
+const TLS_CERT_PATH = process.env.RELAY_TLS_CERT?.trim() ?? "";
+const TLS_KEY_PATH = process.env.RELAY_TLS_KEY?.trim() ?? "";
+const TLS_CLIENT_CA_PATH = process.env.RELAY_TLS_CLIENT_CA?.trim() ?? "";
+const TLS_ENABLED = Boolean(TLS_CERT_PATH && TLS_KEY_PATH);
+const AGENT_MTLS = (process.env.RELAY_AGENT_MTLS ?? "false").toLowerCase() === "true";
+const TLS_RELOAD_INTERVAL_MS = Math.max(1000, Number.parseInt(process.env.RELAY_TLS_RELOAD_INTERVAL_MS ?? "5000", 10));
+const REQUEST_ORIGIN_TTL_MS = 10 * 60_000;
+const TICKET_TTL_MS = Math.max(5_000, Math.min(300_000, Number.parseInt(process.env.RELAY_TICKET_TTL_MS ?? "30000", 10)));
+const TICKET_SECRET = process.env.RELAY_TICKET_SECRET?.trim() || randomBytes(32).toString("hex");
+const MAX_PENDING_TICKETS = Number.parseInt(process.env.RELAY_MAX_PENDING_TICKETS ?? "10000", 10);
+const ALLOW_QUERY_TOKEN = (process.env.RELAY_ALLOW_QUERY_TOKEN ?? "false").toLowerCase() === "true";
+const REQUIRE_E2E = (process.env.RELAY_REQUIRE_E2E ?? "false").toLowerCase() === "true";
+const ADMIN_TOKEN = process.env.RELAY_ADMIN_TOKEN?.trim() ?? "";
+const ADMIN_MAX_BAN_MS = Math.max(60_000, Number.parseInt(process.env.RELAY_ADMIN_MAX_BAN_MS ?? "86400000", 10));
+const METRICS_TOKEN = process.env.RELAY_METRICS_TOKEN?.trim() ?? "";
+const AUDIT_ENABLED = (process.env.RELAY_AUDIT_ENABLED ?? "true").toLowerCase() !== "false";
+const AUDIT_LOG_PATH = path.resolve(process.env.RELAY_AUDIT_LOG_PATH ?? path.join(STATE_DIR, "audit.log"));
+const AUDIT_MAX_BYTES = Math.max(64 * 1024, Number.parseInt(process.env.RELAY_AUDIT_MAX_BYTES ?? "10485760", 10));
+const AUDIT_MAX_FILES = Math.max(1, Number.parseInt(process.env.RELAY_AUDIT_MAX_FILES ?? "5", 10));
+const AUDIT_QUERY_MAX_ENTRIES = 1000;
+const CLIENT_TOKEN_DEFAULT_TTL_MS = Math.max(60_000, Number.parseInt(process.env.RELAY_CLIENT_TOKEN_DEFAULT_TTL_MS ?? "86400000", 10));
+const CLIENT_TOKEN_MAX_TTL_MS = Math.max(
+  CLIENT_TOKEN_DEFAULT_TTL_MS,
+  Number.parseInt(process.env.RELAY_CLIENT_TOKEN_MAX_TTL_MS ?? "604800000", 10),
+);
+const MAX_CLIENT_TOKENS_PER_SESSION = Number.parseInt(process.env.RELAY_MAX_CLIENT_TOKENS_PER_SESSION ?? "50", 10);
+const DERIVED_TOKEN_PREFIX = "tfc_";
+const MAX_HTTP_BODY_BYTES = 16 * 1024;
 const ENFORCE_STRONG_TOKEN = (process.env.RELAY_ENFORCE_STRONG_TOKEN ?? "false").toLowerCase() === "true";
 const STRONG_TOKEN_PATTERN = /^[A-Za-z0-9._~\-]{16,128}$/;
+const RELAY_HANDSHAKE: ProtocolHandshake = { protocolVersion: PROTOCOL_VERSION, capabilities: [...PROTOCOL_CAPABILITIES] };
 const allowedOrigins = new Set(
   (process.env.RELAY_ALLOWED_ORIGINS ?? "")
     .split(",")
@@ -59,13 +241,282 @@ const allowedTokens = new Set(
     .filter(Boolean),
 );
 
+function tokenDigest(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function createMemorySessionStore(): SessionStore {
+  const records = new Map<string, PersistedSession>();
+  const grants = new Map<string, PersistedGrant>();
+  return {
+    kind: "memory",
+    get: (token) => records.get(tokenDigest(token)),
+    put: (token, session) => {
+      records.set(tokenDigest(token), session);
+    },
+    delete: (token) => {
+      records.delete(tokenDigest(token));
+    },
+    prune: (olderThan) => {
+      let removed = 0;
+      for (const [key, record] of records) {
+        if (record.updatedAt < olderThan) {
+          records.delete(key);
+          removed += 1;
+        }
+      }
+      return removed;
+    },
+    grants: () => Array.from(grants.values()),
+    putGrant: (grant) => {
+      grants.set(grant.digest, grant);
+    },
+    deleteGrant: (digest) => {
+      grants.delete(digest);
+    },
+    flush: async () => {},
+  };
+}
+
+// Keeps every record in memory and mirrors it to one JSON file per token digest, so raw tokens never touch disk.
+// Derived client tokens share `grants.json`.
+function createFileSessionStore(dir: string): SessionStore {
+  const records = new Map<string, PersistedSession>();
+  const pendingWrites = new Map<string, PersistedSession | null>();
+  const grants = new Map<string, PersistedGrant>();
+  const grantsPath = path.join(dir, "grants.json");
+  let grantsDirty = false;
+  let writing: Promise<void> = Promise.resolve();
+
+  fs.mkdirSync(dir, { recursive: true });
+  for (const name of fs.readdirSync(dir)) {
+    if (!/^[0-9a-f]{64}\.json$/.test(name)) {
+      continue;
+    }
+    try {
+      const record = JSON.parse(fs.readFileSync(path.join(dir, name), "utf8")) as PersistedSession;
+      if (typeof record.updatedAt === "number" && Array.isArray(record.agents)) {
+        records.set(name.slice(0, -".json".length), record);
+      }
+    } catch (error) {
+      console.warn(`[state] skipped unreadable session file ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (fs.existsSync(grantsPath)) {
+    try {
+      const stored = JSON.parse(fs.readFileSync(grantsPath, "utf8")) as PersistedGrant[];
+      for (const grant of Array.isArray(stored) ? stored : []) {
+        if (typeof grant?.digest === "string" && typeof grant.sealedSessionToken === "string" && typeof grant.expiresAt === "number") {
+          grants.set(grant.digest, grant);
+        }
+      }
+    } catch (error) {
+      console.warn(`[state] skipped unreadable grants file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const writeAll = async (): Promise<void> => {
+    const batch = Array.from(pendingWrites.entries());
+    pendingWrites.clear();
+    if (grantsDirty) {
+      grantsDirty = false;
+      try {
+        const tempPath = `${grantsPath}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(Array.from(grants.values())), { mode: 0o600 });
+        await fs.promises.rename(tempPath, grantsPath);
+      } catch (error) {
+        console.warn(`[state] failed to write grants: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    for (const [key, record] of batch) {
+      const filePath = path.join(dir, `${key}.json`);
+      try {
+        if (!record) {
+          await fs.promises.rm(filePath, { force: true });
+          continue;
+        }
+        const tempPath = `${filePath}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(record), { mode: 0o600 });
+        await fs.promises.rename(tempPath, filePath);
+      } catch (error) {
+        console.warn(`[state] failed to write ${key.slice(0, 8)}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  };
+
+  const schedule = (key: string, record: PersistedSession | null): void => {
+    const idle = pendingWrites.size === 0 && !grantsDirty;
+    pendingWrites.set(key, record);
+    if (idle) {
+      writing = writing.then(writeAll);
+    }
+  };
+
+  const scheduleGrants = (): void => {
+    const idle = pendingWrites.size === 0 && !grantsDirty;
+    grantsDirty = true;
+    if (idle) {
+      writing = writing.then(writeAll);
+    }
+  };
+
+  return {
+    kind: "file",
+    get: (token) => records.get(tokenDigest(token)),
+    put: (token, session) => {
+      const key = tokenDigest(token);
+      records.set(key, session);
+      schedule(key, session);
+    },
+    delete: (token) => {
+      const key = tokenDigest(token);
+      records.delete(key);
+      schedule(key, null);
+    },
+    prune: (olderThan) => {
+      let removed = 0;
+      for (const [key, record] of records) {
+        if (record.updatedAt < olderThan) {
+          records.delete(key);
+          schedule(key, null);
+          removed += 1;
+        }
+      }
+      return removed;
+    },
+    grants: () => Array.from(grants.values()),
+    putGrant: (grant) => {
+      grants.set(grant.digest, grant);
+      scheduleGrants();
+    },
+    deleteGrant: (digest) => {
+      if (grants.delete(digest)) {
+        scheduleGrants();
+      }
+    },
+    flush: async () => {
+      await writing;
+      if (pendingWrites.size > 0 || grantsDirty) {
+        writing = writing.then(writeAll);
+        await writing;
+      }
+    },
+  };
+}
+
+function createSessionStore(): SessionStore {
+  if (STATE_STORE_KIND === "memory") {
+    return createMemorySessionStore();
+  }
+  if (STATE_STORE_KIND !== "file") {
+    console.warn(`[state] unknown RELAY_STATE_STORE=${STATE_STORE_KIND}, falling back to file`);
+  }
+  return createFileSessionStore(STATE_DIR);
+}
+
+// Append-only JSON lines; `audit.log` rotates to `audit.log.1` .. `audit.log.N` once it reaches the size cap.
+function createFileAuditLog(filePath: string, maxBytes: number, maxFiles: number): AuditLog {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  let size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  let stream = fs.createWriteStream(filePath, { flags: "a", mode: 0o600 });
+  stream.on("error", (error) => console.warn(`[audit] write failed: ${error.message}`));
+
+  const rotate = (): void => {
+    stream.end();
+    try {
+      fs.rmSync(`${filePath}.${maxFiles}`, { force: true });
+      for (let index = maxFiles - 1; index >= 1; index -= 1) {
+        if (fs.existsSync(`${filePath}.${index}`)) {
+          fs.renameSync(`${filePath}.${index}`, `${filePath}.${index + 1}`);
+        }
+      }
+      fs.renameSync(filePath, `${filePath}.1`);
+    } catch (error) {
+      console.warn(`[audit] rotation failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    size = 0;
+    stream = fs.createWriteStream(filePath, { flags: "a", mode: 0o600 });
+    stream.on("error", (error) => console.warn(`[audit] write failed: ${error.message}`));
+  };
+
+  const readEntries = async (file: string, session: string): Promise<AuditEntry[]> => {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(file, "utf8");
+    } catch {
+      return [];
+    }
+    const entries: AuditEntry[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.includes(session)) {
+        continue;
+      }
+      try {
+        const entry = JSON.parse(line) as AuditEntry;
+        if (entry.session === session) {
+          entries.push(entry);
+        }
+      } catch {
+        // Skip a partially written trailing line.
+      }
+    }
+    return entries;
+  };
+
+  return {
+    append: (entry) => {
+      const line = `${JSON.stringify(entry)}\n`;
+      const bytes = Buffer.byteLength(line);
+      if (size > 0 && size + bytes > maxBytes) {
+        rotate();
+      }
+      size += bytes;
+      stream.write(line);
+    },
+    recent: async (session, limit) => {
+      let collected: AuditEntry[] = [];
+      for (let index = 0; index <= maxFiles && collected.length < limit; index += 1) {
+        const file = index === 0 ? filePath : `${filePath}.${index}`;
+        collected = [...(await readEntries(file, session)), ...collected];
+      }
+      return collected.slice(-limit);
+    },
+  };
+}
+
+const sessionStore = createSessionStore();
+const auditLog = AUDIT_ENABLED ? createFileAuditLog(AUDIT_LOG_PATH, AUDIT_MAX_BYTES, AUDIT_MAX_FILES) : undefined;
 const sessions = new Map<string, TokenSession>();
+const dirtySessions = new Set<string>();
+// Keyed by the SHA-256 of the derived token and mirrored to the state store, so grants survive a relay restart.
+const clientGrants = new Map<string, ClientGrant>(
+  sessionStore
+    .grants()
+    .filter((grant) => grant.expiresAt > Date.now())
+    .map((grant) => [grant.digest, { ...grant }]),
+);
 const socketMeta = new WeakMap<WebSocket, SocketMeta>();
-const socketRateWindow = new WeakMap<WebSocket, { startedAt: number; count: number }>();
+const socketRateWindow = new WeakMap<WebSocket, { startedAt: number; count: number; transferCount: number }>();
 const socketLastSeenAt = new WeakMap<WebSocket, number>();
 const socketAlive = new WeakMap<WebSocket, boolean>();
+const clientHandshakes = new WeakMap<WebSocket, ProtocolHandshake>();
+const agentSocketIds = new WeakMap<WebSocket, string>();
+// Raw payload bytes of messages that arrived as binary frames; the header message holds an empty base64 field.
+const binaryFrameData = new WeakMap<RelayMessage, Buffer>();
 const ipActiveConnections = new Map<string, number>();
+const startedAt = Date.now();
+const counters = new Map<string, CounterMetric>([
+  ["tfclaw_relay_messages_received_total", { help: "Messages received from sockets by role and message type.", values: new Map() }],
+  ["tfclaw_relay_messages_sent_total", { help: "Messages sent to sockets by message type.", values: new Map() }],
+  ["tfclaw_relay_rate_limit_rejections_total", { help: "Rejections by the per-socket message and per-IP upgrade rate limiters.", values: new Map() }],
+  ["tfclaw_relay_oversized_frames_total", { help: "Frames dropped for exceeding RELAY_MAX_MESSAGE_BYTES.", values: new Map([["", 0]]) }],
+  ["tfclaw_relay_heartbeat_terminations_total", { help: "Sockets terminated by the heartbeat sweep by reason.", values: new Map() }],
+  ["tfclaw_relay_file_transfer_bytes_total", { help: "Decoded file-transfer bytes relayed by direction.", values: new Map() }],
+  ["tfclaw_relay_binary_frames_total", { help: "Binary frames received from and sent to sockets by direction.", values: new Map() }],
+]);
 const ipUpgradeRateWindow = new Map<string, { startedAt: number; count: number }>();
+const ipBans = new Map<string, { until: number; reason?: string }>();
+const connectTickets = new Map<string, ConnectTicket>();
 
 function normalizeIp(raw: string | undefined): string {
   if (!raw) {
@@ -104,6 +555,63 @@ function dropIpActiveConnection(ip: string): void {
   ipActiveConnections.set(ip, next);
 }
 
+function metricLabelKey(labels: MetricLabels): string {
+  return Object.entries(labels)
+    .map(([key, value]) => `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n")}"`)
+    .join(",");
+}
+
+function incrementCounter(name: string, labels: MetricLabels = {}, by = 1): void {
+  const metric = counters.get(name);
+  if (!metric) {
+    return;
+  }
+  const key = metricLabelKey(labels);
+  metric.values.set(key, (metric.values.get(key) ?? 0) + by);
+}
+
+function renderMetricLine(name: string, labelKey: string, value: number): string {
+  return labelKey ? `${name}{${labelKey}} ${value}` : `${name} ${value}`;
+}
+
+function renderMetrics(): string {
+  const lines: string[] = [];
+  const gauge = (name: string, help: string, samples: Array<[MetricLabels, number]>): void => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} gauge`);
+    for (const [labels, value] of samples) {
+      lines.push(renderMetricLine(name, metricLabelKey(labels), value));
+    }
+  };
+
+  const roleCounts: Record<Role, number> = { agent: 0, client: 0 };
+  for (const ws of wss.clients) {
+    const role = socketMeta.get(ws)?.role;
+    if (role) {
+      roleCounts[role] += 1;
+    }
+  }
+  let registeredAgents = 0;
+  for (const session of sessions.values()) {
+    registeredAgents += onlineAgents(session).length;
+  }
+
+  gauge("tfclaw_relay_connections", "Open WebSocket connections by role.", [
+    [{ role: "agent" }, roleCounts.agent],
+    [{ role: "client" }, roleCounts.client],
+  ]);
+  gauge("tfclaw_relay_sessions", "Token sessions held in memory.", [[{}, sessions.size]]);
+  gauge("tfclaw_relay_registered_agents", "Agents that have completed agent.register.", [[{}, registeredAgents]]);
+  gauge("tfclaw_relay_uptime_seconds", "Seconds since the relay process started.", [[{}, Math.floor((Date.now() - startedAt) / 1000)]]);
+
+  for (const [name, metric] of counters) {
+    lines.push(`# HELP ${name} ${metric.help}`, `# TYPE ${name} counter`);
+    for (const [labelKey, value] of metric.values) {
+      lines.push(renderMetricLine(name, labelKey, value));
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
 function isUpgradeRateLimited(ip: string): boolean {
   const now = Date.now();
   const existing = ipUpgradeRateWindow.get(ip);
@@ -119,6 +627,18 @@ function isUpgradeRateLimited(ip: string): boolean {
   return existing.count > MAX_UPGRADES_PER_WINDOW_PER_IP;
 }
 
+function isIpBanned(ip: string): boolean {
+  const ban = ipBans.get(ip);
+  if (!ban) {
+    return false;
+  }
+  if (ban.until <= Date.now()) {
+    ipBans.delete(ip);
+    return false;
+  }
+  return true;
+}
+
 function isOriginAllowed(originRaw: string | undefined): boolean {
   if (!originRaw || allowedOrigins.size === 0) {
     return true;
@@ -139,15 +659,136 @@ function isTokenAllowed(token: string): boolean {
   return true;
 }
 
-function isSocketRateLimited(ws: WebSocket): boolean {
+function isDerivedToken(token: string): boolean {
+  return token.startsWith(DERIVED_TOKEN_PREFIX);
+}
+
+function grantSealingKey(clientToken: string): Buffer {
+  return createHash("sha256").update(`tfclaw-grant|${clientToken}`).digest();
+}
+
+function sealSessionToken(sessionToken: string, clientToken: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", grantSealingKey(clientToken), iv);
+  const ciphertext = Buffer.concat([cipher.update(sessionToken, "utf8"), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString("base64url");
+}
+
+function openSessionToken(sealed: string, clientToken: string): string | undefined {
+  try {
+    const raw = Buffer.from(sealed, "base64url");
+    const decipher = createDecipheriv("aes-256-gcm", grantSealingKey(clientToken), raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(raw.length - 16));
+    return Buffer.concat([decipher.update(raw.subarray(12, raw.length - 16)), decipher.final()]).toString("utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+// A grant loaded from the state store learns its owner token here, from the client token that unseals it.
+function findClientGrant(token: string): ClientGrant | undefined {
+  const grant = clientGrants.get(tokenDigest(token));
+  if (!grant || grant.expiresAt <= Date.now()) {
+    return undefined;
+  }
+  grant.sessionToken ??= openSessionToken(grant.sealedSessionToken, token);
+  return grant.sessionToken ? grant : undefined;
+}
+
+function isGrantActive(grant: ClientGrant): boolean {
+  return grant.expiresAt > Date.now() && clientGrants.get(grant.digest) === grant;
+}
+
+function grantsForSession(sessionToken: string): ClientGrant[] {
+  const sessionDigest = tokenDigest(sessionToken);
+  return Array.from(clientGrants.values()).filter((grant) => grant.sessionDigest === sessionDigest);
+}
+
+function pruneExpiredGrants(): void {
   const now = Date.now();
-  const existing = socketRateWindow.get(ws);
-  if (!existing || now - existing.startedAt >= MESSAGE_RATE_LIMIT_WINDOW_MS) {
-    socketRateWindow.set(ws, { startedAt: now, count: 1 });
-    return false;
+  for (const [key, grant] of clientGrants) {
+    if (grant.expiresAt <= now) {
+      clientGrants.delete(key);
+      sessionStore.deleteGrant(key);
+    }
   }
-  existing.count += 1;
-  return existing.count > MAX_MESSAGES_PER_WINDOW;
+}
+
+function socketScopes(ws: WebSocket): readonly ClientScope[] {
+  return socketMeta.get(ws)?.grant?.scopes ?? CLIENT_SCOPES;
+}
+
+function hasScope(ws: WebSocket, scope: ClientScope): boolean {
+  return socketScopes(ws).includes(scope);
+}
+
+function signTicket(id: string, role: Role, expiresAt: number): string {
+  return createHmac("sha256", TICKET_SECRET).update(`${id}.${role}.${expiresAt}`).digest("base64url");
+}
+
+function pruneExpiredTickets(): void {
+  const now = Date.now();
+  for (const [id, ticket] of connectTickets) {
+    if (ticket.expiresAt <= now) {
+      connectTickets.delete(id);
+    }
+  }
+}
+
+function issueTicket(role: Role, token: string): { ticket: string; expiresAt: number } | undefined {
+  pruneExpiredTickets();
+  if (connectTickets.size >= MAX_PENDING_TICKETS) {
+    return undefined;
+  }
+  const id = randomBytes(18).toString("base64url");
+  const expiresAt = Date.now() + TICKET_TTL_MS;
+  connectTickets.set(id, { id, role, token, expiresAt });
+  return { ticket: `${id}.${expiresAt.toString(36)}.${signTicket(id, role, expiresAt)}`, expiresAt };
+}
+
+// Tickets are single-use: a valid ticket is removed from the pending set the first time it is presented.
+function consumeTicket(raw: string, role: Role): ConnectTicket | undefined {
+  const [id, expiresRaw, signature] = raw.split(".");
+  if (!id || !expiresRaw || !signature) {
+    return undefined;
+  }
+  const expiresAt = Number.parseInt(expiresRaw, 36);
+  const expected = Buffer.from(signTicket(id, role, expiresAt));
+  const presented = Buffer.from(signature);
+  if (expected.length !== presented.length || !timingSafeEqual(expected, presented)) {
+    return undefined;
+  }
+  const ticket = connectTickets.get(id);
+  connectTickets.delete(id);
+  if (!ticket || ticket.role !== role || ticket.expiresAt !== expiresAt || expiresAt <= Date.now()) {
+    return undefined;
+  }
+  return ticket;
+}
+
+// File chunks and their acks come in long bursts, so they are counted against their own, larger budget.
+function isTransferMessage(message: RelayMessage): boolean {
+  const type = message.type === "e2e.sealed" ? message.payload.inner : message.type;
+  if (type === "agent.file_transfer") {
+    return true;
+  }
+  const command = message.type === "client.command" || message.type === "e2e.sealed" ? message.payload.command : undefined;
+  return command === "file.upload.chunk" || command === "file.download.ack";
+}
+
+function isSocketRateLimited(ws: WebSocket, transfer: boolean): boolean {
+  const now = Date.now();
+  let window = socketRateWindow.get(ws);
+  if (!window || now - window.startedAt >= MESSAGE_RATE_LIMIT_WINDOW_MS) {
+    window = { startedAt: now, count: 0, transferCount: 0 };
+    socketRateWindow.set(ws, window);
+  }
+  if (transfer) {
+    window.transferCount += 1;
+    return window.transferCount > MAX_TRANSFER_MESSAGES_PER_WINDOW;
+  }
+  window.count += 1;
+  return window.count > MAX_MESSAGES_PER_WINDOW;
 }
 
 function rawDataBytes(raw: RawData): number {
@@ -163,257 +804,1271 @@ function rawDataBytes(raw: RawData): number {
   if (raw instanceof ArrayBuffer) {
     return raw.byteLength;
   }
-  return 0;
+  return 0;
+}
+
+function rawDataBuffer(raw: RawData): Buffer {
+  if (Buffer.isBuffer(raw)) {
+    return raw;
+  }
+  return Array.isArray(raw) ? Buffer.concat(raw) : Buffer.from(raw);
+}
+
+function restoreAgents(token: string): Map<string, AgentConnection> {
+  const agents = new Map<string, AgentConnection>();
+  const persisted = sessionStore.get(token);
+  if (!persisted) {
+    return agents;
+  }
+  const cutoff = Date.now() - STATE_RETENTION_MS;
+  for (const agent of persisted.agents) {
+    const disconnectedAt = agent.disconnectedAt ?? persisted.updatedAt;
+    if (disconnectedAt < cutoff) {
+      continue;
+    }
+    agents.set(agent.info.agentId, {
+      info: agent.info,
+      terminals: new Map(agent.terminals.map((terminal) => [terminal.terminalId, { ...terminal, isActive: false }])),
+      snapshots: new Map(agent.snapshots.map((snapshot) => [snapshot.terminalId, snapshot])),
+      disconnectedAt,
+    });
+  }
+  return agents;
+}
+
+function ensureSession(token: string): TokenSession {
+  let session = sessions.get(token);
+  if (!session) {
+    session = {
+      token,
+      lastActivityAt: Date.now(),
+      agents: restoreAgents(token),
+      pendingAgents: new Set<WebSocket>(),
+      clients: new Set<WebSocket>(),
+      requestOrigins: new Map<string, RequestOrigin>(),
+      downloadAudits: new Map<string, DownloadAudit>(),
+    };
+    sessions.set(token, session);
+  }
+  return session;
+}
+
+function persistSession(session: TokenSession): void {
+  dirtySessions.delete(session.token);
+  if (session.agents.size === 0) {
+    sessionStore.delete(session.token);
+    return;
+  }
+  sessionStore.put(session.token, {
+    updatedAt: Date.now(),
+    agents: Array.from(session.agents.values()).map((connection) => ({
+      info: connection.info,
+      terminals: Array.from(connection.terminals.values()),
+      snapshots: Array.from(connection.snapshots.values()),
+      disconnectedAt: connection.socket ? undefined : connection.disconnectedAt,
+    })),
+  });
+}
+
+function markSessionDirty(session: TokenSession): void {
+  dirtySessions.add(session.token);
+}
+
+function flushDirtySessions(): void {
+  for (const token of dirtySessions) {
+    const session = sessions.get(token);
+    if (session) {
+      persistSession(session);
+    }
+  }
+  dirtySessions.clear();
+}
+
+function pruneExpiredState(): void {
+  const cutoff = Date.now() - STATE_RETENTION_MS;
+  for (const session of sessions.values()) {
+    let changed = false;
+    for (const [agentId, connection] of session.agents) {
+      if (!connection.socket && (connection.disconnectedAt ?? 0) < cutoff) {
+        session.agents.delete(agentId);
+        changed = true;
+      }
+    }
+    if (changed) {
+      markSessionDirty(session);
+      broadcastState(session);
+    }
+  }
+  const removed = sessionStore.prune(cutoff);
+  if (removed > 0) {
+    console.log(`[state] pruned ${removed} expired session(s)`);
+  }
+}
+
+function send(ws: WebSocket, message: RelayMessage): void {
+  if (ws.readyState === ws.OPEN) {
+    ws.send(jsonStringify(message));
+    incrementCounter("tfclaw_relay_messages_sent_total", { type: message.type });
+  }
+}
+
+// Binary payloads go out as frames to peers that negotiated binary.frames and are re-inflated to JSON for everyone else.
+function sendWithPayload(ws: WebSocket, message: RelayMessage, data: Buffer | undefined, binary: boolean): void {
+  if (!data) {
+    send(ws, message);
+    return;
+  }
+  if (!binary) {
+    send(ws, mergeBinaryPayload(message, data));
+    return;
+  }
+  if (ws.readyState === ws.OPEN) {
+    ws.send(encodeBinaryFrame(message, data));
+    incrementCounter("tfclaw_relay_messages_sent_total", { type: message.type });
+    incrementCounter("tfclaw_relay_binary_frames_total", { direction: "sent" });
+  }
+}
+
+function defaultAgent(session: TokenSession): AgentConnection | undefined {
+  let latest: AgentConnection | undefined;
+  for (const connection of session.agents.values()) {
+    if (connection.socket) {
+      latest = connection;
+    }
+  }
+  return latest;
+}
+
+function resolveAgent(session: TokenSession, agentId: string | undefined): AgentConnection | undefined {
+  return agentId ? session.agents.get(agentId) : defaultAgent(session);
+}
+
+function agentConnectionFor(session: TokenSession, ws: WebSocket): AgentConnection | undefined {
+  const agentId = agentSocketIds.get(ws);
+  const connection = agentId ? session.agents.get(agentId) : undefined;
+  return connection?.socket === ws ? connection : undefined;
+}
+
+function negotiatedFor(session: TokenSession, client: WebSocket, agentId?: string): NegotiatedProtocol | undefined {
+  const target = resolveAgent(session, agentId);
+  if (!target) {
+    return undefined;
+  }
+  return negotiateProtocol(target.info, clientHandshakes.get(client));
+}
+
+function onlineAgents(session: TokenSession): AgentDescriptor[] {
+  return Array.from(session.agents.values())
+    .filter((connection) => connection.socket)
+    .map((connection) => connection.info);
+}
+
+function composeState(session: TokenSession, client: WebSocket): RelayState {
+  const connections = Array.from(session.agents.values());
+  const canView = hasScope(client, "view");
+  return {
+    type: "relay.state",
+    payload: {
+      agent: defaultAgent(session)?.info,
+      agents: onlineAgents(session),
+      offlineAgents: connections.filter((connection) => !connection.socket).map((connection) => connection.info),
+      negotiated: negotiatedFor(session, client),
+      scopes: [...socketScopes(client)],
+      terminals: canView ? connections.flatMap((connection) => Array.from(connection.terminals.values())) : [],
+      snapshots: canView ? connections.flatMap((connection) => Array.from(connection.snapshots.values())) : [],
+    },
+  };
+}
+
+function broadcastState(session: TokenSession): void {
+  for (const client of session.clients) {
+    send(client, composeState(session, client));
+  }
+}
+
+function cleanupSocket(ws: WebSocket): void {
+  const meta = socketMeta.get(ws);
+  if (!meta) {
+    return;
+  }
+  socketMeta.delete(ws);
+  dropIpActiveConnection(meta.ip);
+
+  const session = sessions.get(meta.token);
+  if (!session) {
+    return;
+  }
+
+  if (meta.role === "agent") {
+    session.pendingAgents.delete(ws);
+    const connection = agentConnectionFor(session, ws);
+    if (connection) {
+      connection.socket = undefined;
+      connection.disconnectedAt = Date.now();
+      for (const terminal of connection.terminals.values()) {
+        terminal.isActive = false;
+      }
+      markSessionDirty(session);
+    }
+  } else {
+    session.clients.delete(ws);
+    for (const [requestId, origin] of session.requestOrigins) {
+      if (origin.socket === ws) {
+        session.requestOrigins.delete(requestId);
+      }
+    }
+  }
+
+  const hasSockets = session.pendingAgents.size > 0
+    || session.clients.size > 0
+    || Array.from(session.agents.values()).some((connection) => connection.socket);
+  if (!hasSockets) {
+    persistSession(session);
+    sessions.delete(meta.token);
+    return;
+  }
+
+  broadcastState(session);
+}
+
+function appendSnapshot(connection: AgentConnection, terminalId: string, chunk: string, at: string): void {
+  const existing = connection.snapshots.get(terminalId);
+  const merged = `${existing?.output ?? ""}${chunk}`;
+  const output = merged.length > MAX_SNAPSHOT_CHARS ? merged.slice(-MAX_SNAPSHOT_CHARS) : merged;
+
+  connection.snapshots.set(terminalId, {
+    terminalId,
+    agentId: connection.info.agentId,
+    output,
+    updatedAt: at,
+  });
+
+  const summary = connection.terminals.get(terminalId);
+  if (summary) {
+    summary.updatedAt = at;
+    summary.isActive = true;
+  }
+}
+
+function registerAgent(ws: WebSocket, session: TokenSession, info: AgentDescriptor): void {
+  const current = agentConnectionFor(session, ws);
+  if (current && current.info.agentId !== info.agentId) {
+    session.agents.delete(current.info.agentId);
+  }
+
+  const existing = session.agents.get(info.agentId);
+  if (existing?.socket && existing.socket !== ws && existing.socket.readyState === existing.socket.OPEN) {
+    existing.socket.close(4000, "Replaced by a newer agent connection");
+  }
+
+  // Keep retained terminals and scrollback when an agent comes back under the same agentId.
+  session.pendingAgents.delete(ws);
+  session.agents.delete(info.agentId);
+  session.agents.set(info.agentId, {
+    socket: ws,
+    info,
+    terminals: existing?.terminals ?? new Map<string, TerminalSummary>(),
+    snapshots: existing?.snapshots ?? new Map<string, TerminalSnapshot>(),
+  });
+  agentSocketIds.set(ws, info.agentId);
+  markSessionDirty(session);
+}
+
+// The agent answers each client key with an e2e.key_grant; the relay only passes public keys and wrapped keys along.
+function announceClientKey(connection: AgentConnection, client: WebSocket): void {
+  const publicKey = clientHandshakes.get(client)?.e2e?.publicKey;
+  const clientId = socketMeta.get(client)?.id;
+  if (!connection.socket || !connection.info.e2e || !publicKey || !clientId) {
+    return;
+  }
+  send(connection.socket, {
+    type: "e2e.client_key",
+    agentId: connection.info.agentId,
+    payload: { clientId, publicKey },
+  });
+}
+
+function findSessionClient(session: TokenSession, clientId: string): WebSocket | undefined {
+  for (const client of session.clients) {
+    if (socketMeta.get(client)?.id === clientId) {
+      return client;
+    }
+  }
+  return undefined;
+}
+
+function agentMessageRequestId(message: RelayMessage): string | undefined {
+  if (message.type === "e2e.sealed") {
+    return message.requestId;
+  }
+  const payload = message.payload as { requestId?: unknown };
+  return typeof payload.requestId === "string" ? payload.requestId : undefined;
+}
+
+// The scope a client needs to see an agent message that is not a reply to one of its own requests.
+function agentMessageScope(message: RelayMessage): ClientScope {
+  if (message.type === "agent.file_transfer") {
+    return message.payload.direction === "upload" ? "files.write" : "files.read";
+  }
+  if (message.type === "agent.file_result") {
+    return message.payload.operation === "list" || message.payload.operation === "stat" ? "files.read" : "files.write";
+  }
+  switch (message.type === "e2e.sealed" ? message.payload.inner : message.type) {
+    case "agent.screen_capture":
+    case "agent.capture_sources":
+      return "capture";
+    case "agent.command_result":
+      return "tmux.control";
+    case "agent.file_transfer":
+    case "agent.file_result":
+      return "files.read";
+    default:
+      return "view";
+  }
+}
+
+function rememberRequestOrigin(session: TokenSession, ws: WebSocket, requestId: string | undefined): void {
+  if (!requestId) {
+    return;
+  }
+  const existing = session.requestOrigins.get(requestId);
+  // A reused requestId never moves another client's replies to this socket.
+  if (existing && existing.socket !== ws && session.clients.has(existing.socket)) {
+    return;
+  }
+  session.requestOrigins.set(requestId, { socket: ws, lastUsedAt: Date.now() });
+}
+
+function pruneExpiredRequestOrigins(): void {
+  const cutoff = Date.now() - REQUEST_ORIGIN_TTL_MS;
+  for (const session of sessions.values()) {
+    for (const [requestId, origin] of session.requestOrigins) {
+      if (origin.lastUsedAt < cutoff) {
+        session.requestOrigins.delete(requestId);
+      }
+    }
+    for (const [requestId, pending] of session.downloadAudits) {
+      if (pending.lastUsedAt < cutoff) {
+        session.downloadAudits.delete(requestId);
+      }
+    }
+  }
+}
+
+function broadcastFromAgent(session: TokenSession, connection: AgentConnection, message: RelayMessage): void {
+  const tagged = { ...message, agentId: connection.info.agentId } as RelayMessage;
+  const data = binaryFrameData.get(message);
+  const innerType = message.type === "e2e.sealed" ? message.payload.inner : message.type;
+  const requestId = agentMessageRequestId(message);
+  const origin = requestId ? session.requestOrigins.get(requestId) : undefined;
+  if (origin && session.clients.has(origin.socket)) {
+    origin.lastUsedAt = Date.now();
+    const capabilities = negotiatedFor(session, origin.socket, connection.info.agentId)?.capabilities ?? [];
+    sendWithPayload(origin.socket, tagged, data, capabilities.includes("binary.frames"));
+    return;
+  }
+
+  const scope = agentMessageScope(message);
+  for (const client of session.clients) {
+    if (!hasScope(client, scope)) {
+      continue;
+    }
+    const capabilities = negotiatedFor(session, client, connection.info.agentId)?.capabilities ?? [];
+    // Alerts are unsolicited, so only clients that asked for them in client.hello get them.
+    if (innerType === "agent.alert" && !capabilities.includes("alerts")) {
+      continue;
+    }
+    sendWithPayload(client, tagged, data, capabilities.includes("binary.frames"));
+  }
+}
+
+function handleAgentMessage(ws: WebSocket, session: TokenSession, message: RelayMessage): void {
+  if (message.type === "agent.register") {
+    registerAgent(ws, session, message.payload);
+    send(ws, {
+      type: "relay.ack",
+      payload: { ok: true, message: "registered", negotiated: negotiateProtocol(message.payload, RELAY_HANDSHAKE) },
+    });
+    broadcastState(session);
+    const registered = agentConnectionFor(session, ws);
+    if (registered) {
+      for (const client of session.clients) {
+        announceClientKey(registered, client);
+      }
+    }
+    return;
+  }
+
+  const connection = agentConnectionFor(session, ws);
+  if (!connection) {
+    send(ws, {
+      type: "relay.ack",
+      payload: {
+        ok: false,
+        message: message.type.startsWith("agent.")
+          ? `agent.register is required before ${message.type}`
+          : `Message type not accepted from agent: ${message.type}`,
+      },
+    });
+    return;
+  }
+
+  if (REQUIRE_E2E && isSealableMessage(message)) {
+    send(ws, {
+      type: "relay.ack",
+      payload: {
+        ok: false,
+        message: `this relay only forwards end-to-end encrypted ${message.type} messages`,
+      },
+    });
+    return;
+  }
+
+  switch (message.type) {
+    case "agent.terminal_list": {
+      const next = new Map<string, TerminalSummary>();
+      for (const terminal of message.payload.terminals) {
+        next.set(terminal.terminalId, { ...terminal, agentId: connection.info.agentId });
+      }
+      connection.terminals = next;
+      markSessionDirty(session);
+      broadcastState(session);
+      return;
+    }
+    case "agent.terminal_output": {
+      appendSnapshot(connection, message.payload.terminalId, message.payload.chunk, message.payload.at);
+      markSessionDirty(session);
+      broadcastFromAgent(session, connection, message);
+      return;
+    }
+    case "agent.file_transfer":
+    case "agent.error": {
+      recordDownloadAudit(session, message);
+      broadcastFromAgent(session, connection, message);
+      return;
+    }
+    case "agent.terminal_history":
+    case "agent.screen_capture":
+    case "agent.capture_sources":
+    case "agent.command_result":
+    case "agent.watch_event":
+    case "agent.alert":
+    case "agent.file_result": {
+      broadcastFromAgent(session, connection, message);
+      return;
+    }
+    // Sealed output never touches the snapshot cache, so nothing readable is stored or persisted for E2E agents.
+    case "e2e.sealed": {
+      if (message.payload.inner === "client.command") {
+        send(ws, {
+          type: "relay.ack",
+          payload: { ok: false, message: "sealed client.command is not accepted from agent" },
+        });
+        return;
+      }
+      broadcastFromAgent(session, connection, message);
+      return;
+    }
+    case "e2e.key_grant": {
+      const client = findSessionClient(session, message.payload.clientId);
+      if (client) {
+        send(client, { ...message, agentId: connection.info.agentId });
+      }
+      return;
+    }
+    default: {
+      send(ws, {
+        type: "relay.ack",
+        payload: {
+          ok: false,
+          message: `Message type not accepted from agent: ${message.type}`,
+        },
+      });
+    }
+  }
+}
+
+function auditSessionKey(token: string): string {
+  return tokenDigest(token).slice(0, 16);
+}
+
+function commandTransferBytes(payload: ClientCommand["payload"]): number | undefined {
+  switch (payload.command) {
+    case "file.upload.start":
+      return payload.size;
+    case "file.upload.chunk":
+      return Buffer.byteLength(payload.chunkBase64, "base64");
+    case "terminal.input":
+      return Buffer.byteLength(payload.data);
+    default:
+      return undefined;
+  }
+}
+
+function recordCommandAudit(
+  ws: WebSocket,
+  message: CommandMessage,
+  ok: boolean,
+  resultMessage?: string,
+): AuditEntry | undefined {
+  const meta = socketMeta.get(ws);
+  if (!auditLog || !meta) {
+    return undefined;
+  }
+  const payload = message.payload;
+  const entry: AuditEntry = {
+    at: new Date().toISOString(),
+    session: auditSessionKey(meta.token),
+    token: maskToken(meta.token),
+    ip: meta.ip,
+    clientType: meta.clientType,
+    grantId: meta.grant?.id,
+    agentId: message.agentId,
+    requestId: message.requestId,
+    command: payload.command ?? "unknown",
+    sealed: message.type === "e2e.sealed" ? true : undefined,
+    terminalId: "terminalId" in payload ? payload.terminalId : undefined,
+    transferId: "transferId" in payload ? payload.transferId : undefined,
+    bytes: message.type === "client.command"
+      ? binaryFrameData.get(message)?.length ?? commandTransferBytes(message.payload)
+      : undefined,
+    ok,
+    message: resultMessage,
+  };
+  auditLog.append(entry);
+  return entry;
+}
+
+// Only the agent knows how many bytes a download (a file or a generated archive) holds, so the command is
+// audited a second time, with that byte count, once the agent reports the transfer complete or failed.
+function recordDownloadAudit(session: TokenSession, message: AgentFileTransfer | AgentError): void {
+  const requestId = message.payload.requestId;
+  const pending = requestId ? session.downloadAudits.get(requestId) : undefined;
+  if (!auditLog || !requestId || !pending) {
+    return;
+  }
+  pending.lastUsedAt = Date.now();
+  if (message.type === "agent.error") {
+    session.downloadAudits.delete(requestId);
+    auditLog.append({ ...pending.entry, at: new Date().toISOString(), ok: false, message: message.payload.message });
+    return;
+  }
+  const payload = message.payload;
+  if (payload.direction !== "download") {
+    return;
+  }
+  if (payload.stage === "start") {
+    pending.entry = { ...pending.entry, transferId: payload.transferId };
+    pending.bytes = payload.size;
+  } else if (payload.stage === "complete") {
+    session.downloadAudits.delete(requestId);
+    auditLog.append({ ...pending.entry, at: new Date().toISOString(), bytes: pending.bytes, ok: true, message: "download complete" });
+  }
+}
+
+// High-frequency commands whose senders never wait on a relay.ack.
+const UNACKNOWLEDGED_COMMANDS = new Set(["terminal.input", "file.download.ack"]);
+
+function forwardCommandToAgent(session: TokenSession, ws: WebSocket, message: CommandMessage): void {
+  const acknowledged = !UNACKNOWLEDGED_COMMANDS.has(message.payload.command ?? "");
+  const target = resolveAgent(session, message.agentId);
+  if (!target?.socket || target.socket.readyState !== target.socket.OPEN) {
+    const reason = message.agentId
+      ? `Terminal agent ${message.agentId} is not connected for this token.`
+      : "No active terminal agent connected for this token.";
+    recordCommandAudit(ws, message, false, reason);
+    send(ws, {
+      type: "relay.ack",
+      payload: {
+        requestId: acknowledged ? message.requestId : undefined,
+        ok: false,
+        message: reason,
+      },
+    });
+    return;
+  }
+
+  const data = binaryFrameData.get(message);
+  rememberRequestOrigin(session, ws, message.requestId);
+  sendWithPayload(target.socket, message, data, resolveHandshake(target.info).capabilities.includes("binary.frames"));
+  const audited = { ...message, agentId: target.info.agentId };
+  if (data) {
+    binaryFrameData.set(audited, data);
+  }
+  const entry = recordCommandAudit(ws, audited, true);
+  if (entry && message.type === "client.command" && message.payload.command === "file.download" && message.requestId) {
+    session.downloadAudits.set(message.requestId, { entry, lastUsedAt: Date.now() });
+  }
+  if (acknowledged) {
+    send(ws, {
+      type: "relay.ack",
+      payload: {
+        requestId: message.requestId,
+        ok: true,
+      },
+    });
+  }
+}
+
+function rejectCommand(ws: WebSocket, message: CommandMessage, reason: string): void {
+  recordCommandAudit(ws, message, false, reason);
+  send(ws, {
+    type: "relay.ack",
+    payload: {
+      requestId: message.requestId,
+      ok: false,
+      message: reason,
+    },
+  });
+}
+
+function handleClientCommand(ws: WebSocket, session: TokenSession, message: CommandMessage): void {
+  const command = message.payload.command;
+  if (!command) {
+    rejectCommand(ws, message, "sealed client messages must carry a client.command");
+    return;
+  }
+  const scope = commandScope(command);
+  if (!hasScope(ws, scope)) {
+    rejectCommand(ws, message, `${command} requires scope ${scope}, which this client token does not grant.`);
+    return;
+  }
+  const negotiated = negotiatedFor(session, ws, message.agentId);
+  const capability = commandCapability(command);
+  if (negotiated && !negotiated.capabilities.includes(capability)) {
+    rejectCommand(ws, message, `${command} requires capability ${capability}, which is not supported by this agent/client pair.`);
+    return;
+  }
+  if (message.type === "client.command" && message.payload.command === "terminal.snapshot") {
+    const target = resolveAgent(session, message.agentId);
+    const summary = target?.terminals.get(message.payload.terminalId);
+    const snapshot = target?.snapshots.get(message.payload.terminalId);
+    send(ws, {
+      type: "relay.state",
+      payload: {
+        agent: target?.info,
+        agents: onlineAgents(session),
+        negotiated,
+        terminals: summary ? [summary] : [],
+        snapshots: snapshot ? [snapshot] : [],
+      },
+    });
+  }
+  forwardCommandToAgent(session, ws, message);
+}
+
+function handleClientMessage(ws: WebSocket, session: TokenSession, message: RelayMessage): void {
+  const grant = socketMeta.get(ws)?.grant;
+  if (grant && !isGrantActive(grant)) {
+    const commandMessage = message.type === "client.command" || message.type === "e2e.sealed" ? message : undefined;
+    if (commandMessage) {
+      recordCommandAudit(ws, commandMessage, false, "client token expired or revoked");
+    }
+    send(ws, {
+      type: "relay.ack",
+      payload: {
+        requestId: commandMessage?.requestId,
+        ok: false,
+        message: "client token expired or revoked",
+      },
+    });
+    ws.close(4001, "client token expired");
+    return;
+  }
+
+  switch (message.type) {
+    case "client.hello": {
+      const meta = socketMeta.get(ws);
+      if (meta) {
+        meta.clientType = message.payload.clientType;
+      }
+      clientHandshakes.set(ws, {
+        protocolVersion: message.payload.protocolVersion,
+        capabilities: message.payload.capabilities,
+        e2e: message.payload.e2e,
+      });
+      send(ws, {
+        type: "relay.ack",
+        payload: { ok: true, message: `hello ${message.payload.clientType}` },
+      });
+      send(ws, composeState(session, ws));
+      for (const connection of session.agents.values()) {
+        announceClientKey(connection, ws);
+      }
+      return;
+    }
+    case "client.command": {
+      if (REQUIRE_E2E) {
+        rejectCommand(ws, message, "this relay only forwards end-to-end encrypted commands");
+        return;
+      }
+      handleClientCommand(ws, session, message);
+      return;
+    }
+    case "e2e.sealed": {
+      if (message.payload.inner !== "client.command") {
+        rejectCommand(ws, message, `sealed ${message.payload.inner} is not accepted from client`);
+        return;
+      }
+      handleClientCommand(ws, session, message);
+      return;
+    }
+    default: {
+      send(ws, {
+        type: "relay.ack",
+        payload: {
+          ok: false,
+          message: `Message type not accepted from client: ${message.type}`,
+        },
+      });
+    }
+  }
+}
+
+function onMessage(ws: WebSocket, raw: RawData, isBinary: boolean): void {
+  const meta = socketMeta.get(ws);
+  if (!meta) {
+    return;
+  }
+
+  const messageBytes = rawDataBytes(raw);
+  if (messageBytes > MAX_MESSAGE_BYTES) {
+    incrementCounter("tfclaw_relay_oversized_frames_total");
+    ws.close(1009, "message too large");
+    return;
+  }
+
+  // Binary frames only have their JSON header parsed; the payload bytes are forwarded as they are.
+  const decoded = isBinary ? decodeBinaryFrame(rawDataBuffer(raw)) : undefined;
+  const parsed = decoded ?? parseRelayMessage(raw.toString());
+  const transfer = parsed.ok && isTransferMessage(parsed.message);
+  if (isSocketRateLimited(ws, transfer)) {
+    incrementCounter("tfclaw_relay_rate_limit_rejections_total", { limiter: transfer ? "transfer" : "message" });
+    send(ws, {
+      type: "relay.ack",
+      payload: {
+        ok: false,
+        message: "rate limit exceeded",
+      },
+    });
+    ws.close(1008, "rate limit exceeded");
+    return;
+  }
+  updateSocketLastSeen(ws);
+
+  const session = sessions.get(meta.token);
+  if (!session) {
+    ws.close(1008, "session not found");
+    return;
+  }
+  session.lastActivityAt = Date.now();
+
+  if (decoded?.ok) {
+    binaryFrameData.set(decoded.message, decoded.data);
+    incrementCounter("tfclaw_relay_binary_frames_total", { direction: "received" });
+  }
+  incrementCounter("tfclaw_relay_messages_received_total", {
+    role: meta.role,
+    type: parsed.ok ? parsed.message.type : "invalid",
+  });
+  if (!parsed.ok) {
+    send(ws, {
+      type: "relay.ack",
+      payload: {
+        requestId: parsed.requestId,
+        ok: false,
+        message: `invalid ${parsed.type ?? (isBinary ? "binary" : "json")} message: ${describeValidationIssues(parsed.issues)}`,
+        issues: parsed.issues,
+      },
+    });
+    return;
+  }
+  const message = parsed.message;
+  const frameBytes = decoded?.ok ? decoded.data.length : undefined;
+  if (message.type === "client.command" && message.payload.command === "file.upload.chunk") {
+    incrementCounter("tfclaw_relay_file_transfer_bytes_total", { direction: "upload" }, frameBytes ?? Buffer.byteLength(message.payload.chunkBase64, "base64"));
+  } else if (message.type === "agent.file_transfer" && message.payload.stage === "chunk") {
+    incrementCounter("tfclaw_relay_file_transfer_bytes_total", { direction: "download" }, frameBytes ?? Buffer.byteLength(message.payload.chunkBase64, "base64"));
+  }
+
+  if (meta.role === "agent") {
+    handleAgentMessage(ws, session, message);
+    return;
+  }
+
+  handleClientMessage(ws, session, message);
+}
+
+function writeJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readJsonBody(req: http.IncomingMessage, limitBytes: number): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limitBytes) {
+        reject(new Error("request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const text = Buffer.concat(chunks).toString("utf8").trim();
+      if (!text) {
+        resolve({});
+        return;
+      }
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(new Error("invalid json body"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function requestToken(req: http.IncomingMessage): string | undefined {
+  const authorization = req.headers.authorization?.toString() ?? "";
+  const bearer = /^Bearer\s+(.+)$/i.exec(authorization)?.[1]?.trim();
+  return bearer || req.headers["x-auth-token"]?.toString();
+}
+
+function describeGrant(grant: ClientGrant): Record<string, unknown> {
+  return {
+    id: grant.id,
+    label: grant.label,
+    scopes: grant.scopes,
+    createdAt: new Date(grant.createdAt).toISOString(),
+    expiresAt: new Date(grant.expiresAt).toISOString(),
+  };
+}
+
+function closeGrantSockets(grant: ClientGrant): void {
+  const session = grant.sessionToken ? sessions.get(grant.sessionToken) : undefined;
+  for (const client of session?.clients ?? []) {
+    if (socketMeta.get(client)?.grant === grant) {
+      client.close(4001, "client token revoked");
+    }
+  }
+}
+
+// Derived client tokens can only be minted, listed and revoked with the session (owner) token.
+async function handleClientTokenRequest(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<void> {
+  const ownerToken = requestToken(req);
+  if (!ownerToken || isDerivedToken(ownerToken) || !isTokenAllowed(ownerToken)) {
+    writeJson(res, 401, { ok: false, message: "owner token required" });
+    return;
+  }
+
+  const grantId = url.pathname.slice("/tokens".length).replace(/^\/+/, "");
+  if (req.method === "GET" && !grantId) {
+    pruneExpiredGrants();
+    writeJson(res, 200, { ok: true, tokens: grantsForSession(ownerToken).map(describeGrant) });
+    return;
+  }
+
+  if (req.method === "DELETE" && grantId) {
+    const grant = grantsForSession(ownerToken).find((item) => item.id === grantId);
+    if (!grant) {
+      writeJson(res, 404, { ok: false, message: "token not found" });
+      return;
+    }
+    clientGrants.delete(grant.digest);
+    sessionStore.deleteGrant(grant.digest);
+    closeGrantSockets(grant);
+    writeJson(res, 200, { ok: true, revoked: grant.id });
+    return;
+  }
+
+  if (req.method !== "POST" || grantId) {
+    writeJson(res, 405, { ok: false, message: "method not allowed" });
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(req, MAX_HTTP_BODY_BYTES);
+  } catch (error) {
+    writeJson(res, 400, { ok: false, message: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+  const input = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const requestedScopes = Array.isArray(input.scopes) ? input.scopes : [];
+  const unknownScopes = requestedScopes.filter((scope) => !isClientScope(scope));
+  const scopes = Array.from(new Set(requestedScopes.filter(isClientScope)));
+  if (unknownScopes.length > 0 || scopes.length === 0) {
+    writeJson(res, 400, {
+      ok: false,
+      message: `scopes must be a non-empty subset of ${CLIENT_SCOPES.join(",")}`,
+    });
+    return;
+  }
+
+  pruneExpiredGrants();
+  if (grantsForSession(ownerToken).length >= MAX_CLIENT_TOKENS_PER_SESSION) {
+    writeJson(res, 429, { ok: false, message: "too many client tokens for this session" });
+    return;
+  }
+
+  const ttlMs = typeof input.ttlSeconds === "number" && Number.isFinite(input.ttlSeconds)
+    ? Math.min(CLIENT_TOKEN_MAX_TTL_MS, Math.max(60_000, Math.trunc(input.ttlSeconds * 1000)))
+    : CLIENT_TOKEN_DEFAULT_TTL_MS;
+  const derivedToken = `${DERIVED_TOKEN_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const now = Date.now();
+  const record: PersistedGrant = {
+    id: randomUUID(),
+    digest: tokenDigest(derivedToken),
+    sessionDigest: tokenDigest(ownerToken),
+    sealedSessionToken: sealSessionToken(ownerToken, derivedToken),
+    scopes,
+    label: typeof input.label === "string" ? input.label.trim().slice(0, 80) || undefined : undefined,
+    createdAt: now,
+    expiresAt: now + ttlMs,
+  };
+  const grant: ClientGrant = { ...record, sessionToken: ownerToken };
+  clientGrants.set(grant.digest, grant);
+  sessionStore.putGrant(record);
+  console.log(`[tokens] minted client token ${grant.id} token=${maskToken(ownerToken)} scopes=${scopes.join(",")}`);
+  writeJson(res, 201, { ok: true, token: derivedToken, ...describeGrant(grant) });
 }
 
-function ensureSession(token: string): TokenSession {
-  let session = sessions.get(token);
-  if (!session) {
-    session = {
-      clients: new Set<WebSocket>(),
-      terminals: new Map<string, TerminalSummary>(),
-      snapshots: new Map<string, TerminalSnapshot>(),
-    };
-    sessions.set(token, session);
+// Hashing first gives both sides the same length, so the comparison time says nothing about the token.
+function tokenMatches(presented: string | undefined, expected: string): boolean {
+  if (!expected || !presented) {
+    return false;
   }
-  return session;
+  return timingSafeEqual(
+    createHash("sha256").update(presented).digest(),
+    createHash("sha256").update(expected).digest(),
+  );
 }
 
-function send(ws: WebSocket, message: RelayMessage): void {
-  if (ws.readyState === ws.OPEN) {
-    ws.send(jsonStringify(message));
+function isAdminAuthorized(req: http.IncomingMessage): boolean {
+  return tokenMatches(requestToken(req), ADMIN_TOKEN);
+}
+
+function findSessionByKey(key: string): TokenSession | undefined {
+  for (const session of sessions.values()) {
+    if (auditSessionKey(session.token) === key) {
+      return session;
+    }
   }
+  return undefined;
 }
 
-function composeState(session: TokenSession): RelayState {
+function describeSocket(ws: WebSocket): Record<string, unknown> {
+  const meta = socketMeta.get(ws);
   return {
-    type: "relay.state",
-    payload: {
-      agent: session.agentInfo,
-      terminals: Array.from(session.terminals.values()),
-      snapshots: Array.from(session.snapshots.values()),
-    },
+    id: meta?.id,
+    ip: meta?.ip,
+    clientType: meta?.clientType,
+    grantId: meta?.grant?.id,
+    connectedAt: meta ? new Date(meta.connectedAt).toISOString() : undefined,
+    lastSeenAt: socketLastSeenAt.has(ws) ? new Date(socketLastSeenAt.get(ws)!).toISOString() : undefined,
   };
 }
 
-function broadcastState(session: TokenSession): void {
-  const state = composeState(session);
-  for (const client of session.clients) {
-    send(client, state);
+function describeSession(session: TokenSession, detailed: boolean): Record<string, unknown> {
+  const connections = Array.from(session.agents.values());
+  const summary: Record<string, unknown> = {
+    id: auditSessionKey(session.token),
+    token: maskToken(session.token),
+    agents: connections.map((connection) => ({
+      ...connection.info,
+      online: Boolean(connection.socket),
+      socketId: connection.socket ? socketMeta.get(connection.socket)?.id : undefined,
+      certSubject: connection.socket ? socketMeta.get(connection.socket)?.certSubject : undefined,
+    })),
+    clients: session.clients.size,
+    pendingAgents: session.pendingAgents.size,
+    terminals: connections.reduce((sum, connection) => sum + connection.terminals.size, 0),
+    lastActivityAt: new Date(session.lastActivityAt).toISOString(),
+  };
+  if (detailed) {
+    summary.clientSockets = Array.from(session.clients).map(describeSocket);
   }
+  return summary;
 }
 
-function cleanupSocket(ws: WebSocket): void {
-  const meta = socketMeta.get(ws);
-  if (!meta) {
-    return;
-  }
-  socketMeta.delete(ws);
-  dropIpActiveConnection(meta.ip);
+function findSessionSocket(session: TokenSession, socketId: string): WebSocket | undefined {
+  const candidates = [
+    ...session.clients,
+    ...session.pendingAgents,
+    ...Array.from(session.agents.values()).flatMap((connection) => (connection.socket ? [connection.socket] : [])),
+  ];
+  return candidates.find((ws) => socketMeta.get(ws)?.id === socketId);
+}
 
-  const session = sessions.get(meta.token);
-  if (!session) {
-    return;
+function purgeSessionSnapshots(session: TokenSession): number {
+  let purged = 0;
+  for (const connection of session.agents.values()) {
+    purged += connection.snapshots.size;
+    connection.snapshots.clear();
   }
+  persistSession(session);
+  broadcastState(session);
+  return purged;
+}
 
-  if (meta.role === "agent") {
-    if (session.agent === ws) {
-      session.agent = undefined;
-      session.agentInfo = undefined;
+function banIp(ip: string, durationMs: number, reason?: string): number {
+  ipBans.set(ip, { until: Date.now() + durationMs, reason });
+  let closed = 0;
+  for (const ws of wss.clients) {
+    if (socketMeta.get(ws)?.ip === ip) {
+      ws.close(4003, "banned by admin");
+      closed += 1;
     }
-  } else {
-    session.clients.delete(ws);
   }
+  console.warn(`[admin] banned ip=${ip} for ${durationMs}ms closed=${closed}${reason ? ` reason=${reason}` : ""}`);
+  return closed;
+}
 
-  if (!session.agent && session.clients.size === 0) {
-    sessions.delete(meta.token);
+// Routes: GET /admin/sessions[/ID], DELETE /admin/sessions/ID/sockets/SOCKET_ID,
+// DELETE /admin/sessions/ID/snapshots, GET|POST /admin/bans, DELETE /admin/bans/IP.
+async function handleAdminRequest(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<void> {
+  if (!ADMIN_TOKEN) {
+    writeJson(res, 404, { ok: false, message: "admin api disabled" });
     return;
   }
-
-  broadcastState(session);
-}
-
-function appendSnapshot(session: TokenSession, terminalId: string, chunk: string, at: string): void {
-  const existing = session.snapshots.get(terminalId);
-  const merged = `${existing?.output ?? ""}${chunk}`;
-  const output = merged.length > MAX_SNAPSHOT_CHARS ? merged.slice(-MAX_SNAPSHOT_CHARS) : merged;
-
-  session.snapshots.set(terminalId, {
-    terminalId,
-    output,
-    updatedAt: at,
-  });
-
-  const summary = session.terminals.get(terminalId);
-  if (summary) {
-    summary.updatedAt = at;
-    summary.isActive = true;
+  if (!isAdminAuthorized(req)) {
+    writeJson(res, 401, { ok: false, message: "admin token required" });
+    return;
   }
-}
 
-function handleAgentMessage(ws: WebSocket, session: TokenSession, message: RelayMessage): void {
-  switch (message.type) {
-    case "agent.register": {
-      session.agentInfo = message.payload;
-      broadcastState(session);
+  const parts = url.pathname.split("/").filter(Boolean).slice(1).map((part) => decodeURIComponent(part));
+  const [resource, id, child, childId] = parts;
+
+  if (resource === "sessions") {
+    if (req.method === "GET" && !id) {
+      writeJson(res, 200, { ok: true, sessions: Array.from(sessions.values()).map((session) => describeSession(session, false)) });
       return;
     }
-    case "agent.terminal_list": {
-      const next = new Map<string, TerminalSummary>();
-      for (const terminal of message.payload.terminals) {
-        next.set(terminal.terminalId, terminal);
-      }
-      session.terminals = next;
-      broadcastState(session);
+    const session = id ? findSessionByKey(id) : undefined;
+    if (!session) {
+      writeJson(res, 404, { ok: false, message: "session not found" });
       return;
     }
-    case "agent.terminal_output": {
-      appendSnapshot(session, message.payload.terminalId, message.payload.chunk, message.payload.at);
-      for (const client of session.clients) {
-        send(client, message);
-      }
+    if (req.method === "GET" && !child) {
+      writeJson(res, 200, { ok: true, session: describeSession(session, true) });
       return;
     }
-    case "agent.screen_capture":
-    case "agent.capture_sources":
-    case "agent.command_result":
-    case "agent.file_transfer":
-    case "agent.error": {
-      for (const client of session.clients) {
-        send(client, message);
+    if (req.method === "DELETE" && child === "sockets" && childId) {
+      const target = findSessionSocket(session, childId);
+      if (!target) {
+        writeJson(res, 404, { ok: false, message: "socket not found" });
+        return;
       }
+      const role = socketMeta.get(target)?.role;
+      target.close(4002, "disconnected by admin");
+      console.warn(`[admin] disconnected ${role} socket=${childId} token=${maskToken(session.token)}`);
+      writeJson(res, 200, { ok: true, disconnected: childId, role });
       return;
     }
-    default: {
-      send(ws, {
-        type: "relay.ack",
-        payload: {
-          ok: false,
-          message: `Message type not accepted from agent: ${message.type}`,
-        },
-      });
+    if (req.method === "DELETE" && child === "snapshots" && !childId) {
+      const purged = purgeSessionSnapshots(session);
+      console.warn(`[admin] purged ${purged} snapshot(s) token=${maskToken(session.token)}`);
+      writeJson(res, 200, { ok: true, purged });
+      return;
     }
   }
-}
-
-function forwardCommandToAgent(session: TokenSession, ws: WebSocket, message: RelayMessage): void {
-  if (message.type !== "client.command") {
-    return;
-  }
-
-  if (!session.agent || session.agent.readyState !== session.agent.OPEN) {
-    send(ws, {
-      type: "relay.ack",
-      payload: {
-        requestId: message.payload.command === "terminal.input" ? undefined : message.requestId,
-        ok: false,
-        message: "No active terminal agent connected for this token.",
-      },
-    });
-    return;
-  }
-
-  send(session.agent, message);
-  if (message.payload.command !== "terminal.input") {
-    send(ws, {
-      type: "relay.ack",
-      payload: {
-        requestId: message.requestId,
-        ok: true,
-      },
-    });
-  }
-}
 
-function handleClientMessage(ws: WebSocket, session: TokenSession, message: RelayMessage): void {
-  switch (message.type) {
-    case "client.hello": {
-      send(ws, {
-        type: "relay.ack",
-        payload: { ok: true, message: `hello ${message.payload.clientType}` },
-      });
-      send(ws, composeState(session));
+  if (resource === "bans") {
+    if (req.method === "GET" && !id) {
+      const now = Date.now();
+      const bans = Array.from(ipBans.entries())
+        .filter(([, ban]) => ban.until > now)
+        .map(([ip, ban]) => ({ ip, until: new Date(ban.until).toISOString(), reason: ban.reason }));
+      writeJson(res, 200, { ok: true, bans });
       return;
     }
-    case "client.command": {
-      if (message.payload.command === "terminal.snapshot") {
-        const snapshot = session.snapshots.get(message.payload.terminalId);
-        send(ws, {
-          type: "relay.state",
-          payload: {
-            agent: session.agentInfo,
-            terminals: session.terminals.has(message.payload.terminalId)
-              ? [session.terminals.get(message.payload.terminalId)!]
-              : [],
-            snapshots: snapshot ? [snapshot] : [],
-          },
-        });
+    if (req.method === "POST" && !id) {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req, MAX_HTTP_BODY_BYTES);
+      } catch (error) {
+        writeJson(res, 400, { ok: false, message: error instanceof Error ? error.message : String(error) });
+        return;
       }
-      forwardCommandToAgent(session, ws, message);
+      const input = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+      const ip = typeof input.ip === "string" ? normalizeIp(input.ip.trim()) : "";
+      if (!ip) {
+        writeJson(res, 400, { ok: false, message: "ip is required" });
+        return;
+      }
+      const durationMs = typeof input.durationSeconds === "number" && Number.isFinite(input.durationSeconds)
+        ? Math.min(ADMIN_MAX_BAN_MS, Math.max(1000, Math.trunc(input.durationSeconds * 1000)))
+        : Math.min(ADMIN_MAX_BAN_MS, 3_600_000);
+      const reason = typeof input.reason === "string" ? input.reason.trim().slice(0, 200) || undefined : undefined;
+      const closed = banIp(ip, durationMs, reason);
+      writeJson(res, 201, { ok: true, ip, until: new Date(Date.now() + durationMs).toISOString(), closed });
       return;
     }
-    default: {
-      send(ws, {
-        type: "relay.ack",
-        payload: {
-          ok: false,
-          message: `Message type not accepted from client: ${message.type}`,
-        },
-      });
+    if (req.method === "DELETE" && id) {
+      const removed = ipBans.delete(normalizeIp(id));
+      writeJson(res, removed ? 200 : 404, { ok: removed, ip: id });
+      return;
     }
   }
+
+  writeJson(res, 404, { ok: false, message: "not found" });
 }
 
-function onMessage(ws: WebSocket, raw: RawData): void {
-  const meta = socketMeta.get(ws);
-  if (!meta) {
-    return;
+function applyCorsHeaders(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+  const origin = req.headers.origin?.toString();
+  if (!origin) {
+    return true;
+  }
+  if (!isOriginAllowed(origin)) {
+    return false;
   }
+  res.setHeader("access-control-allow-origin", origin);
+  res.setHeader("access-control-allow-headers", "authorization, content-type, x-auth-token");
+  res.setHeader("access-control-allow-methods", "POST, OPTIONS");
+  res.setHeader("vary", "origin");
+  return true;
+}
 
-  if (isSocketRateLimited(ws)) {
-    send(ws, {
-      type: "relay.ack",
-      payload: {
-        ok: false,
-        message: "rate limit exceeded",
-      },
-    });
-    ws.close(1008, "rate limit exceeded");
+async function handleTicketRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (!applyCorsHeaders(req, res)) {
+    writeJson(res, 403, { ok: false, message: "origin not allowed" });
+    return;
+  }
+  if (req.method === "OPTIONS") {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (req.method !== "POST") {
+    writeJson(res, 405, { ok: false, message: "method not allowed" });
     return;
   }
 
-  const messageBytes = rawDataBytes(raw);
-  if (messageBytes > MAX_MESSAGE_BYTES) {
-    ws.close(1009, "message too large");
+  const ip = normalizeIp(req.socket.remoteAddress);
+  if (isIpBanned(ip)) {
+    writeJson(res, 403, { ok: false, message: "forbidden" });
+    return;
+  }
+  if (isUpgradeRateLimited(ip)) {
+    incrementCounter("tfclaw_relay_rate_limit_rejections_total", { limiter: "upgrade" });
+    writeJson(res, 429, { ok: false, message: "too many requests" });
     return;
   }
-  updateSocketLastSeen(ws);
 
-  const session = sessions.get(meta.token);
-  if (!session) {
-    ws.close(1008, "session not found");
+  let body: unknown;
+  try {
+    body = await readJsonBody(req, MAX_HTTP_BODY_BYTES);
+  } catch (error) {
+    writeJson(res, 400, { ok: false, message: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+  const input = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const role: Role = input.role === "agent" ? "agent" : "client";
+  const token = requestToken(req);
+  const authorized = token
+    ? isDerivedToken(token)
+      ? role === "client" && Boolean(findClientGrant(token))
+      : isTokenAllowed(token)
+    : false;
+  if (!token || !authorized) {
+    writeJson(res, 401, { ok: false, message: "unauthorized" });
     return;
   }
 
-  const text = raw.toString();
-  const message = safeJsonParse(text);
-  if (!message) {
-    send(ws, {
-      type: "relay.ack",
-      payload: { ok: false, message: "invalid json message" },
-    });
+  const issued = issueTicket(role, token);
+  if (!issued) {
+    writeJson(res, 503, { ok: false, message: "too many pending tickets" });
     return;
   }
+  writeJson(res, 201, { ok: true, ticket: issued.ticket, role, expiresAt: new Date(issued.expiresAt).toISOString() });
+}
 
-  if (meta.role === "agent") {
-    handleAgentMessage(ws, session, message);
+async function handleAuditRequest(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<void> {
+  const ownerToken = requestToken(req);
+  if (!ownerToken || isDerivedToken(ownerToken) || !isTokenAllowed(ownerToken)) {
+    writeJson(res, 401, { ok: false, message: "owner token required" });
+    return;
+  }
+  if (!auditLog) {
+    writeJson(res, 404, { ok: false, message: "audit log disabled" });
     return;
   }
+  const requested = Number.parseInt(url.searchParams.get("limit") ?? "100", 10);
+  const limit = Math.max(1, Math.min(AUDIT_QUERY_MAX_ENTRIES, Number.isFinite(requested) ? requested : 100));
+  const entries = await auditLog.recent(auditSessionKey(ownerToken), limit);
+  writeJson(res, 200, { ok: true, entries });
+}
+
+function readTlsOptions(): https.ServerOptions {
+  return {
+    cert: fs.readFileSync(TLS_CERT_PATH),
+    key: fs.readFileSync(TLS_KEY_PATH),
+    ...(TLS_CLIENT_CA_PATH ? { ca: fs.readFileSync(TLS_CLIENT_CA_PATH) } : {}),
+  };
+}
+
+// Certificates are re-read whenever one of the files changes, so renewals apply without dropping sockets.
+function watchTlsFiles(target: https.Server): void {
+  let reloadTimer: NodeJS.Timeout | undefined;
+  const reload = (): void => {
+    try {
+      target.setSecureContext(readTlsOptions());
+      console.log("[tls] certificates reloaded");
+    } catch (error) {
+      console.error(`[tls] reload failed, keeping previous certificates: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+  for (const filePath of [TLS_CERT_PATH, TLS_KEY_PATH, TLS_CLIENT_CA_PATH].filter(Boolean)) {
+    fs.watchFile(filePath, { interval: TLS_RELOAD_INTERVAL_MS, persistent: false }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) {
+        return;
+      }
+      if (reloadTimer) {
+        clearTimeout(reloadTimer);
+      }
+      reloadTimer = setTimeout(reload, 500);
+    });
+  }
+}
 
-  handleClientMessage(ws, session, message);
+function createRelayServer(handler: http.RequestListener): http.Server {
+  if (!TLS_ENABLED) {
+    if (AGENT_MTLS) {
+      throw new Error("RELAY_AGENT_MTLS requires RELAY_TLS_CERT and RELAY_TLS_KEY");
+    }
+    return http.createServer(handler);
+  }
+  if (AGENT_MTLS && !TLS_CLIENT_CA_PATH) {
+    throw new Error("RELAY_AGENT_MTLS requires RELAY_TLS_CLIENT_CA");
+  }
+  // Client certificates are requested but not enforced at the TLS layer: only role=agent upgrades require one.
+  const secureServer = https.createServer(
+    {
+      ...readTlsOptions(),
+      requestCert: AGENT_MTLS,
+      rejectUnauthorized: false,
+    },
+    handler,
+  );
+  watchTlsFiles(secureServer);
+  return secureServer;
+}
+
+function verifiedCertSubject(req: http.IncomingMessage): string | undefined {
+  const tlsSocket = req.socket as TLSSocket;
+  if (!TLS_ENABLED || !tlsSocket.authorized) {
+    return undefined;
+  }
+  const subject = tlsSocket.getPeerCertificate().subject;
+  return subject?.CN ? String(subject.CN) : "(no CN)";
 }
 
-const server = http.createServer((req, res) => {
+const server = createRelayServer((req, res) => {
   res.setHeader("x-content-type-options", "nosniff");
   res.setHeader("cache-control", "no-store");
 
@@ -431,6 +2086,53 @@ const server = http.createServer((req, res) => {
     return;
   }
 
+  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+  if (req.method === "GET" && url.pathname === "/metrics") {
+    if (METRICS_TOKEN && !tokenMatches(requestToken(req), METRICS_TOKEN)) {
+      writeJson(res, 401, { ok: false, message: "metrics token required" });
+      return;
+    }
+    res.writeHead(200, { "content-type": "text/plain; version=0.0.4; charset=utf-8" });
+    res.end(renderMetrics());
+    return;
+  }
+
+  if (url.pathname === "/tickets" || url.pathname === RELAY_TICKETS_PATH) {
+    void handleTicketRequest(req, res).catch((error) => {
+      if (!res.headersSent) {
+        writeJson(res, 500, { ok: false, message: error instanceof Error ? error.message : String(error) });
+      }
+    });
+    return;
+  }
+
+  if (url.pathname === "/admin" || url.pathname.startsWith("/admin/")) {
+    void handleAdminRequest(req, res, url).catch((error) => {
+      if (!res.headersSent) {
+        writeJson(res, 500, { ok: false, message: error instanceof Error ? error.message : String(error) });
+      }
+    });
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === "/audit") {
+    void handleAuditRequest(req, res, url).catch((error) => {
+      if (!res.headersSent) {
+        writeJson(res, 500, { ok: false, message: error instanceof Error ? error.message : String(error) });
+      }
+    });
+    return;
+  }
+
+  if (url.pathname === "/tokens" || url.pathname.startsWith("/tokens/")) {
+    void handleClientTokenRequest(req, res, url).catch((error) => {
+      if (!res.headersSent) {
+        writeJson(res, 500, { ok: false, message: error instanceof Error ? error.message : String(error) });
+      }
+    });
+    return;
+  }
+
   res.writeHead(404, { "content-type": "application/json" });
   res.end(JSON.stringify({ ok: false, message: "not found" }));
 });
@@ -458,10 +2160,12 @@ wss.on("connection", (ws, req) => {
   const session = ensureSession(meta.token);
 
   if (meta.role === "agent") {
-    if (session.agent && session.agent !== ws && session.agent.readyState === session.agent.OPEN) {
-      session.agent.close(4000, "Replaced by a newer agent connection");
+    if (onlineAgents(session).length + session.pendingAgents.size >= MAX_AGENTS_PER_SESSION) {
+      dropIpActiveConnection(meta.ip);
+      ws.close(1008, "too many agents for token");
+      return;
     }
-    session.agent = ws;
+    session.pendingAgents.add(ws);
   } else {
     if (session.clients.size >= MAX_CLIENTS_PER_SESSION) {
       dropIpActiveConnection(meta.ip);
@@ -469,22 +2173,28 @@ wss.on("connection", (ws, req) => {
       return;
     }
     session.clients.add(ws);
-    send(ws, composeState(session));
+    send(ws, composeState(session, ws));
   }
 
   socketRateWindow.set(ws, {
     startedAt: Date.now(),
     count: 0,
+    transferCount: 0,
   });
   updateSocketLastSeen(ws);
-  ws.on("message", (raw) => onMessage(ws, raw));
+  ws.on("message", (raw, isBinary) => onMessage(ws, raw, isBinary));
   ws.on("pong", () => updateSocketLastSeen(ws));
   ws.on("close", () => cleanupSocket(ws));
-  ws.on("error", () => cleanupSocket(ws));
+  ws.on("error", (error: Error & { code?: string }) => {
+    if (error.code === "WS_ERR_UNSUPPORTED_MESSAGE_LENGTH") {
+      incrementCounter("tfclaw_relay_oversized_frames_total");
+    }
+    cleanupSocket(ws);
+  });
 
   const peer = req.socket.remoteAddress ?? "unknown";
   console.log(
-    `[connected] role=${meta.role} token=${maskToken(meta.token)} peer=${normalizeIp(peer)} clients=${wss.clients.size}`,
+    `[connected] role=${meta.role} token=${maskToken(meta.token)} peer=${normalizeIp(peer)} clients=${wss.clients.size}${meta.certSubject ? ` cert=${meta.certSubject}` : ""}`,
   );
 });
 
@@ -492,7 +2202,14 @@ server.on("upgrade", (req, socket, head) => {
   try {
     const parsed = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
     const ip = normalizeIp(req.socket.remoteAddress);
+    if (isIpBanned(ip)) {
+      socket.write("HTTP/1.1 403 Forbidden\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
     if (isUpgradeRateLimited(ip)) {
+      incrementCounter("tfclaw_relay_rate_limit_rejections_total", { limiter: "upgrade" });
       socket.write("HTTP/1.1 429 Too Many Requests\r\n\r\n");
       socket.destroy();
       return;
@@ -518,9 +2235,32 @@ server.on("upgrade", (req, socket, head) => {
     }
 
     const roleRaw = parsed.searchParams.get("role");
-    const token = parsed.searchParams.get("token") ?? req.headers["x-auth-token"]?.toString();
+    const ticketRaw = parsed.searchParams.get("ticket");
+    const queryToken = ALLOW_QUERY_TOKEN ? parsed.searchParams.get("token") : null;
+    const ticket = ticketRaw && (roleRaw === "agent" || roleRaw === "client") ? consumeTicket(ticketRaw, roleRaw) : undefined;
+    if (ticketRaw && !ticket) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+    const presentedToken = ticket?.token ?? req.headers["x-auth-token"]?.toString() ?? queryToken ?? undefined;
+    const grant = presentedToken && roleRaw === "client" && isDerivedToken(presentedToken)
+      ? findClientGrant(presentedToken)
+      : undefined;
+    const token = grant ? grant.sessionToken : presentedToken;
+
+    if (
+      (roleRaw !== "agent" && roleRaw !== "client")
+      || !token
+      || (!grant && (isDerivedToken(token) || !isTokenAllowed(token)))
+    ) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
 
-    if ((roleRaw !== "agent" && roleRaw !== "client") || !token || !isTokenAllowed(token)) {
+    const certSubject = verifiedCertSubject(req);
+    if (roleRaw === "agent" && AGENT_MTLS && !certSubject) {
       socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
       socket.destroy();
       return;
@@ -534,9 +2274,13 @@ server.on("upgrade", (req, socket, head) => {
 
     wss.handleUpgrade(req, socket, head, (ws) => {
       socketMeta.set(ws, {
+        id: randomUUID(),
         role: roleRaw,
         token,
         ip,
+        connectedAt: Date.now(),
+        certSubject,
+        grant,
       });
       wss.emit("connection", ws, req);
     });
@@ -548,15 +2292,31 @@ server.on("upgrade", (req, socket, head) => {
 
 const heartbeatTimer = setInterval(() => {
   const now = Date.now();
+  pruneExpiredGrants();
+  pruneExpiredTickets();
+  pruneExpiredRequestOrigins();
+  for (const [ip, ban] of ipBans) {
+    if (ban.until <= now) {
+      ipBans.delete(ip);
+    }
+  }
   for (const ws of wss.clients) {
+    const grant = socketMeta.get(ws)?.grant;
+    if (grant && !isGrantActive(grant)) {
+      ws.close(4001, "client token expired");
+      continue;
+    }
+
     const lastSeen = socketLastSeenAt.get(ws) ?? now;
     if (now - lastSeen > IDLE_TIMEOUT_MS) {
+      incrementCounter("tfclaw_relay_heartbeat_terminations_total", { reason: "idle" });
       ws.terminate();
       continue;
     }
 
     const alive = socketAlive.get(ws) ?? true;
     if (!alive) {
+      incrementCounter("tfclaw_relay_heartbeat_terminations_total", { reason: "missed_pong" });
       ws.terminate();
       continue;
     }
@@ -565,19 +2325,43 @@ const heartbeatTimer = setInterval(() => {
     try {
       ws.ping();
     } catch {
+      incrementCounter("tfclaw_relay_heartbeat_terminations_total", { reason: "ping_failed" });
       ws.terminate();
     }
   }
 }, Math.max(5000, HEARTBEAT_INTERVAL_MS));
 heartbeatTimer.unref();
 
+const stateFlushTimer = setInterval(flushDirtySessions, STATE_FLUSH_INTERVAL_MS);
+stateFlushTimer.unref();
+
+const stateRetentionTimer = setInterval(pruneExpiredState, Math.min(STATE_RETENTION_MS, 60_000));
+stateRetentionTimer.unref();
+pruneExpiredState();
+
+function shutdown(signal: NodeJS.Signals): void {
+  console.log(`[relay] ${signal} received, flushing session state`);
+  for (const session of sessions.values()) {
+    persistSession(session);
+  }
+  const forceExit = setTimeout(() => process.exit(1), 5000);
+  forceExit.unref();
+  void sessionStore.flush().finally(() => process.exit(0));
+}
+
+process.once("SIGINT", shutdown);
+process.once("SIGTERM", shutdown);
+
 server.listen(RELAY_PORT, RELAY_HOST, () => {
   console.log(`TFClaw relay server listening on ${RELAY_HOST}:${RELAY_PORT}${RELAY_WS_PATH}`);
   console.log(
-    `[security] maxConnections=${MAX_CONNECTIONS} maxConnectionsPerIp=${MAX_CONNECTIONS_PER_IP} maxClientsPerSession=${MAX_CLIENTS_PER_SESSION}`,
+    `[tls] ${TLS_ENABLED ? `enabled (wss://) agentMtls=${AGENT_MTLS}` : "disabled (plain ws://, terminate TLS in a proxy)"}`,
   );
   console.log(
-    `[security] maxPayloadBytes=${MAX_MESSAGE_BYTES} rateLimit=${MAX_MESSAGES_PER_WINDOW}/${MESSAGE_RATE_LIMIT_WINDOW_MS}ms upgradeLimit=${MAX_UPGRADES_PER_WINDOW_PER_IP}/${UPGRADE_RATE_LIMIT_WINDOW_MS}ms`,
+    `[security] maxConnections=${MAX_CONNECTIONS} maxConnectionsPerIp=${MAX_CONNECTIONS_PER_IP} maxClientsPerSession=${MAX_CLIENTS_PER_SESSION} maxAgentsPerSession=${MAX_AGENTS_PER_SESSION}`,
+  );
+  console.log(
+    `[security] maxPayloadBytes=${MAX_MESSAGE_BYTES} rateLimit=${MAX_MESSAGES_PER_WINDOW}/${MESSAGE_RATE_LIMIT_WINDOW_MS}ms transferRateLimit=${MAX_TRANSFER_MESSAGES_PER_WINDOW} upgradeLimit=${MAX_UPGRADES_PER_WINDOW_PER_IP}/${UPGRADE_RATE_LIMIT_WINDOW_MS}ms`,
   );
   if (allowedOrigins.size > 0) {
     console.log(`[security] allowedOrigins=${Array.from(allowedOrigins).join(",")}`);
@@ -585,4 +2369,9 @@ server.listen(RELAY_PORT, RELAY_HOST, () => {
   if (allowedTokens.size > 0) {
     console.log(`[security] allowedTokens=${allowedTokens.size}`);
   }
+  console.log(`[admin] ${ADMIN_TOKEN ? "enabled" : "disabled (set RELAY_ADMIN_TOKEN)"}`);
+  console.log(`[audit] ${auditLog ? `path=${AUDIT_LOG_PATH} maxBytes=${AUDIT_MAX_BYTES} maxFiles=${AUDIT_MAX_FILES}` : "disabled"}`);
+  console.log(
+    `[state] store=${sessionStore.kind}${sessionStore.kind === "file" ? ` dir=${STATE_DIR}` : ""} retentionMs=${STATE_RETENTION_MS}`,
+  );
 });
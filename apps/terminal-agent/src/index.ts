@@ -1,35 +1,133 @@
-import { spawn } from "node:child_process";
+import { type ChildProcess, spawn } from "node:child_process";
+import { type Hash, createHash } from "node:crypto";
+import { type WriteStream, createReadStream, createWriteStream, readFileSync } from "node:fs";
 import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import process from "node:process";
+import { StringDecoder } from "node:string_decoder";
+import { pipeline } from "node:stream";
 import { URL } from "node:url";
+import { createDeflateRaw } from "node:zlib";
+import type { IPty } from "node-pty";
+import { RE2JS } from "re2js";
 import {
   type AgentDescriptor,
+  type AgentWatchEvent,
+  type ArchiveFormat,
   type CaptureSource,
   type ClientCommand,
+  type CommandCompletion,
+  type E2eContentKey,
+  type E2eKeyPair,
+  type FileEntry,
+  type FileOperation,
+  type ProtocolCapability,
   type RelayMessage,
+  type RelayMessageValidation,
+  type SealableMessage,
+  type TerminalHistoryPage,
+  type WatchEventReason,
+  PROTOCOL_CAPABILITIES,
+  PROTOCOL_VERSION,
+  createE2eContentKey,
+  createE2eKeyPair,
+  decodeBinaryFrame,
+  deriveE2eWrapKey,
+  describeValidationIssues,
+  encodeBinaryFrame,
+  isProtocolCapability,
+  isSealableMessage,
   jsonStringify,
-  safeJsonParse,
+  mergeBinaryPayload,
+  openSealedMessage,
+  parseRelayMessage,
+  sealRelayMessage,
+  splitBinaryPayload,
+  wrapE2eContentKey,
 } from "@tfclaw/protocol";
 import screenshot from "screenshot-desktop";
 import { v4 as uuidv4 } from "uuid";
 import WebSocket from "ws";
 
+interface TmuxTerminalHandle {
+  kind: "tmux";
+  windowId: string;
+  paneId: string;
+  lastCapture: string;
+  // Set when control mode detaches: lastCapture predates the streamed output and must be re-baselined.
+  staleCapture?: boolean;
+  pendingOutput: string;
+  flushTimer?: NodeJS.Timeout;
+}
+
+interface PtyTerminalHandle {
+  kind: "pty";
+  pty: IPty;
+  pendingOutput: string;
+  flushTimer?: NodeJS.Timeout;
+}
+
+type TerminalHandle = TmuxTerminalHandle | PtyTerminalHandle;
+
 interface TerminalSession {
   terminalId: string;
   title: string;
   cwd?: string;
   foregroundCommand?: string;
-  tmuxWindowId: string;
-  tmuxPaneId: string;
+  cols?: number;
+  rows?: number;
+  handle: TerminalHandle;
   outputBuffer: string;
-  lastCapture: string;
+  recording?: TerminalRecording;
+  // Set while the recording file is being opened, so a second start waits for it instead of opening another.
+  recordingStart?: Promise<TerminalRecording>;
   lastCommandSyncAt: number;
   updatedAt: string;
   isActive: boolean;
 }
 
+interface TerminalRecording {
+  path: string;
+  stream: WriteStream;
+  startedAt: number;
+  bytes: number;
+}
+
+type TerminalBackendKind = "tmux" | "pty";
+
+interface TerminalCreateOptions {
+  terminalId: string;
+  windowName: string;
+  cwd: string;
+}
+
+interface CreatedTerminal {
+  handle: TerminalHandle;
+  cols?: number;
+  rows?: number;
+}
+
+interface TerminalHistoryRequest {
+  before?: number;
+  offset: number;
+  lines: number;
+}
+
+// Everything the terminal commands need from a backend; tmux.control commands keep talking to tmux directly.
+interface TerminalBackend {
+  kind: TerminalBackendKind;
+  closedLabel: string;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  create(options: TerminalCreateOptions): Promise<CreatedTerminal>;
+  resize(terminal: TerminalSession, cols: number, rows: number): Promise<void>;
+  close(terminal: TerminalSession): Promise<void>;
+  write(terminal: TerminalSession, data: string): Promise<void>;
+  sync(terminal: TerminalSession, options: SyncOptions): Promise<void>;
+  history(terminal: TerminalSession, request: TerminalHistoryRequest): Promise<TerminalHistoryPage>;
+}
+
 interface ListedWindow {
   sourceId: string;
   label: string;
@@ -59,6 +157,62 @@ type InputAction = { kind: "literal"; text: string } | { kind: "key"; key: strin
 
 type TmuxStreamMode = "auto" | "on" | "off";
 type TmuxProgressCallback = (content: string) => Promise<void>;
+type TmuxCompletionCallback = (completion: CommandCompletion) => void;
+// "pending" until the shell picked the command up, so a pane without working integration falls back to idle detection.
+type ShellCommandProbe = () => Promise<"pending" | "running" | "done">;
+
+interface ShellMarks {
+  startSeq: number;
+  doneSeq: number;
+  exitCode: number;
+  startedAt: number;
+  finishedAt: number;
+}
+
+type TmuxWatchKind = "match" | "exit" | "quiet";
+
+interface TmuxWatch {
+  watchId: string;
+  sessionKey: string;
+  target: string;
+  socket: string;
+  kind: TmuxWatchKind;
+  pattern?: RE2JS;
+  quietMs: number;
+  // Exit watches use the shell-integration done seq when the pane has it, otherwise the foreground command name.
+  doneSeq?: number;
+  command: string;
+  lastCapture: string;
+  lastChangeAt: number;
+}
+
+interface AlertRule {
+  id: string;
+  pattern: string;
+  flags?: string;
+  // Lines kept before and after the matching line.
+  context?: number;
+  cooldownSeconds?: number;
+}
+
+interface CompiledAlertRule extends AlertRule {
+  regex: RE2JS;
+  lastFiredAt: number;
+}
+
+interface PendingAlert {
+  rule: CompiledAlertRule;
+  terminal: TerminalSession;
+  line: string;
+  before: string[];
+  after: string[];
+  timer: NodeJS.Timeout;
+}
+
+interface AlertLineState {
+  partial: string;
+  recent: string[];
+}
 
 interface TmuxControlState {
   enabled: boolean;
@@ -71,6 +225,16 @@ interface TmuxControlState {
   paneBootstrapRequested?: boolean;
 }
 
+interface TmuxControlClient {
+  child: ChildProcess;
+  ready: boolean;
+  inBlock: boolean;
+  lineBuffer: Buffer;
+  decoders: Map<string, StringDecoder>;
+  // Output of panes that are not registered terminals yet, e.g. a window whose new-window call has not returned.
+  unclaimedOutput: Map<string, string>;
+}
+
 interface TmuxPaneRow {
   target: string;
   window: string;
@@ -86,10 +250,39 @@ interface PendingUploadTransfer {
   overwrite: boolean;
   size: number;
   totalChunks: number;
-  chunks: string[];
+  sha256?: string;
+  resumable: boolean;
+  outputPath: string;
+  partPath: string;
+  handle: fs.FileHandle;
+  hash: Hash;
+  receivedChunks: number;
+  receivedBytes: number;
+  ackedChunks: number;
+  ackTimer?: NodeJS.Timeout;
+  queue: Promise<void>;
   createdAt: number;
 }
 
+interface DownloadTransfer {
+  transferId: string;
+  requestId?: string;
+  path: string;
+  size: number;
+  mtimeMs: number;
+  totalChunks: number;
+  resumable: boolean;
+  // Set when path is a directory sent as an archive, which is generated anew for every pass over it.
+  archive?: DownloadArchive;
+  nextChunk: number;
+  ackedChunks: number;
+  hash: Hash;
+  // Bumped by every resume so a superseded send loop stops at its next step.
+  generation: number;
+  wake?: () => void;
+  updatedAt: number;
+}
+
 function sanitizeTmuxName(name: string): string {
   return name
     .trim()
@@ -112,12 +305,36 @@ function parseBoolean(value: string | undefined, defaultValue: boolean): boolean
   return defaultValue;
 }
 
+function parseCapabilityList(value: string | undefined): ProtocolCapability[] {
+  const items = (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  if (items.length === 0) {
+    return [...PROTOCOL_CAPABILITIES];
+  }
+  return items.filter(isProtocolCapability);
+}
+
 const TOKEN = process.env.TFCLAW_TOKEN;
 const RELAY_URL = process.env.TFCLAW_RELAY_URL ?? "ws://127.0.0.1:8787";
 const AGENT_ID = process.env.TFCLAW_AGENT_ID ?? `${os.hostname()}-${process.pid}`;
+const TLS_CERT_PATH = process.env.TFCLAW_TLS_CERT?.trim() ?? "";
+const TLS_KEY_PATH = process.env.TFCLAW_TLS_KEY?.trim() ?? "";
+const TLS_CA_PATH = process.env.TFCLAW_TLS_CA?.trim() ?? "";
+const AGENT_CAPABILITIES = parseCapabilityList(process.env.TFCLAW_AGENT_CAPABILITIES);
+const E2E_SECRET = process.env.TFCLAW_E2E_SECRET ?? "";
 const START_TERMINALS = Number.parseInt(process.env.TFCLAW_START_TERMINALS ?? "1", 10);
 const DEFAULT_CWD = process.env.TFCLAW_DEFAULT_CWD ?? process.cwd();
 const MAX_LOCAL_BUFFER = Number.parseInt(process.env.TFCLAW_MAX_LOCAL_BUFFER ?? "12000", 10);
+const TERMINAL_BACKEND = (process.env.TFCLAW_TERMINAL_BACKEND ?? "auto").trim().toLowerCase();
+const PTY_SHELL =
+  process.env.TFCLAW_PTY_SHELL?.trim() ||
+  (process.platform === "win32" ? process.env.COMSPEC ?? "powershell.exe" : process.env.SHELL ?? "/bin/sh");
+const PTY_SHELL_ARGS = (process.env.TFCLAW_PTY_SHELL_ARGS ?? "").split(/\s+/).filter(Boolean);
+const PTY_COLS = Math.max(20, Math.min(500, Number.parseInt(process.env.TFCLAW_PTY_COLS ?? "120", 10) || 120));
+const PTY_ROWS = Math.max(5, Math.min(200, Number.parseInt(process.env.TFCLAW_PTY_ROWS ?? "32", 10) || 32));
+const OUTPUT_FLUSH_MS = Math.max(10, Math.min(1000, Number.parseInt(process.env.TFCLAW_OUTPUT_FLUSH_MS ?? "50", 10) || 50));
 const TMUX_COMMAND =
   process.env.TFCLAW_TMUX_COMMAND ?? process.env.TFCLAW_TMUX_BINARY ?? (process.platform === "win32" ? "wsl.exe" : "tmux");
 const TMUX_BASE_ARGS = (process.env.TFCLAW_TMUX_BASE_ARGS ?? (process.platform === "win32" ? "-e tmux" : ""))
@@ -132,13 +349,41 @@ const TMUX_CAPTURE_LINES = Number.parseInt(process.env.TFCLAW_TMUX_CAPTURE_LINES
 const TMUX_POLL_MS = Number.parseInt(process.env.TFCLAW_TMUX_POLL_MS ?? "250", 10);
 const TMUX_FOREGROUND_COMMAND_POLL_MS = Number.parseInt(process.env.TFCLAW_TMUX_FOREGROUND_COMMAND_POLL_MS ?? "800", 10);
 const TMUX_MAX_DELTA_CHARS = Number.parseInt(process.env.TFCLAW_TMUX_MAX_DELTA_CHARS ?? "4000", 10);
+const HISTORY_PAGE_DEFAULT_LINES = 200;
+const HISTORY_PAGE_MAX_LINES = 5000;
 const TMUX_SUBMIT_DELAY_MS = Number.parseInt(process.env.TFCLAW_TMUX_SUBMIT_DELAY_MS ?? "60", 10);
+const SHELL_INTEGRATION = parseBoolean(process.env.TFCLAW_SHELL_INTEGRATION, true) && process.platform !== "win32";
 const TMUX_STREAM_POLL_MS = Number.parseInt(process.env.TFCLAW_TMUX_STREAM_POLL_MS ?? "350", 10);
 const TMUX_STREAM_IDLE_MS = Number.parseInt(process.env.TFCLAW_TMUX_STREAM_IDLE_MS ?? "3000", 10);
 const TMUX_STREAM_INITIAL_SILENCE_MS = Number.parseInt(process.env.TFCLAW_TMUX_STREAM_INITIAL_SILENCE_MS ?? "12000", 10);
 const TMUX_STREAM_WINDOW_MS = Number.parseInt(process.env.TFCLAW_TMUX_STREAM_WINDOW_MS ?? "86400000", 10);
+const TMUX_WATCH_POLL_MS = Math.max(
+  250,
+  Math.min(60_000, Number.parseInt(process.env.TFCLAW_TMUX_WATCH_POLL_MS ?? "2000", 10) || 2000),
+);
+const TMUX_WATCH_CAPTURE_LINES = 200;
+const TMUX_WATCH_DEFAULT_QUIET_SECONDS = 60;
+const TMUX_WATCH_MAX_PER_SESSION = 10;
+const TMUX_WATCH_QUEUE_MAX = 100;
+const ALERT_RULES_FILE = (process.env.TFCLAW_ALERT_RULES_FILE ?? "").trim();
+const ALERT_DEFAULT_CONTEXT_LINES = 10;
+const ALERT_MAX_CONTEXT_LINES = 50;
+const ALERT_DEFAULT_COOLDOWN_SECONDS = Math.max(
+  0,
+  Math.min(86_400, Number.parseInt(process.env.TFCLAW_ALERT_COOLDOWN_SECONDS ?? "300", 10) || 300),
+);
+// An alert waits this long for the lines after the match before it is sent with what it has.
+const ALERT_CONTEXT_WAIT_MS = 3000;
+const ALERT_MAX_LINE_CHARS = 2000;
+// Patterns arrive from chat, so they are compiled with RE2 (linear time in the input): a pattern cannot
+// backtrack catastrophically, at the price of backreferences and lookarounds.
+const USER_PATTERN_MAX_CHARS = 200;
 const TMUX_BOOTSTRAP_WINDOW = sanitizeTmuxName(process.env.TFCLAW_TMUX_BOOTSTRAP_WINDOW ?? "__tfclaw_bootstrap__");
 const TMUX_RESET_ON_BOOT = parseBoolean(process.env.TFCLAW_TMUX_RESET_ON_BOOT, true);
+const TMUX_CONTROL_MODE = parseBoolean(process.env.TFCLAW_TMUX_CONTROL_MODE, true);
+const TMUX_CONTROL_START_TIMEOUT_MS = 5000;
+const STREAMED_OUTPUT_CHUNK_CHARS = 32_000;
+const STREAMED_OUTPUT_MAX_PENDING_CHARS = 256_000;
 const TMUX_PERSIST_SESSION_ON_SHUTDOWN = parseBoolean(process.env.TFCLAW_TMUX_PERSIST_SESSION_ON_SHUTDOWN, false);
 const FILE_TRANSFER_ROOT = path.resolve(process.env.TFCLAW_FILE_TRANSFER_ROOT ?? path.join(DEFAULT_CWD, "tfclaw-files"));
 const FILE_TRANSFER_CHUNK_BYTES = Math.max(
@@ -147,12 +392,54 @@ const FILE_TRANSFER_CHUNK_BYTES = Math.max(
 );
 const FILE_TRANSFER_MAX_BYTES = Math.max(
   1 * 1024 * 1024,
-  Math.min(512 * 1024 * 1024, Number.parseInt(process.env.TFCLAW_FILE_TRANSFER_MAX_BYTES ?? "52428800", 10) || 52428800),
+  Math.min(8 * 1024 * 1024 * 1024, Number.parseInt(process.env.TFCLAW_FILE_TRANSFER_MAX_BYTES ?? "52428800", 10) || 52428800),
 );
 const FILE_UPLOAD_TIMEOUT_MS = Math.max(
   60_000,
   Math.min(30 * 60_000, Number.parseInt(process.env.TFCLAW_FILE_UPLOAD_TIMEOUT_MS ?? "600000", 10) || 600000),
 );
+const FILE_TRANSFER_WINDOW_CHUNKS = Math.max(
+  1,
+  Math.min(256, Number.parseInt(process.env.TFCLAW_FILE_TRANSFER_WINDOW_CHUNKS ?? "16", 10) || 16),
+);
+const FILE_TRANSFER_ACK_TIMEOUT_MS = Math.max(
+  1000,
+  Math.min(10 * 60_000, Number.parseInt(process.env.TFCLAW_FILE_TRANSFER_ACK_TIMEOUT_MS ?? "30000", 10) || 30000),
+);
+// Downloads stop reading the file while this much is still queued on the relay socket, and never send chunks
+// faster than the relay's transfer budget allows.
+const FILE_TRANSFER_MAX_BUFFERED_BYTES = Math.max(1024 * 1024, 16 * FILE_TRANSFER_CHUNK_BYTES);
+const FILE_TRANSFER_MAX_CHUNKS_PER_SECOND = Math.max(
+  1,
+  Math.min(1000, Number.parseInt(process.env.TFCLAW_FILE_TRANSFER_MAX_CHUNKS_PER_SECOND ?? "200", 10) || 200),
+);
+// Upload acks are batched so a long upload stays inside the relay's per-socket message budget.
+const FILE_TRANSFER_ACK_EVERY_CHUNKS = 4;
+const FILE_TRANSFER_ACK_DELAY_MS = 250;
+const FILE_UPLOAD_MAX_BYTES = Math.max(
+  1,
+  Math.min(FILE_TRANSFER_MAX_BYTES, Number.parseInt(process.env.TFCLAW_FILE_UPLOAD_MAX_BYTES ?? "", 10) || FILE_TRANSFER_MAX_BYTES),
+);
+const FILE_DOWNLOAD_MAX_BYTES = Math.max(
+  1,
+  Math.min(FILE_TRANSFER_MAX_BYTES, Number.parseInt(process.env.TFCLAW_FILE_DOWNLOAD_MAX_BYTES ?? "", 10) || FILE_TRANSFER_MAX_BYTES),
+);
+const FILE_ALLOWED_ROOTS = (process.env.TFCLAW_FILE_ALLOWED_ROOTS ?? "")
+  .split(path.delimiter)
+  .map((item) => item.trim())
+  .filter(Boolean)
+  .map((item) => path.resolve(item));
+const FILE_DENIED_GLOBS = compileGlobs((process.env.TFCLAW_FILE_DENIED_GLOBS ?? ".ssh,.gnupg,.aws").split(","));
+const FILE_READ_ONLY = parseBoolean(process.env.TFCLAW_FILE_READ_ONLY, false);
+const MACROS_FILE = (process.env.TFCLAW_MACROS_FILE ?? "").trim();
+const MACRO_MAX_STEPS = 20;
+const MACRO_MAX_PER_SESSION = 50;
+const MACRO_NAME_PATTERN = /^[\w.-]{1,32}$/;
+const RECORDINGS_DIR = path.resolve(process.env.TFCLAW_RECORDINGS_DIR ?? path.join(FILE_TRANSFER_ROOT, "recordings"));
+const RECORDING_MAX_BYTES = Math.max(
+  1024 * 1024,
+  Math.min(FILE_TRANSFER_MAX_BYTES, Number.parseInt(process.env.TFCLAW_RECORDING_MAX_BYTES ?? "", 10) || 100 * 1024 * 1024),
+);
 
 if (!TOKEN) {
   console.error("Missing TFCLAW_TOKEN. Example: TFCLAW_TOKEN=demo-token npm run dev --workspace @tfclaw/terminal-agent");
@@ -160,6 +447,14 @@ if (!TOKEN) {
 }
 
 let ws: WebSocket | undefined;
+let e2eKeyPair: E2eKeyPair | undefined;
+let e2eContentKey: E2eContentKey | undefined;
+// Set once the relay acknowledges agent.register with binary.frames in the negotiated capabilities.
+let binaryFrames = false;
+let tmuxAvailable = false;
+let ptyModule: typeof import("node-pty") | undefined;
+let tmuxControlClient: TmuxControlClient | undefined;
+let tmuxControlUnavailable = !TMUX_CONTROL_MODE;
 const terminals = new Map<string, TerminalSession>();
 let reconnectAttempts = 0;
 let closing = false;
@@ -167,7 +462,22 @@ let syncLoopBusy = false;
 let syncTimer: NodeJS.Timeout | undefined;
 const captureErrorAt = new Map<string, number>();
 const tmuxControlStateBySession = new Map<string, TmuxControlState>();
+const tmuxWatches = new Map<string, TmuxWatch>();
+// Watch events that fired while the relay was unreachable; sent once the agent is registered again.
+const queuedWatchEvents: AgentWatchEvent[] = [];
+let tmuxWatchSeq = 0;
+let tmuxWatchBusy = false;
+let tmuxWatchTimer: NodeJS.Timeout | undefined;
+const alertRules = new Map<string, CompiledAlertRule>();
+const alertLineStates = new Map<string, AlertLineState>();
+const pendingAlerts = new Set<PendingAlert>();
+// Macro steps by name, per session key, so every chat and the mobile app keep their own set.
+const macrosBySession = new Map<string, Map<string, string[]>>();
+// Recent text the agent typed into terminals. Its echo is input, not output, so watches and alert rules skip it.
+const recentTypedInput: string[] = [];
+let alertSeq = 0;
 const uploadTransfers = new Map<string, PendingUploadTransfer>();
+const downloadTransfers = new Map<string, DownloadTransfer>();
 
 const TMUX_STREAM_COMMANDS = new Set([
   "bun",
@@ -182,6 +492,18 @@ const TMUX_STREAM_COMMANDS = new Set([
   "yarn",
 ]);
 
+const TMUX_SHELL_COMMANDS = new Set([
+  "ash",
+  "bash",
+  "csh",
+  "dash",
+  "fish",
+  "ksh",
+  "sh",
+  "tcsh",
+  "zsh",
+]);
+
 const TMUX_SHORT_SUBCOMMANDS = new Set([
   "status",
   "sessions",
@@ -197,6 +519,8 @@ const TMUX_SHORT_SUBCOMMANDS = new Set([
   "wait",
   "stream",
   "capture",
+  "size",
+  "watch",
   "key",
   "keys",
   "sendkey",
@@ -207,6 +531,70 @@ const TMUX_SHORT_SUBCOMMANDS = new Set([
   "?",
 ]);
 
+// Both scripts record the command sequence number, exit code and start/end epoch seconds as tmux pane options.
+const SHELL_INTEGRATION_BASH = String.raw`
+[ -f "$HOME/.bashrc" ] && . "$HOME/.bashrc"
+__tfclaw_seq=0
+__tfclaw_at_prompt=
+__tfclaw_mark() {
+  [ -n "$TMUX_PANE" ] && command tmux set-option -p -t "$TMUX_PANE" "$1" "$2" >/dev/null 2>&1
+}
+__tfclaw_preexec() {
+  [ -n "$__tfclaw_at_prompt" ] || return 0
+  case "$BASH_COMMAND" in __tfclaw_precmd*) return 0 ;; esac
+  __tfclaw_at_prompt=
+  __tfclaw_seq=$((__tfclaw_seq + 1))
+  __tfclaw_started=$(printf '%(%s)T' -1)
+  __tfclaw_mark @tfclaw_cmd_start "$__tfclaw_seq $__tfclaw_started"
+}
+__tfclaw_precmd() {
+  local exit_status=$?
+  if [ -z "$__tfclaw_at_prompt" ] && [ "$__tfclaw_seq" -gt 0 ]; then
+    __tfclaw_mark @tfclaw_cmd_done "$__tfclaw_seq $exit_status $__tfclaw_started $(printf '%(%s)T' -1)"
+  fi
+  __tfclaw_at_prompt=
+}
+__tfclaw_ready() {
+  __tfclaw_at_prompt=1
+}
+trap '__tfclaw_preexec' DEBUG
+# precmd runs first to see the command's $?; the rest of PROMPT_COMMAND must not count as a new command.
+PROMPT_COMMAND="__tfclaw_precmd
+$PROMPT_COMMAND
+__tfclaw_ready"
+__tfclaw_mark @tfclaw_shell bash
+`;
+
+const SHELL_INTEGRATION_ZSHENV = String.raw`
+__tfclaw_home="$TFCLAW_ORIGINAL_ZDOTDIR"
+[ -n "$__tfclaw_home" ] || __tfclaw_home="$HOME"
+[ -f "$__tfclaw_home/.zshenv" ] && . "$__tfclaw_home/.zshenv"
+`;
+
+const SHELL_INTEGRATION_ZSHRC = String.raw`
+ZDOTDIR="$__tfclaw_home"
+unset TFCLAW_ORIGINAL_ZDOTDIR __tfclaw_home
+[ -f "$ZDOTDIR/.zshrc" ] && . "$ZDOTDIR/.zshrc"
+zmodload zsh/datetime 2>/dev/null
+typeset -g __tfclaw_seq=0 __tfclaw_started=
+__tfclaw_mark() {
+  [[ -n "$TMUX_PANE" ]] && command tmux set-option -p -t "$TMUX_PANE" "$1" "$2" >/dev/null 2>&1
+}
+__tfclaw_preexec() {
+  (( __tfclaw_seq += 1 ))
+  __tfclaw_started=$EPOCHSECONDS
+  __tfclaw_mark @tfclaw_cmd_start "$__tfclaw_seq $__tfclaw_started"
+}
+__tfclaw_precmd() {
+  local exit_status=$?
+  [[ -n "$__tfclaw_started" ]] && __tfclaw_mark @tfclaw_cmd_done "$__tfclaw_seq $exit_status $__tfclaw_started $EPOCHSECONDS"
+  __tfclaw_started=
+}
+preexec_functions+=(__tfclaw_preexec)
+precmd_functions=(__tfclaw_precmd $precmd_functions)
+__tfclaw_mark @tfclaw_shell zsh
+`;
+
 const LIST_WINDOWS_PS_SCRIPT = String.raw`
 $ErrorActionPreference = 'Stop'
 Add-Type -TypeDefinition @"
@@ -315,17 +703,34 @@ function platformName(): AgentDescriptor["platform"] {
 function toRelayWsUrl(base: string): string {
   const parsed = new URL(base);
   parsed.searchParams.set("role", "agent");
-  parsed.searchParams.set("token", TOKEN!);
   return parsed.toString();
 }
 
+// Files are read on every connect so a renewed client certificate is picked up on the next reconnect.
+function relayTlsOptions(): WebSocket.ClientOptions {
+  const options: WebSocket.ClientOptions = {};
+  if (TLS_CERT_PATH && TLS_KEY_PATH) {
+    options.cert = readFileSync(TLS_CERT_PATH);
+    options.key = readFileSync(TLS_KEY_PATH);
+  }
+  if (TLS_CA_PATH) {
+    options.ca = readFileSync(TLS_CA_PATH);
+  }
+  return options;
+}
+
 function trimTail(text: string, maxChars: number): string {
   return text.length > maxChars ? text.slice(-maxChars) : text;
 }
 
 function send(message: RelayMessage): void {
   if (ws && ws.readyState === WebSocket.OPEN) {
-    ws.send(jsonStringify(message));
+    // The agentId is sealed along with the message, so it has to be the one the relay tags our messages with.
+    const outgoing = e2eContentKey && isSealableMessage(message)
+      ? sealRelayMessage({ ...message, agentId: AGENT_ID } as SealableMessage, e2eContentKey)
+      : message;
+    const split = binaryFrames ? splitBinaryPayload(outgoing) : undefined;
+    ws.send(split ? encodeBinaryFrame(split.header, split.data) : jsonStringify(outgoing));
   }
 }
 
@@ -348,6 +753,9 @@ function publishRegister(): void {
       platform: platformName(),
       hostname: os.hostname(),
       connectedAt: nowIso(),
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: tmuxAvailable ? AGENT_CAPABILITIES : AGENT_CAPABILITIES.filter((capability) => capability !== "tmux.control"),
+      e2e: e2eKeyPair && e2eContentKey ? { publicKey: e2eKeyPair.publicKey, keyId: e2eContentKey.keyId } : undefined,
     },
   });
 }
@@ -362,6 +770,9 @@ function publishTerminalList(): void {
         title: terminal.title,
         cwd: terminal.cwd,
         foregroundCommand: terminal.foregroundCommand,
+        cols: terminal.cols,
+        rows: terminal.rows,
+        recording: terminal.recording ? true : undefined,
         isActive: terminal.isActive,
         updatedAt: terminal.updatedAt,
       })),
@@ -373,6 +784,8 @@ function emitTerminalChunk(terminal: TerminalSession, chunk: string): void {
   if (!chunk) {
     return;
   }
+  evaluateAlertRules(terminal, chunk);
+  recordTerminalEvent(terminal, "o", chunk);
   terminal.updatedAt = nowIso();
   send({
     type: "agent.terminal_output",
@@ -525,12 +938,18 @@ async function runTmuxOrThrow(
   return options.trimOutput === false ? result.stdout : result.stdout.trim();
 }
 
-async function runTmuxWithOptionalCwd(args: string[], cwd?: string, trimOutput = true): Promise<string> {
+// shellCommand goes last because tmux stops parsing options at the command.
+async function runTmuxWithOptionalCwd(
+  args: string[],
+  cwd?: string,
+  trimOutput = true,
+  shellCommand: string[] = [],
+): Promise<string> {
   if (!cwd) {
-    return runTmuxOrThrow(args, { trimOutput });
+    return runTmuxOrThrow([...args, ...shellCommand], { trimOutput });
   }
 
-  const withCwd = [...args, "-c", cwd];
+  const withCwd = [...args, "-c", cwd, ...shellCommand];
   const withCwdResult = await runTmuxRaw(withCwd);
   if (!withCwdResult.spawnError && withCwdResult.code === 0) {
     return trimOutput ? withCwdResult.stdout.trim() : withCwdResult.stdout;
@@ -538,7 +957,7 @@ async function runTmuxWithOptionalCwd(args: string[], cwd?: string, trimOutput =
 
   const withCwdDetail = commandDetail(withCwdResult, TMUX_COMMAND, tmuxArgs(withCwd)).toLowerCase();
   if (withCwdDetail.includes("unknown option") && withCwdDetail.includes("-c")) {
-    return runTmuxOrThrow(args, { trimOutput });
+    return runTmuxOrThrow([...args, ...shellCommand], { trimOutput });
   }
 
   throw new Error(commandDetail(withCwdResult, TMUX_COMMAND, tmuxArgs(withCwd)));
@@ -548,6 +967,11 @@ async function ensureTmuxAvailable(): Promise<void> {
   await runTmuxOrThrow(["-V"]);
 }
 
+async function isTmuxAvailable(): Promise<boolean> {
+  const result = await runTmuxRaw(["-V"]);
+  return !result.spawnError && result.code === 0;
+}
+
 async function tmuxHasSession(): Promise<boolean> {
   const result = await runTmuxRaw(["has-session", "-t", TMUX_SESSION]);
   if (result.spawnError) {
@@ -599,13 +1023,13 @@ function computeTmuxDelta(previous: string, next: string): string {
   return `\n[tmux redraw]\n${redrawTail}\n`;
 }
 
-async function capturePaneText(terminal: TerminalSession): Promise<string | null> {
+async function capturePaneText(handle: TmuxTerminalHandle): Promise<string | null> {
   const args = [
     "capture-pane",
     "-p",
     "-e",
     "-t",
-    terminal.tmuxPaneId,
+    handle.paneId,
     "-S",
     `-${Math.max(1, TMUX_CAPTURE_LINES)}`,
   ];
@@ -625,8 +1049,8 @@ async function capturePaneText(terminal: TerminalSession): Promise<string | null
   return result.stdout;
 }
 
-async function capturePaneForegroundCommand(terminal: TerminalSession): Promise<string | undefined | null> {
-  const args = ["display-message", "-p", "-t", terminal.tmuxPaneId, "#{pane_current_command}"];
+async function capturePaneForegroundCommand(handle: TmuxTerminalHandle): Promise<string | undefined | null> {
+  const args = ["display-message", "-p", "-t", handle.paneId, "#{pane_current_command}"];
   const result = await runTmuxRaw(args);
 
   if (result.spawnError) {
@@ -652,39 +1076,78 @@ function markTerminalClosed(terminalId: string, reason: string): void {
 
   terminal.isActive = false;
   terminal.updatedAt = nowIso();
-  const note = `\n[tmux pane closed: ${reason}]\n`;
+  const note = `\n[${terminalBackend.closedLabel} closed: ${reason}]\n`;
   appendTerminalNotice(terminal, note);
   publishTerminalList();
+  releaseTerminalAlerts(terminal);
+  void stopTerminalRecording(terminal);
 }
 
 async function syncTerminalOutput(terminal: TerminalSession, options: SyncOptions = {}): Promise<void> {
   if (!terminal.isActive) {
     return;
   }
+  await terminalBackend.sync(terminal, options);
+}
 
-  const capture = await capturePaneText(terminal);
-  if (capture === null) {
-    markTerminalClosed(terminal.terminalId, "pane not found");
-    return;
+function requireTmuxHandle(terminal: TerminalSession): TmuxTerminalHandle {
+  if (terminal.handle.kind !== "tmux") {
+    throw new Error(`${terminal.terminalId} is not a tmux terminal`);
   }
+  return terminal.handle;
+}
 
-  let commandChanged = false;
+// Returns null when the pane is gone, otherwise whether the foreground command changed.
+async function refreshTmuxForegroundCommand(terminal: TerminalSession, handle: TmuxTerminalHandle): Promise<boolean | null> {
   const now = Date.now();
-  if (now - terminal.lastCommandSyncAt >= Math.max(200, TMUX_FOREGROUND_COMMAND_POLL_MS)) {
-    terminal.lastCommandSyncAt = now;
-    const foreground = await capturePaneForegroundCommand(terminal);
-    if (foreground === null) {
-      markTerminalClosed(terminal.terminalId, "pane not found");
-      return;
+  if (now - terminal.lastCommandSyncAt < Math.max(200, TMUX_FOREGROUND_COMMAND_POLL_MS)) {
+    return false;
+  }
+  terminal.lastCommandSyncAt = now;
+  const foreground = await capturePaneForegroundCommand(handle);
+  if (foreground === null) {
+    return null;
+  }
+  if (foreground === terminal.foregroundCommand) {
+    return false;
+  }
+  terminal.foregroundCommand = foreground;
+  return true;
+}
+
+async function syncTmuxTerminal(terminal: TerminalSession, options: SyncOptions): Promise<void> {
+  const handle = requireTmuxHandle(terminal);
+  if (tmuxControlClient?.ready) {
+    // Control mode pushes output as %output notifications; only claim what arrived before registration.
+    const unclaimed = tmuxControlClient.unclaimedOutput.get(handle.paneId);
+    if (unclaimed) {
+      tmuxControlClient.unclaimedOutput.delete(handle.paneId);
+      queueStreamedOutput(terminal.terminalId, handle, unclaimed);
     }
-    if (foreground !== terminal.foregroundCommand) {
-      terminal.foregroundCommand = foreground;
-      commandChanged = true;
+    const changed = await refreshTmuxForegroundCommand(terminal, handle);
+    if (changed === null) {
+      markTerminalClosed(terminal.terminalId, "pane not found");
+    } else if (changed) {
+      publishTerminalList();
     }
+    return;
+  }
+
+  const capture = await capturePaneText(handle);
+  if (capture === null) {
+    markTerminalClosed(terminal.terminalId, "pane not found");
+    return;
+  }
+
+  const commandChanged = await refreshTmuxForegroundCommand(terminal, handle);
+  if (commandChanged === null) {
+    markTerminalClosed(terminal.terminalId, "pane not found");
+    return;
   }
 
-  const delta = computeTmuxDelta(terminal.lastCapture, capture);
-  terminal.lastCapture = capture;
+  const delta = handle.staleCapture ? "" : computeTmuxDelta(handle.lastCapture, capture);
+  handle.staleCapture = false;
+  handle.lastCapture = capture;
   setTerminalSnapshot(terminal, capture);
 
   if (commandChanged) {
@@ -755,18 +1218,15 @@ function sanitizeWindowName(title: string): string {
   return sanitized || `terminal_${Date.now()}`;
 }
 
-async function createTerminal(title?: string, cwd?: string): Promise<string> {
+async function createTmuxTerminal({ windowName, cwd }: TerminalCreateOptions): Promise<CreatedTerminal> {
   await ensureTmuxSession();
-
-  const terminalId = uuidv4();
-  const requestedCwd = cwd ?? DEFAULT_CWD;
-  const actualCwd = normalizeTmuxCwd(requestedCwd);
-  const displayTitle = title?.trim() || `terminal-${terminals.size + 1}`;
-  const windowName = sanitizeWindowName(displayTitle);
+  await ensureTmuxControlClient();
 
   const created = await runTmuxWithOptionalCwd(
-    ["new-window", "-P", "-F", "#{window_id} #{pane_id}", "-t", TMUX_SESSION, "-n", windowName],
-    actualCwd,
+    ["new-window", "-P", "-F", "#{window_id} #{pane_id} #{window_width} #{window_height}", "-t", TMUX_SESSION, "-n", windowName],
+    normalizeTmuxCwd(cwd),
+    true,
+    await shellIntegrationCommand(),
   );
   const parts = created.split(/\s+/).filter(Boolean);
   const windowId = parts[0];
@@ -775,16 +1235,261 @@ async function createTerminal(title?: string, cwd?: string): Promise<string> {
   if (!windowId || !paneId) {
     throw new Error(`unexpected tmux new-window output: ${JSON.stringify(created)}`);
   }
+  return {
+    handle: { kind: "tmux", windowId, paneId, lastCapture: "", pendingOutput: "" },
+    cols: Number.parseInt(parts[2] ?? "", 10) || undefined,
+    rows: Number.parseInt(parts[3] ?? "", 10) || undefined,
+  };
+}
+
+// resize-window needs tmux 2.9+; older servers can only resize the pane within the window.
+async function resizeTmuxTerminal(terminal: TerminalSession, cols: number, rows: number): Promise<void> {
+  const handle = requireTmuxHandle(terminal);
+  const size = ["-x", String(cols), "-y", String(rows)];
+  const result = await runTmuxRaw(["resize-window", "-t", handle.windowId, ...size]);
+  if (result.spawnError || result.code !== 0) {
+    await runTmuxOrThrow(["resize-pane", "-t", handle.paneId, ...size]);
+  }
+}
+
+async function readTmuxTerminalHistory(terminal: TerminalSession, request: TerminalHistoryRequest): Promise<TerminalHistoryPage> {
+  return readTmuxHistory(requireTmuxHandle(terminal).paneId, request);
+}
+
+async function closeTmuxTerminal(terminal: TerminalSession): Promise<void> {
+  const handle = requireTmuxHandle(terminal);
+  clearStreamedOutput(handle);
+  const result = await runTmuxRaw(["kill-window", "-t", handle.windowId]);
+  if (result.spawnError) {
+    throw new Error(commandDetail(result, TMUX_COMMAND, tmuxArgs(["kill-window", "-t", handle.windowId])));
+  }
+  if (result.code !== 0) {
+    const detail = `${result.stderr}\n${result.stdout}`.toLowerCase();
+    if (!detail.includes("can't find window")) {
+      throw new Error(commandDetail(result, TMUX_COMMAND, tmuxArgs(["kill-window", "-t", handle.windowId])));
+    }
+  }
+}
+
+// tmux escapes bytes below 0x20 and the backslash itself as \ooo in %output lines.
+function decodeTmuxControlData(data: Buffer): Buffer {
+  const decoded = Buffer.alloc(data.length);
+  let length = 0;
+  for (let index = 0; index < data.length; index += 1) {
+    const byte = data[index];
+    if (byte === 0x5c && index + 3 < data.length && /^[0-7]{3}$/.test(data.toString("latin1", index + 1, index + 4))) {
+      decoded[length] = Number.parseInt(data.toString("latin1", index + 1, index + 4), 8);
+      index += 3;
+    } else {
+      decoded[length] = byte;
+    }
+    length += 1;
+  }
+  return decoded.subarray(0, length);
+}
+
+function findTmuxTerminal(predicate: (handle: TmuxTerminalHandle) => boolean): TerminalSession | undefined {
+  for (const terminal of terminals.values()) {
+    if (terminal.handle.kind === "tmux" && predicate(terminal.handle)) {
+      return terminal;
+    }
+  }
+  return undefined;
+}
+
+function handleTmuxControlLine(client: TmuxControlClient, line: Buffer): void {
+  const text = line.toString("latin1");
+  if (text.startsWith("%begin ")) {
+    client.inBlock = true;
+    return;
+  }
+  if (text.startsWith("%end ") || text.startsWith("%error ")) {
+    client.inBlock = false;
+    client.ready ||= text.startsWith("%end ");
+    return;
+  }
+  if (client.inBlock) {
+    return;
+  }
+
+  if (text.startsWith("%output ")) {
+    const paneEnd = text.indexOf(" ", 8);
+    if (paneEnd < 0) {
+      return;
+    }
+    const paneId = text.slice(8, paneEnd);
+    let decoder = client.decoders.get(paneId);
+    if (!decoder) {
+      decoder = new StringDecoder("utf8");
+      client.decoders.set(paneId, decoder);
+    }
+    const chunk = decoder.write(decodeTmuxControlData(line.subarray(paneEnd + 1)));
+    if (!chunk) {
+      return;
+    }
+    const terminal = findTmuxTerminal((handle) => handle.paneId === paneId);
+    if (terminal) {
+      queueStreamedOutput(terminal.terminalId, terminal.handle, chunk);
+    } else {
+      const previous = client.unclaimedOutput.get(paneId) ?? "";
+      client.unclaimedOutput.set(paneId, trimTail(`${previous}${chunk}`, MAX_LOCAL_BUFFER));
+    }
+    return;
+  }
+
+  const windowClose = /^%(?:unlinked-)?window-close (@\d+)/.exec(text);
+  if (windowClose) {
+    const terminal = findTmuxTerminal((handle) => handle.windowId === windowClose[1]);
+    if (terminal) {
+      const paneId = requireTmuxHandle(terminal).paneId;
+      client.decoders.delete(paneId);
+      client.unclaimedOutput.delete(paneId);
+      flushStreamedOutput(terminal.terminalId, terminal.handle);
+      markTerminalClosed(terminal.terminalId, "window closed");
+    }
+    // The notification only names the window, so drop state of any other pane that no longer exists.
+    void pruneTmuxControlPanes(client);
+  }
+}
+
+async function pruneTmuxControlPanes(client: TmuxControlClient): Promise<void> {
+  const result = await runTmuxRaw(["list-panes", "-s", "-t", TMUX_SESSION, "-F", "#{pane_id}"]);
+  if (result.spawnError || result.code !== 0) {
+    return;
+  }
+  const livePanes = new Set(result.stdout.split("\n").map((line) => line.trim()).filter(Boolean));
+  for (const paneId of [...client.decoders.keys(), ...client.unclaimedOutput.keys()]) {
+    if (!livePanes.has(paneId)) {
+      client.decoders.delete(paneId);
+      client.unclaimedOutput.delete(paneId);
+    }
+  }
+}
+
+// Re-baseline every tmux terminal so the first capture-pane poll does not replay the whole screen.
+async function refreshTmuxCaptures(): Promise<void> {
+  const handles: TmuxTerminalHandle[] = [];
+  for (const terminal of terminals.values()) {
+    if (terminal.handle.kind === "tmux" && terminal.isActive) {
+      flushStreamedOutput(terminal.terminalId, terminal.handle);
+      terminal.handle.staleCapture = true;
+      handles.push(terminal.handle);
+    }
+  }
+  await Promise.all(handles.map(async (handle) => {
+    const capture = await capturePaneText(handle).catch(() => null);
+    if (capture !== null && handle.staleCapture) {
+      handle.lastCapture = capture;
+      handle.staleCapture = false;
+    }
+  }));
+}
+
+function startTmuxControlClient(): Promise<boolean> {
+  return new Promise((resolve) => {
+    const child = spawn(TMUX_COMMAND, tmuxArgs(["-C", "attach-session", "-t", TMUX_SESSION]), {
+      stdio: ["pipe", "pipe", "pipe"],
+      windowsHide: true,
+    });
+    const client: TmuxControlClient = {
+      child,
+      ready: false,
+      inBlock: false,
+      lineBuffer: Buffer.alloc(0),
+      decoders: new Map(),
+      unclaimedOutput: new Map(),
+    };
+    let settled = false;
+    const settle = (ok: boolean) => {
+      if (!settled) {
+        settled = true;
+        clearTimeout(timer);
+        resolve(ok);
+      }
+    };
+    const timer = setTimeout(() => {
+      child.kill();
+      settle(false);
+    }, TMUX_CONTROL_START_TIMEOUT_MS);
+
+    tmuxControlClient = client;
+    child.stdout?.on("data", (data: Buffer) => {
+      let buffer = Buffer.concat([client.lineBuffer, data]);
+      let newline = buffer.indexOf(0x0a);
+      while (newline >= 0) {
+        handleTmuxControlLine(client, buffer.subarray(0, newline));
+        buffer = buffer.subarray(newline + 1);
+        newline = buffer.indexOf(0x0a);
+      }
+      client.lineBuffer = buffer;
+      if (client.ready) {
+        settle(true);
+      }
+    });
+    child.on("error", () => settle(false));
+    child.on("close", () => {
+      settle(false);
+      if (tmuxControlClient !== client) {
+        return;
+      }
+      tmuxControlClient = undefined;
+      if (client.ready && !closing) {
+        console.warn("[terminal-agent] tmux control mode detached, falling back to capture-pane polling");
+        void refreshTmuxCaptures();
+      }
+    });
+  });
+}
+
+async function ensureTmuxControlClient(): Promise<void> {
+  if (tmuxControlUnavailable || tmuxControlClient) {
+    return;
+  }
+  if (!await startTmuxControlClient()) {
+    tmuxControlUnavailable = true;
+    console.warn("[terminal-agent] tmux control mode is unavailable, polling capture-pane instead");
+  }
+}
+
+function stopTmuxControlClient(): void {
+  const client = tmuxControlClient;
+  tmuxControlClient = undefined;
+  if (client) {
+    client.child.stdin?.end();
+    client.child.kill();
+  }
+}
+
+async function startTmuxBackend(): Promise<void> {
+  if (TMUX_RESET_ON_BOOT) {
+    await killTmuxSessionSilently();
+  }
+  await ensureTmuxSession();
+  await ensureTmuxControlClient();
+}
+
+async function stopTmuxBackend(): Promise<void> {
+  stopTmuxControlClient();
+  if (!TMUX_PERSIST_SESSION_ON_SHUTDOWN) {
+    await killTmuxSessionSilently();
+  }
+}
+
+async function createTerminal(title?: string, cwd?: string): Promise<string> {
+  const terminalId = uuidv4();
+  const requestedCwd = cwd ?? DEFAULT_CWD;
+  const displayTitle = title?.trim() || `terminal-${terminals.size + 1}`;
+  const created = await terminalBackend.create({ terminalId, windowName: sanitizeWindowName(displayTitle), cwd: requestedCwd });
 
   const terminal: TerminalSession = {
     terminalId,
     title: displayTitle,
     cwd: requestedCwd,
     foregroundCommand: undefined,
-    tmuxWindowId: windowId,
-    tmuxPaneId: paneId,
+    cols: created.cols,
+    rows: created.rows,
+    handle: created.handle,
     outputBuffer: "",
-    lastCapture: "",
     lastCommandSyncAt: 0,
     updatedAt: nowIso(),
     isActive: true,
@@ -797,6 +1502,26 @@ async function createTerminal(title?: string, cwd?: string): Promise<string> {
   return terminalId;
 }
 
+async function resizeTerminal(terminalId: string, colsRaw: number, rowsRaw: number): Promise<boolean> {
+  const terminal = terminals.get(terminalId);
+  if (!terminal || !terminal.isActive) {
+    return false;
+  }
+
+  const cols = Math.max(10, Math.min(500, Math.trunc(colsRaw)));
+  const rows = Math.max(5, Math.min(200, Math.trunc(rowsRaw)));
+  if (cols === terminal.cols && rows === terminal.rows) {
+    return true;
+  }
+  await terminalBackend.resize(terminal, cols, rows);
+  terminal.cols = cols;
+  terminal.rows = rows;
+  terminal.updatedAt = nowIso();
+  recordTerminalEvent(terminal, "r", `${cols}x${rows}`);
+  publishTerminalList();
+  return true;
+}
+
 async function closeTerminal(terminalId: string): Promise<boolean> {
   const terminal = terminals.get(terminalId);
   if (!terminal) {
@@ -805,16 +1530,9 @@ async function closeTerminal(terminalId: string): Promise<boolean> {
 
   terminal.isActive = false;
   terminal.updatedAt = nowIso();
-  const result = await runTmuxRaw(["kill-window", "-t", terminal.tmuxWindowId]);
-  if (result.spawnError) {
-    throw new Error(commandDetail(result, TMUX_COMMAND, tmuxArgs(["kill-window", "-t", terminal.tmuxWindowId])));
-  }
-  if (result.code !== 0) {
-    const detail = `${result.stderr}\n${result.stdout}`.toLowerCase();
-    if (!detail.includes("can't find window")) {
-      throw new Error(commandDetail(result, TMUX_COMMAND, tmuxArgs(["kill-window", "-t", terminal.tmuxWindowId])));
-    }
-  }
+  releaseTerminalAlerts(terminal);
+  await stopTerminalRecording(terminal);
+  await terminalBackend.close(terminal);
 
   publishTerminalList();
   return true;
@@ -899,53 +1617,258 @@ function parseInputActions(data: string): InputAction[] {
   return actions;
 }
 
-async function sendInputAction(terminal: TerminalSession, action: InputAction): Promise<void> {
+async function sendInputAction(handle: TmuxTerminalHandle, action: InputAction): Promise<void> {
   if (action.kind === "literal") {
     if (action.text.length === 0) {
       return;
     }
-    await runTmuxOrThrow(["send-keys", "-t", terminal.tmuxPaneId, "-l", action.text]);
+    await runTmuxOrThrow(["send-keys", "-t", handle.paneId, "-l", action.text]);
     return;
   }
-  await runTmuxOrThrow(["send-keys", "-t", terminal.tmuxPaneId, action.key]);
+  await runTmuxOrThrow(["send-keys", "-t", handle.paneId, action.key]);
 }
 
-async function writeInput(terminalId: string, data: string): Promise<boolean> {
-  const terminal = terminals.get(terminalId);
-  if (!terminal || !terminal.isActive) {
-    return false;
-  }
-
+async function writeTmuxInput(terminal: TerminalSession, data: string): Promise<void> {
+  const handle = requireTmuxHandle(terminal);
   const actions = parseInputActions(data);
   for (const action of actions) {
-    await sendInputAction(terminal, action);
+    await sendInputAction(handle, action);
   }
-  terminal.updatedAt = nowIso();
-  return true;
 }
 
-async function runPowerShell(command: string): Promise<string> {
-  if (process.platform !== "win32") {
-    throw new Error("PowerShell is only available on Windows");
-  }
+const PTY_SHORTCUT_INPUT: Record<string, string> = {
+  __CTRL_C__: "\x03",
+  __CTRL_D__: "\x04",
+  __CTRL_Z__: "\x1a",
+  __ENTER__: "\r",
+};
 
-  const result = await runCommand("powershell.exe", ["-NoProfile", "-NonInteractive", "-Command", command], {
-    windowsHide: true,
-  });
-  if (result.spawnError || result.code !== 0) {
-    throw new Error(commandDetail(result, "powershell.exe", ["-NoProfile", "-NonInteractive", "-Command", command]));
+function requirePtyHandle(terminal: TerminalSession): PtyTerminalHandle {
+  if (terminal.handle.kind !== "pty") {
+    throw new Error(`${terminal.terminalId} is not a pty terminal`);
   }
-  return result.stdout.trim();
+  return terminal.handle;
 }
 
-function parseJsonArray<T>(raw: string): T[] {
-  if (!raw) {
-    return [];
+async function startPtyBackend(): Promise<void> {
+  try {
+    ptyModule = await import("node-pty");
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new Error(`the pty terminal backend needs the optional node-pty package: ${msg}`);
   }
+}
 
-  const parsed: unknown = JSON.parse(raw);
-  if (Array.isArray(parsed)) {
-    return parsed as T[];
+async function stopPtyBackend(): Promise<void> {
+  for (const terminal of terminals.values()) {
+    if (terminal.handle.kind === "pty") {
+      terminal.isActive = false;
+      closePtyHandle(terminal.handle);
+    }
+  }
+}
+
+function clearStreamedOutput(handle: TerminalHandle): void {
+  if (handle.flushTimer) {
+    clearTimeout(handle.flushTimer);
+    handle.flushTimer = undefined;
+  }
+}
+
+// Streamed output is batched for OUTPUT_FLUSH_MS so a chatty program does not turn every write into a relay message.
+function queueStreamedOutput(terminalId: string, handle: TerminalHandle, data: string): void {
+  handle.pendingOutput += data;
+  if (handle.pendingOutput.length > STREAMED_OUTPUT_MAX_PENDING_CHARS) {
+    handle.pendingOutput = `\n[output truncated]\n${trimTail(handle.pendingOutput, STREAMED_OUTPUT_MAX_PENDING_CHARS)}`;
+  }
+  handle.flushTimer ??= setTimeout(() => flushStreamedOutput(terminalId, handle), OUTPUT_FLUSH_MS);
+}
+
+function flushStreamedOutput(terminalId: string, handle: TerminalHandle): void {
+  clearStreamedOutput(handle);
+  const chunk = handle.pendingOutput;
+  handle.pendingOutput = "";
+  const terminal = terminals.get(terminalId);
+  if (!chunk || !terminal || !terminal.isActive) {
+    return;
+  }
+  setTerminalSnapshot(terminal, `${terminal.outputBuffer}${chunk}`);
+  let start = 0;
+  while (start < chunk.length) {
+    let end = Math.min(chunk.length, start + STREAMED_OUTPUT_CHUNK_CHARS);
+    // Never split a surrogate pair across two messages.
+    if (end < chunk.length && /[\uD800-\uDBFF]/.test(chunk[end - 1])) {
+      end -= 1;
+    }
+    emitTerminalChunk(terminal, chunk.slice(start, end));
+    start = end;
+  }
+}
+
+function ptyEnvironment(): Record<string, string> {
+  const env: Record<string, string> = { TERM: "xterm-256color" };
+  for (const [key, value] of Object.entries(process.env)) {
+    // The relay token and e2e secret stay with the agent instead of leaking into every shell.
+    if (typeof value === "string" && key !== "TFCLAW_TOKEN" && key !== "TFCLAW_E2E_SECRET") {
+      env[key] = value;
+    }
+  }
+  return env;
+}
+
+async function createPtyTerminal({ terminalId, cwd }: TerminalCreateOptions): Promise<CreatedTerminal> {
+  if (!ptyModule) {
+    throw new Error("pty terminal backend is not started");
+  }
+  const cwdStat = await fs.stat(cwd).catch(() => undefined);
+  const pty = ptyModule.spawn(PTY_SHELL, PTY_SHELL_ARGS, {
+    name: "xterm-256color",
+    cols: PTY_COLS,
+    rows: PTY_ROWS,
+    cwd: cwdStat?.isDirectory() ? cwd : DEFAULT_CWD,
+    env: ptyEnvironment(),
+  });
+  const handle: PtyTerminalHandle = { kind: "pty", pty, pendingOutput: "" };
+  pty.onData((data) => queueStreamedOutput(terminalId, handle, data));
+  pty.onExit(({ exitCode, signal }) => {
+    flushStreamedOutput(terminalId, handle);
+    markTerminalClosed(terminalId, signal ? `shell killed by signal ${signal}` : `shell exited with code ${exitCode}`);
+  });
+  return { handle, cols: PTY_COLS, rows: PTY_ROWS };
+}
+
+function closePtyHandle(handle: PtyTerminalHandle): void {
+  clearStreamedOutput(handle);
+  try {
+    handle.pty.kill();
+  } catch {
+    // The shell may already be gone.
+  }
+}
+
+async function closePtyTerminal(terminal: TerminalSession): Promise<void> {
+  closePtyHandle(requirePtyHandle(terminal));
+}
+
+async function resizePtyTerminal(terminal: TerminalSession, cols: number, rows: number): Promise<void> {
+  requirePtyHandle(terminal).pty.resize(cols, rows);
+}
+
+async function writePtyInput(terminal: TerminalSession, data: string): Promise<void> {
+  requirePtyHandle(terminal).pty.write(PTY_SHORTCUT_INPUT[data] ?? data.replace(/\r?\n/g, "\r"));
+}
+
+// Only the last TFCLAW_MAX_LOCAL_BUFFER characters of a pty are kept, so its history is much shorter than tmux's.
+async function readPtyTerminalHistory(terminal: TerminalSession, request: TerminalHistoryRequest): Promise<TerminalHistoryPage> {
+  requirePtyHandle(terminal);
+  const lines = terminal.outputBuffer.split(/\r?\n/);
+  const { start, end } = historyWindow(lines.length, request);
+  return {
+    text: lines.slice(start, end).join("\n"),
+    cursor: start,
+    totalLines: lines.length,
+    hasMore: start > 0,
+    full: terminal.outputBuffer.length >= MAX_LOCAL_BUFFER,
+  };
+}
+
+// Output is pushed as it arrives, so syncing only refreshes the foreground command shown in the terminal list.
+async function syncPtyTerminal(terminal: TerminalSession): Promise<void> {
+  const handle = requirePtyHandle(terminal);
+  const now = Date.now();
+  if (now - terminal.lastCommandSyncAt < Math.max(200, TMUX_FOREGROUND_COMMAND_POLL_MS)) {
+    return;
+  }
+  terminal.lastCommandSyncAt = now;
+  const foreground = handle.pty.process || undefined;
+  if (foreground !== terminal.foregroundCommand) {
+    terminal.foregroundCommand = foreground;
+    publishTerminalList();
+  }
+}
+
+const tmuxBackend: TerminalBackend = {
+  kind: "tmux",
+  closedLabel: "tmux pane",
+  start: startTmuxBackend,
+  stop: stopTmuxBackend,
+  create: createTmuxTerminal,
+  resize: resizeTmuxTerminal,
+  close: closeTmuxTerminal,
+  write: writeTmuxInput,
+  sync: syncTmuxTerminal,
+  history: readTmuxTerminalHistory,
+};
+
+const ptyBackend: TerminalBackend = {
+  kind: "pty",
+  closedLabel: "terminal",
+  start: startPtyBackend,
+  stop: stopPtyBackend,
+  create: createPtyTerminal,
+  resize: resizePtyTerminal,
+  close: closePtyTerminal,
+  write: writePtyInput,
+  sync: syncPtyTerminal,
+  history: readPtyTerminalHistory,
+};
+
+let terminalBackend: TerminalBackend = tmuxBackend;
+
+// "auto" prefers tmux and falls back to a pty when tmux is missing, e.g. in minimal containers.
+async function selectTerminalBackend(): Promise<TerminalBackend> {
+  tmuxAvailable = await isTmuxAvailable();
+  if (TERMINAL_BACKEND === "pty") {
+    return ptyBackend;
+  }
+  if (TERMINAL_BACKEND === "tmux") {
+    await ensureTmuxAvailable();
+    return tmuxBackend;
+  }
+  if (TERMINAL_BACKEND !== "auto") {
+    throw new Error(`unknown TFCLAW_TERMINAL_BACKEND: ${TERMINAL_BACKEND} (expected auto, tmux or pty)`);
+  }
+  if (tmuxAvailable) {
+    return tmuxBackend;
+  }
+  console.log("tmux is not available, using the pty terminal backend");
+  return ptyBackend;
+}
+
+async function writeInput(terminalId: string, data: string): Promise<boolean> {
+  const terminal = terminals.get(terminalId);
+  if (!terminal || !terminal.isActive) {
+    return false;
+  }
+
+  await terminalBackend.write(terminal, data);
+  noteTypedInput(data);
+  terminal.updatedAt = nowIso();
+  return true;
+}
+
+async function runPowerShell(command: string): Promise<string> {
+  if (process.platform !== "win32") {
+    throw new Error("PowerShell is only available on Windows");
+  }
+
+  const result = await runCommand("powershell.exe", ["-NoProfile", "-NonInteractive", "-Command", command], {
+    windowsHide: true,
+  });
+  if (result.spawnError || result.code !== 0) {
+    throw new Error(commandDetail(result, "powershell.exe", ["-NoProfile", "-NonInteractive", "-Command", command]));
+  }
+  return result.stdout.trim();
+}
+
+function parseJsonArray<T>(raw: string): T[] {
+  if (!raw) {
+    return [];
+  }
+
+  const parsed: unknown = JSON.parse(raw);
+  if (Array.isArray(parsed)) {
+    return parsed as T[];
   }
 
   if (parsed && typeof parsed === "object") {
@@ -1123,12 +2046,51 @@ async function handleTerminalSnapshot(terminalId: string): Promise<void> {
   });
 }
 
+function terminalHistoryRequest(
+  payload: Extract<ClientCommand["payload"], { command: "terminal.history" | "tmux.history" }>,
+): TerminalHistoryRequest {
+  return {
+    before: payload.before,
+    offset: payload.offset ?? 0,
+    lines: Math.min(HISTORY_PAGE_MAX_LINES, payload.lines ?? HISTORY_PAGE_DEFAULT_LINES),
+  };
+}
+
+async function handleTerminalHistory(
+  payload: Extract<ClientCommand["payload"], { command: "terminal.history" }>,
+  requestId?: string,
+): Promise<void> {
+  const terminal = terminals.get(payload.terminalId);
+  if (!terminal || !terminal.isActive) {
+    sendError("TERMINAL_NOT_FOUND", `terminal not found: ${payload.terminalId}`, requestId);
+    return;
+  }
+  const page = await terminalBackend.history(terminal, terminalHistoryRequest(payload));
+  send({ type: "agent.terminal_history", payload: { requestId, terminalId: terminal.terminalId, ...page } });
+}
+
+async function handleTmuxHistory(
+  payload: Extract<ClientCommand["payload"], { command: "tmux.history" }>,
+  requestId?: string,
+): Promise<void> {
+  const request = terminalHistoryRequest(payload);
+  const state = getTmuxControlState(payload.sessionKey);
+  const target = state.target.trim();
+  if (!target) {
+    sendError("TMUX_TARGET_NOT_SET", "tmux target not set. Use `/tmux target <session:window.pane|id>` first.", requestId);
+    return;
+  }
+  const page = await readTmuxHistory(target, request, state.socket || undefined);
+  send({ type: "agent.terminal_history", payload: { requestId, target, ...page } });
+}
+
 function sendCommandResult(
   output: string,
   requestId?: string,
   meta?: {
     progress?: boolean;
     progressSource?: string;
+    completion?: CommandCompletion;
   },
 ): void {
   send({
@@ -1138,6 +2100,7 @@ function sendCommandResult(
       output,
       progress: meta?.progress,
       progressSource: meta?.progressSource,
+      completion: meta?.completion,
     },
   });
 }
@@ -1183,16 +2146,45 @@ function inferMimeType(filePath: string): string {
   return mimeByExt[ext] ?? "application/octet-stream";
 }
 
+function sha256Hex(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function discardUploadTransfer(transfer: PendingUploadTransfer): void {
+  uploadTransfers.delete(transfer.transferId);
+  clearTimeout(transfer.ackTimer);
+  void transfer.handle
+    .close()
+    .catch(() => undefined)
+    .then(() => fs.rm(transfer.partPath, { force: true }))
+    .catch(() => undefined);
+}
+
 function pruneUploadTransfers(): void {
   const now = Date.now();
-  for (const [transferId, pending] of uploadTransfers.entries()) {
+  for (const pending of [...uploadTransfers.values()]) {
     if (now - pending.createdAt > FILE_UPLOAD_TIMEOUT_MS) {
-      uploadTransfers.delete(transferId);
+      discardUploadTransfer(pending);
+    }
+  }
+}
+
+function releaseDownloadTransfer(transfer: DownloadTransfer): void {
+  downloadTransfers.delete(transfer.transferId);
+  transfer.generation += 1;
+  transfer.wake?.();
+}
+
+function pruneDownloadTransfers(): void {
+  const now = Date.now();
+  for (const transfer of [...downloadTransfers.values()]) {
+    if (now - transfer.updatedAt > FILE_UPLOAD_TIMEOUT_MS) {
+      releaseDownloadTransfer(transfer);
     }
   }
 }
 
-function resolveUploadDestinationPath(transfer: PendingUploadTransfer): string {
+function resolveUploadDestinationPath(transfer: Pick<PendingUploadTransfer, "fileName" | "destinationPath">): string {
   const destinationRaw = (transfer.destinationPath ?? "").trim();
   if (!destinationRaw) {
     return path.resolve(FILE_TRANSFER_ROOT, sanitizeFileName(transfer.fileName));
@@ -1242,6 +2234,67 @@ async function resolveDownloadPath(inputPath: string, sessionKeyRaw?: string): P
   return path.resolve(FILE_TRANSFER_ROOT, value);
 }
 
+class FileAccessDeniedError extends Error {}
+
+function isWithinRoot(rootPath: string, filePath: string): boolean {
+  const relative = path.relative(rootPath, filePath);
+  return relative === "" || (relative.split(path.sep)[0] !== ".." && !path.isAbsolute(relative));
+}
+
+// A path is denied when it or any of its parent directories matches a denied glob, so ".ssh" covers the whole directory.
+function isDeniedByPolicy(filePath: string): boolean {
+  if (FILE_DENIED_GLOBS.length === 0) {
+    return false;
+  }
+  const segments = filePath.replace(/\\/g, "/").replace(/^[A-Za-z]:/, "").split("/").filter(Boolean);
+  for (let index = 1; index <= segments.length; index += 1) {
+    if (matchesAnyGlob(segments.slice(0, index).join("/"), FILE_DENIED_GLOBS)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Paths that do not exist yet (upload destinations, mkdir, move targets) resolve through their nearest existing parent.
+async function realpathOfNearestExisting(filePath: string): Promise<string> {
+  let current = filePath;
+  const missing: string[] = [];
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(current), ...missing);
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return filePath;
+      }
+      missing.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+let allowedRealRoots: Promise<string[]> | undefined;
+
+// Checked against the requested path and again after resolving symlinks, so a link inside an allowed root
+// cannot reach files outside it or behind a denied glob.
+async function enforceFilePolicy(filePath: string, access: "read" | "write"): Promise<string> {
+  if (access === "write" && FILE_READ_ONLY) {
+    throw new FileAccessDeniedError(`file access is read-only on this agent: ${filePath}`);
+  }
+  const realPath = await realpathOfNearestExisting(filePath);
+  if (FILE_ALLOWED_ROOTS.length > 0) {
+    allowedRealRoots ??= Promise.all(FILE_ALLOWED_ROOTS.map((root) => realpathOfNearestExisting(root)));
+    const realRoots = await allowedRealRoots;
+    if (!FILE_ALLOWED_ROOTS.some((root) => isWithinRoot(root, filePath)) || !realRoots.some((root) => isWithinRoot(root, realPath))) {
+      throw new FileAccessDeniedError(`path is outside the allowed roots: ${filePath}`);
+    }
+  }
+  if (isDeniedByPolicy(filePath) || isDeniedByPolicy(realPath)) {
+    throw new FileAccessDeniedError(`path is denied by the file policy: ${filePath}`);
+  }
+  return filePath;
+}
+
 async function fileExists(filePath: string): Promise<boolean> {
   try {
     await fs.access(filePath);
@@ -1280,16 +2333,10 @@ async function handleFileUploadStart(
     throw new Error(`upload transfer already exists: ${transferId}`);
   }
 
-  const totalChunks = Math.max(1, Math.min(100_000, Math.trunc(payload.totalChunks)));
-  const expectedSize = Math.max(0, Math.trunc(payload.size));
-  if (!Number.isFinite(payload.totalChunks) || payload.totalChunks < 1) {
-    throw new Error("file upload start requires totalChunks >= 1");
-  }
-  if (!Number.isFinite(payload.size) || payload.size < 0) {
-    throw new Error("file upload start requires size >= 0");
-  }
-  if (expectedSize > FILE_TRANSFER_MAX_BYTES) {
-    throw new Error(`file too large, max ${FILE_TRANSFER_MAX_BYTES} bytes`);
+  const totalChunks = Math.min(100_000, payload.totalChunks);
+  const expectedSize = payload.size;
+  if (expectedSize > FILE_UPLOAD_MAX_BYTES) {
+    throw new FileAccessDeniedError(`file too large, max upload ${FILE_UPLOAD_MAX_BYTES} bytes`);
   }
 
   let destinationPath = payload.destinationPath;
@@ -1300,15 +2347,31 @@ async function handleFileUploadStart(
     }
   }
 
+  const fileName = sanitizeFileName(payload.fileName);
+  const outputPath = await enforceFilePolicy(resolveUploadDestinationPath({ fileName, destinationPath }), "write");
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  // Chunks are written straight to a part file next to the destination, so uploads never sit in memory.
+  const partPath = `${outputPath}.${sanitizeFileName(transferId)}.part`;
+  const handle = await fs.open(partPath, "w");
+
   uploadTransfers.set(transferId, {
     transferId,
-    fileName: sanitizeFileName(payload.fileName),
+    fileName,
     mimeType: (payload.mimeType ?? "application/octet-stream").trim() || "application/octet-stream",
     destinationPath,
     overwrite: Boolean(payload.overwrite),
     size: expectedSize,
     totalChunks,
-    chunks: new Array(totalChunks).fill(""),
+    sha256: payload.sha256,
+    resumable: Boolean(payload.resumable),
+    outputPath,
+    partPath,
+    handle,
+    hash: createHash("sha256"),
+    receivedChunks: 0,
+    receivedBytes: 0,
+    ackedChunks: 0,
+    queue: Promise.resolve(),
     createdAt: Date.now(),
   });
 
@@ -1320,28 +2383,110 @@ async function handleFileUploadStart(
   }
 }
 
-async function handleFileUploadChunk(
-  payload: Extract<ClientCommand["payload"], { command: "file.upload.chunk" }>,
-): Promise<void> {
-  pruneUploadTransfers();
-  const transferId = payload.transferId.trim();
+function requireUploadTransfer(transferIdRaw: string): PendingUploadTransfer {
+  const transferId = transferIdRaw.trim();
   const transfer = uploadTransfers.get(transferId);
   if (!transfer) {
     throw new Error(`upload transfer not found: ${transferId}`);
   }
+  return transfer;
+}
+
+// Chunks of one upload are applied strictly in arrival order, even though commands are handled concurrently.
+function enqueueUploadWork(transfer: PendingUploadTransfer, work: () => Promise<void>): Promise<void> {
+  const next = transfer.queue.then(work);
+  transfer.queue = next.catch(() => undefined);
+  return next;
+}
+
+function sendUploadAck(transfer: PendingUploadTransfer, requestId?: string): void {
+  clearTimeout(transfer.ackTimer);
+  transfer.ackTimer = undefined;
+  transfer.ackedChunks = transfer.receivedChunks;
+  send({
+    type: "agent.file_transfer",
+    payload: {
+      direction: "upload",
+      stage: "ack",
+      requestId,
+      transferId: transfer.transferId,
+      receivedChunks: transfer.receivedChunks,
+      receivedBytes: transfer.receivedBytes,
+    },
+  });
+}
+
+// Acks every FILE_TRANSFER_ACK_EVERY_CHUNKS chunks and after the last one, or shortly after the newest chunk when
+// the sender's window is smaller than that.
+function scheduleUploadAck(transfer: PendingUploadTransfer, requestId?: string): void {
+  if (transfer.receivedChunks - transfer.ackedChunks >= FILE_TRANSFER_ACK_EVERY_CHUNKS || transfer.receivedChunks >= transfer.totalChunks) {
+    sendUploadAck(transfer, requestId);
+    return;
+  }
+  clearTimeout(transfer.ackTimer);
+  transfer.ackTimer = setTimeout(() => {
+    if (uploadTransfers.has(transfer.transferId)) {
+      sendUploadAck(transfer, requestId);
+    }
+  }, FILE_TRANSFER_ACK_DELAY_MS);
+}
+
+async function handleFileUploadChunk(
+  payload: Extract<ClientCommand["payload"], { command: "file.upload.chunk" }>,
+  requestId?: string,
+): Promise<void> {
+  pruneUploadTransfers();
+  const transfer = requireUploadTransfer(payload.transferId);
   if (payload.totalChunks !== transfer.totalChunks) {
     throw new Error(`upload chunk total mismatch: expected ${transfer.totalChunks}, got ${payload.totalChunks}`);
   }
 
-  const index = Math.trunc(payload.chunkIndex);
-  if (!Number.isFinite(payload.chunkIndex) || index < 0 || index >= transfer.totalChunks) {
+  const index = payload.chunkIndex;
+  if (index >= transfer.totalChunks) {
     throw new Error(`invalid upload chunk index: ${payload.chunkIndex}`);
   }
-  if (!payload.chunkBase64) {
+  if (!payload.chunkBase64 && transfer.size > 0) {
     throw new Error(`empty upload chunk: ${index}`);
   }
-  transfer.chunks[index] = payload.chunkBase64;
   transfer.createdAt = Date.now();
+
+  await enqueueUploadWork(transfer, async () => {
+    if (index < transfer.receivedChunks) {
+      return;
+    }
+    if (index > transfer.receivedChunks) {
+      if (!transfer.resumable) {
+        throw new Error(`upload chunk ${index} arrived before chunk ${transfer.receivedChunks}`);
+      }
+      return;
+    }
+
+    const data = Buffer.from(payload.chunkBase64, "base64");
+    if (payload.sha256 && sha256Hex(data) !== payload.sha256) {
+      throw new Error(`upload chunk ${index} failed its sha256 check`);
+    }
+    if (transfer.receivedBytes + data.byteLength > FILE_UPLOAD_MAX_BYTES) {
+      throw new FileAccessDeniedError(`file too large, max upload ${FILE_UPLOAD_MAX_BYTES} bytes`);
+    }
+    await transfer.handle.write(data, 0, data.byteLength, transfer.receivedBytes);
+    transfer.hash.update(data);
+    transfer.receivedChunks += 1;
+    transfer.receivedBytes += data.byteLength;
+  }).finally(() => {
+    if (transfer.resumable && uploadTransfers.has(transfer.transferId)) {
+      scheduleUploadAck(transfer, requestId);
+    }
+  });
+}
+
+async function handleFileUploadResume(
+  payload: Extract<ClientCommand["payload"], { command: "file.upload.resume" }>,
+  requestId?: string,
+): Promise<void> {
+  const transfer = requireUploadTransfer(payload.transferId);
+  transfer.createdAt = Date.now();
+  await transfer.queue;
+  sendUploadAck(transfer, requestId);
 }
 
 async function handleFileUploadComplete(
@@ -1349,120 +2494,902 @@ async function handleFileUploadComplete(
   requestId?: string,
 ): Promise<void> {
   pruneUploadTransfers();
-  const transferId = payload.transferId.trim();
-  const transfer = uploadTransfers.get(transferId);
-  if (!transfer) {
-    throw new Error(`upload transfer not found: ${transferId}`);
-  }
+  const transfer = requireUploadTransfer(payload.transferId);
   if (payload.totalChunks !== transfer.totalChunks) {
     throw new Error(`upload complete total mismatch: expected ${transfer.totalChunks}, got ${payload.totalChunks}`);
   }
 
-  const missingIndex = transfer.chunks.findIndex((chunk) => chunk.length === 0);
-  if (missingIndex >= 0) {
-    throw new Error(`missing upload chunk ${missingIndex + 1}/${transfer.totalChunks}`);
+  await transfer.queue;
+  if (transfer.receivedChunks < transfer.totalChunks) {
+    throw new Error(`missing upload chunk ${transfer.receivedChunks + 1}/${transfer.totalChunks}`);
   }
 
-  const fileBuffer = Buffer.from(transfer.chunks.join(""), "base64");
-  if (fileBuffer.byteLength > FILE_TRANSFER_MAX_BYTES) {
-    throw new Error(`file too large, max ${FILE_TRANSFER_MAX_BYTES} bytes`);
+  uploadTransfers.delete(transfer.transferId);
+  clearTimeout(transfer.ackTimer);
+  const digest = transfer.hash.digest("hex");
+  const expected = payload.sha256 ?? transfer.sha256;
+  if (expected && digest !== expected) {
+    discardUploadTransfer(transfer);
+    throw new Error(`upload sha256 mismatch: expected ${expected}, got ${digest}`);
   }
 
-  const destinationPath = resolveUploadDestinationPath(transfer);
-  await fs.mkdir(path.dirname(destinationPath), { recursive: true });
-  const outputPath = await resolveUploadOutputPath(destinationPath, transfer.overwrite);
-  await fs.writeFile(outputPath, fileBuffer);
-  uploadTransfers.delete(transferId);
+  await transfer.handle.close();
+  let outputPath: string;
+  try {
+    outputPath = await enforceFilePolicy(await resolveUploadOutputPath(transfer.outputPath, transfer.overwrite), "write");
+  } catch (error) {
+    await fs.rm(transfer.partPath, { force: true });
+    throw error;
+  }
+  await fs.rename(transfer.partPath, outputPath);
 
   sendCommandResult(
-    `[file] upload complete: ${outputPath} (${fileBuffer.byteLength} bytes, mime=${transfer.mimeType})`,
+    `[file] upload complete: ${outputPath} (${transfer.receivedBytes} bytes, sha256=${digest}, mime=${transfer.mimeType})`,
     requestId,
   );
 }
 
-async function handleFileDownload(
-  payload: Extract<ClientCommand["payload"], { command: "file.download" }>,
-  requestId?: string,
-): Promise<void> {
-  const targetPath = await resolveDownloadPath(payload.path, payload.sessionKey);
-  const fileStat = await fs.stat(targetPath);
-  if (!fileStat.isFile()) {
-    throw new Error(`not a file: ${targetPath}`);
-  }
-  if (fileStat.size > FILE_TRANSFER_MAX_BYTES) {
-    throw new Error(`file too large, max ${FILE_TRANSFER_MAX_BYTES} bytes`);
-  }
-
-  const fileBuffer = await fs.readFile(targetPath);
-  const transferId = randomTransferId("download");
-  const totalChunks = Math.max(1, Math.ceil(fileBuffer.byteLength / FILE_TRANSFER_CHUNK_BYTES));
-  const fileName = path.basename(targetPath);
-
-  send({
-    type: "agent.file_transfer",
-    payload: {
-      direction: "download",
-      stage: "start",
-      requestId,
-      transferId,
-      fileName,
-      path: targetPath,
-      mimeType: inferMimeType(targetPath),
-      size: fileBuffer.byteLength,
-      totalChunks,
-    },
+function waitForDownloadAck(transfer: DownloadTransfer): Promise<boolean> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      transfer.wake = undefined;
+      resolve(false);
+    }, FILE_TRANSFER_ACK_TIMEOUT_MS);
+    transfer.wake = () => {
+      clearTimeout(timer);
+      transfer.wake = undefined;
+      resolve(true);
+    };
   });
+}
 
-  for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex += 1) {
-    const start = chunkIndex * FILE_TRANSFER_CHUNK_BYTES;
-    const end = Math.min(fileBuffer.byteLength, start + FILE_TRANSFER_CHUNK_BYTES);
-    const chunkBase64 = fileBuffer.subarray(start, end).toString("base64");
-    send({
-      type: "agent.file_transfer",
-      payload: {
-        direction: "download",
-        stage: "chunk",
-        requestId,
-        transferId,
-        chunkIndex,
-        totalChunks,
-        chunkBase64,
+// Sequential reader over the bytes of a download: the file itself, or the archive as it is generated.
+interface DownloadSource {
+  read(length: number): Promise<Buffer>;
+  close(): Promise<void>;
+}
+
+async function openDownloadSource(transfer: DownloadTransfer, offset: number): Promise<DownloadSource> {
+  if (!transfer.archive) {
+    const handle = await fs.open(transfer.path, "r");
+    let position = offset;
+    return {
+      read: async (length) => {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, position);
+        position += bytesRead;
+        return buffer.subarray(0, bytesRead);
       },
-    });
+      close: () => handle.close(),
+    };
   }
 
-  send({
-    type: "agent.file_transfer",
-    payload: {
-      direction: "download",
-      stage: "complete",
-      requestId,
-      transferId,
+  const archive = transfer.archive;
+  const stream = archive.zip ? streamZipArchive(archive.zip) : streamTarArchive(archive.entries);
+  let skip = offset;
+  let pending: Buffer = Buffer.alloc(0);
+  return {
+    read: async (length) => {
+      const parts: Buffer[] = [pending];
+      let available = pending.length;
+      while (available < length) {
+        const next = await stream.next();
+        if (next.done) {
+          break;
+        }
+        const skipped = Math.min(skip, next.value.length);
+        skip -= skipped;
+        parts.push(next.value.subarray(skipped));
+        available += next.value.length - skipped;
+      }
+      const buffer = Buffer.concat(parts);
+      pending = buffer.subarray(Math.min(length, buffer.length));
+      return buffer.subarray(0, length);
     },
-  });
-
-  sendCommandResult(
-    `[file] download sent: ${targetPath} (${fileBuffer.byteLength} bytes, chunks=${totalChunks})`,
-    requestId,
-  );
+    close: async () => {
+      await stream.return(undefined);
+    },
+  };
 }
 
-function normalizeControlSessionKey(input: string | undefined): string {
-  const trimmed = (input ?? "").trim();
-  return trimmed || "default";
+async function hashDownloadPrefix(transfer: DownloadTransfer, bytes: number): Promise<Hash> {
+  const hash = createHash("sha256");
+  if (bytes <= 0) {
+    return hash;
+  }
+  const source = await openDownloadSource(transfer, 0);
+  try {
+    for (let hashed = 0; hashed < bytes;) {
+      const chunk = await source.read(Math.min(FILE_TRANSFER_CHUNK_BYTES, bytes - hashed));
+      if (chunk.length === 0) {
+        break;
+      }
+      hash.update(chunk);
+      hashed += chunk.length;
+    }
+  } finally {
+    await source.close();
+  }
+  return hash;
 }
 
-function getTmuxControlState(sessionKeyRaw: string | undefined): TmuxControlState {
-  const sessionKey = normalizeControlSessionKey(sessionKeyRaw);
-  const existing = tmuxControlStateBySession.get(sessionKey);
-  if (existing) {
-    if (!existing.paneBootstrapRequested) {
-      queueSilentTmuxPaneRefresh(sessionKey);
-    }
-    return existing;
+// Resolves false when the relay socket is gone, so a transfer that cannot resume can give up.
+async function waitForSendBuffer(): Promise<boolean> {
+  while (ws && ws.readyState === WebSocket.OPEN && ws.bufferedAmount > FILE_TRANSFER_MAX_BUFFERED_BYTES) {
+    await sleepMs(25);
   }
+  return Boolean(ws && ws.readyState === WebSocket.OPEN);
+}
 
-  const state: TmuxControlState = {
+// Streams the file from transfer.nextChunk; resumable transfers pause once the ack window is full
+// and stay registered until the client acks the last chunk or resumes after a reconnect. Every transfer
+// also waits for the relay socket to drain, which is the only brake on transfers without acks.
+async function pumpDownload(transfer: DownloadTransfer, generation: number): Promise<void> {
+  const source = await openDownloadSource(transfer, transfer.nextChunk * FILE_TRANSFER_CHUNK_BYTES);
+  let lastChunkAt = 0;
+  try {
+    while (transfer.generation === generation && transfer.nextChunk < transfer.totalChunks) {
+      if (transfer.resumable && transfer.nextChunk - transfer.ackedChunks >= FILE_TRANSFER_WINDOW_CHUNKS) {
+        if (!await waitForDownloadAck(transfer)) {
+          return;
+        }
+        continue;
+      }
+      if (!await waitForSendBuffer()) {
+        if (!transfer.resumable) {
+          releaseDownloadTransfer(transfer);
+        }
+        return;
+      }
+      const wait = lastChunkAt + 1000 / FILE_TRANSFER_MAX_CHUNKS_PER_SECOND - Date.now();
+      if (wait > 0) {
+        await sleepMs(wait);
+      }
+      lastChunkAt = Date.now();
+      if (transfer.generation !== generation) {
+        return;
+      }
+
+      const chunkIndex = transfer.nextChunk;
+      const start = chunkIndex * FILE_TRANSFER_CHUNK_BYTES;
+      const length = Math.max(0, Math.min(FILE_TRANSFER_CHUNK_BYTES, transfer.size - start));
+      const buffer = await source.read(length);
+      if (transfer.generation !== generation) {
+        return;
+      }
+      if (buffer.length !== length) {
+        releaseDownloadTransfer(transfer);
+        throw new Error(`file changed during download: ${transfer.path}`);
+      }
+
+      transfer.hash.update(buffer);
+      transfer.nextChunk += 1;
+      transfer.updatedAt = Date.now();
+      send({
+        type: "agent.file_transfer",
+        payload: {
+          direction: "download",
+          stage: "chunk",
+          requestId: transfer.requestId,
+          transferId: transfer.transferId,
+          chunkIndex,
+          totalChunks: transfer.totalChunks,
+          chunkBase64: buffer.toString("base64"),
+          sha256: sha256Hex(buffer),
+        },
+      });
+    }
+  } finally {
+    await source.close();
+  }
+  if (transfer.generation !== generation) {
+    return;
+  }
+
+  const digest = transfer.hash.copy().digest("hex");
+  send({
+    type: "agent.file_transfer",
+    payload: {
+      direction: "download",
+      stage: "complete",
+      requestId: transfer.requestId,
+      transferId: transfer.transferId,
+      sha256: digest,
+    },
+  });
+
+  if (!transfer.resumable) {
+    releaseDownloadTransfer(transfer);
+  }
+  const described = transfer.archive
+    ? `${transfer.archive.sourcePath} as ${transfer.archive.format} (${transfer.archive.entries.length} entries, ${transfer.size} bytes`
+    : `${transfer.path} (${transfer.size} bytes`;
+  sendCommandResult(
+    `[file] download sent: ${described}, chunks=${transfer.totalChunks}, sha256=${digest})`,
+    transfer.requestId,
+  );
+}
+
+interface ArchiveEntry {
+  name: string;
+  absolutePath: string;
+  directory: boolean;
+  size: number;
+  mtimeMs: number;
+  mode: number;
+}
+
+interface DownloadArchive {
+  format: ArchiveFormat;
+  sourcePath: string;
+  entries: ArchiveEntry[];
+  // Only zip archives need a dry pass; a tar archive's layout follows from the entries alone.
+  zip?: ZipArchivePlan;
+  size: number;
+}
+
+interface CompiledGlob {
+  regex: RegExp;
+  // Patterns without a slash match the entry's base name at any depth, like .gitignore.
+  baseName: boolean;
+}
+
+function compileGlob(patternRaw: string): CompiledGlob | undefined {
+  const pattern = patternRaw.trim().replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/+$/, "");
+  if (!pattern) {
+    return undefined;
+  }
+  let source = "";
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === "*" && pattern[index + 1] === "*") {
+      index += 1;
+      if (pattern[index + 1] === "/") {
+        index += 1;
+        source += "(?:.*/)?";
+      } else {
+        source += ".*";
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return { regex: new RegExp(`^${source}$`), baseName: !pattern.includes("/") };
+}
+
+function compileGlobs(patterns: string[] | undefined): CompiledGlob[] {
+  return (patterns ?? []).map(compileGlob).filter((glob): glob is CompiledGlob => Boolean(glob));
+}
+
+function matchesAnyGlob(relativePath: string, globs: CompiledGlob[]): boolean {
+  const baseName = relativePath.slice(relativePath.lastIndexOf("/") + 1);
+  return globs.some((glob) => glob.regex.test(glob.baseName ? baseName : relativePath));
+}
+
+// Walks the directory in name order. Excluded directories are pruned; with include globs, only matching
+// files and the directories leading to them are kept. Symlinks are skipped rather than followed.
+async function collectArchiveEntries(
+  rootPath: string,
+  include: CompiledGlob[],
+  exclude: CompiledGlob[],
+  maxBytes: number,
+): Promise<ArchiveEntry[]> {
+  const rootName = sanitizeFileName(path.basename(rootPath) || "archive");
+  const rootStat = await fs.stat(rootPath);
+  const entries: ArchiveEntry[] = [
+    { name: rootName, absolutePath: rootPath, directory: true, size: 0, mtimeMs: rootStat.mtimeMs, mode: rootStat.mode },
+  ];
+  let totalBytes = 0;
+
+  const walk = async (dirPath: string, relativeDir: string): Promise<void> => {
+    const items = (await fs.readdir(dirPath, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+    for (const item of items) {
+      const relativePath = relativeDir ? `${relativeDir}/${item.name}` : item.name;
+      const absolutePath = path.join(dirPath, item.name);
+      if (matchesAnyGlob(relativePath, exclude) || isDeniedByPolicy(absolutePath)) {
+        continue;
+      }
+      if (item.isDirectory()) {
+        const itemStat = await fs.stat(absolutePath);
+        const before = entries.length;
+        entries.push({
+          name: `${rootName}/${relativePath}`,
+          absolutePath,
+          directory: true,
+          size: 0,
+          mtimeMs: itemStat.mtimeMs,
+          mode: itemStat.mode,
+        });
+        await walk(absolutePath, relativePath);
+        if (include.length > 0 && entries.length === before + 1) {
+          entries.pop();
+        }
+      } else if (item.isFile()) {
+        if (include.length > 0 && !matchesAnyGlob(relativePath, include)) {
+          continue;
+        }
+        const itemStat = await fs.stat(absolutePath);
+        totalBytes += itemStat.size;
+        if (totalBytes > maxBytes) {
+          throw new Error(`directory exceeds the archive size cap of ${maxBytes} bytes: ${rootPath}`);
+        }
+        entries.push({
+          name: `${rootName}/${relativePath}`,
+          absolutePath,
+          directory: false,
+          size: itemStat.size,
+          mtimeMs: itemStat.mtimeMs,
+          mode: itemStat.mode,
+        });
+      }
+    }
+  };
+
+  await walk(rootPath, "");
+  return entries;
+}
+
+function tarOctal(value: number, width: number): string {
+  return `${Math.max(0, Math.trunc(value)).toString(8).padStart(width - 1, "0")}\0`;
+}
+
+function tarHeader(name: string, prefix: string, size: number, mtimeMs: number, mode: number, typeFlag: string): Buffer {
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100, "utf8");
+  header.write(tarOctal(mode & 0o7777, 8), 100, "ascii");
+  header.write(tarOctal(0, 8), 108, "ascii");
+  header.write(tarOctal(0, 8), 116, "ascii");
+  header.write(tarOctal(size, 12), 124, "ascii");
+  header.write(tarOctal(mtimeMs / 1000, 12), 136, "ascii");
+  header.write("        ", 148, "ascii");
+  header.write(typeFlag, 156, "ascii");
+  header.write("ustar\0", 257, "ascii");
+  header.write("00", 263, "ascii");
+  header.write(prefix, 345, 155, "utf8");
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  header.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, "ascii");
+  return header;
+}
+
+function tarPadding(size: number): Buffer {
+  return Buffer.alloc((512 - (size % 512)) % 512);
+}
+
+// ustar headers hold 100 + 155 bytes of path; longer names get a GNU ././@LongLink record first.
+function tarEntryHeaders(entry: ArchiveEntry): Buffer[] {
+  const name = entry.directory ? `${entry.name}/` : entry.name;
+  const typeFlag = entry.directory ? "5" : "0";
+  if (Buffer.byteLength(name) <= 100) {
+    return [tarHeader(name, "", entry.size, entry.mtimeMs, entry.mode, typeFlag)];
+  }
+  for (let slash = name.indexOf("/"); slash >= 0 && slash < name.length - 1; slash = name.indexOf("/", slash + 1)) {
+    const prefix = name.slice(0, slash);
+    const rest = name.slice(slash + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(rest) <= 100) {
+      return [tarHeader(rest, prefix, entry.size, entry.mtimeMs, entry.mode, typeFlag)];
+    }
+  }
+  const longName = Buffer.from(`${name}\0`);
+  return [
+    tarHeader("././@LongLink", "", longName.length, 0, 0o644, "L"),
+    longName,
+    tarPadding(longName.length),
+    tarHeader(name.slice(0, 100), "", entry.size, entry.mtimeMs, entry.mode, typeFlag),
+  ];
+}
+
+function tarArchiveSize(entries: ArchiveEntry[]): number {
+  let size = 1024;
+  for (const entry of entries) {
+    size += tarEntryHeaders(entry).reduce((total, part) => total + part.length, 0);
+    if (!entry.directory) {
+      size += entry.size + tarPadding(entry.size).length;
+    }
+  }
+  return size;
+}
+
+async function* streamTarArchive(entries: ArchiveEntry[]): AsyncGenerator<Buffer> {
+  for (const entry of entries) {
+    yield* tarEntryHeaders(entry);
+    if (entry.directory) {
+      continue;
+    }
+    // The header already promised entry.size bytes, so a file that shrank meanwhile is zero-padded.
+    let written = 0;
+    if (entry.size > 0) {
+      for await (const chunk of createReadStream(entry.absolutePath, { start: 0, end: entry.size - 1 })) {
+        yield chunk as Buffer;
+        written += (chunk as Buffer).length;
+      }
+    }
+    if (written < entry.size) {
+      yield Buffer.alloc(entry.size - written);
+    }
+    yield tarPadding(entry.size);
+  }
+  yield Buffer.alloc(1024);
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer, previous = 0): number {
+  let value = previous ^ 0xffffffff;
+  for (const byte of data) {
+    value = CRC32_TABLE[(value ^ byte) & 0xff] ^ (value >>> 8);
+  }
+  return (value ^ 0xffffffff) >>> 0;
+}
+
+function zipDosDateTime(mtimeMs: number): { time: number; date: number } {
+  const date = new Date(mtimeMs);
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+const ZIP_MAX_OFFSET = 0xffffffff;
+const ZIP_MAX_ENTRIES = 0xffff;
+
+interface ZipEntryPlan {
+  entry: ArchiveEntry;
+  name: Buffer;
+  checksum: number;
+  size: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+interface ZipArchivePlan {
+  entries: ZipEntryPlan[];
+  centralOffset: number;
+  size: number;
+}
+
+// Errors of the file read surface through the deflate stream, which pipeline destroys with them.
+async function* deflateArchiveFile(entry: ArchiveEntry, input: { checksum: number; size: number }): AsyncGenerator<Buffer> {
+  const deflate = pipeline(
+    createReadStream(entry.absolutePath),
+    async function* (source: AsyncIterable<Buffer>) {
+      for await (const chunk of source) {
+        input.checksum = crc32(chunk, input.checksum);
+        input.size += chunk.length;
+        yield chunk;
+      }
+    },
+    createDeflateRaw(),
+    () => undefined,
+  );
+  for await (const chunk of deflate) {
+    yield chunk as Buffer;
+  }
+}
+
+// A dry deflate pass fixes every checksum, size and offset before the first byte is sent, so local headers
+// need no data descriptors and the 4 GiB limit (no zip64) is enforced before any 32-bit field is written.
+async function planZipArchive(entries: ArchiveEntry[]): Promise<ZipArchivePlan> {
+  if (entries.length > ZIP_MAX_ENTRIES) {
+    throw new Error(`zip archives hold at most ${ZIP_MAX_ENTRIES} entries; request a tar archive instead`);
+  }
+  const planned: ZipEntryPlan[] = [];
+  let offset = 0;
+  let centralSize = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.directory ? `${entry.name}/` : entry.name, "utf8");
+    const input = { checksum: 0, size: 0 };
+    let compressedSize = 0;
+    if (!entry.directory) {
+      for await (const chunk of deflateArchiveFile(entry, input)) {
+        compressedSize += chunk.length;
+      }
+    }
+    planned.push({ entry, name, checksum: input.checksum, size: input.size, compressedSize, localOffset: offset });
+    offset += 30 + name.length + compressedSize;
+    centralSize += 46 + name.length;
+    if (input.size > ZIP_MAX_OFFSET || offset + centralSize > ZIP_MAX_OFFSET) {
+      throw new Error("zip archives are limited to 4 GiB; request a tar archive instead");
+    }
+  }
+  return { entries: planned, centralOffset: offset, size: offset + centralSize + 22 };
+}
+
+function zipEntryFields(planned: ZipEntryPlan): { flags: number; method: number; time: number; date: number } {
+  return {
+    flags: 0x0800,
+    method: planned.entry.directory ? 0 : 8,
+    ...zipDosDateTime(planned.entry.mtimeMs),
+  };
+}
+
+// Each file is deflated again while streaming; output that drifts from the plan means the file changed.
+async function* streamZipArchive(plan: ZipArchivePlan): AsyncGenerator<Buffer> {
+  const centralRecords: Buffer[] = [];
+  for (const planned of plan.entries) {
+    const { flags, method, time, date } = zipEntryFields(planned);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(planned.checksum, 14);
+    local.writeUInt32LE(planned.compressedSize, 18);
+    local.writeUInt32LE(planned.size, 22);
+    local.writeUInt16LE(planned.name.length, 26);
+    yield Buffer.concat([local, planned.name]);
+
+    if (!planned.entry.directory) {
+      const input = { checksum: 0, size: 0 };
+      let compressedSize = 0;
+      for await (const chunk of deflateArchiveFile(planned.entry, input)) {
+        compressedSize += chunk.length;
+        if (compressedSize > planned.compressedSize) {
+          break;
+        }
+        yield chunk;
+      }
+      if (input.checksum !== planned.checksum || input.size !== planned.size || compressedSize !== planned.compressedSize) {
+        throw new Error(`file changed during download: ${planned.entry.absolutePath}`);
+      }
+    }
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE((3 << 8) | 20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(planned.checksum, 16);
+    central.writeUInt32LE(planned.compressedSize, 20);
+    central.writeUInt32LE(planned.size, 24);
+    central.writeUInt16LE(planned.name.length, 28);
+    central.writeUInt32LE((((planned.entry.mode & 0xffff) << 16) | (planned.entry.directory ? 0x10 : 0)) >>> 0, 38);
+    central.writeUInt32LE(planned.localOffset, 42);
+    centralRecords.push(central, planned.name);
+  }
+
+  const centralDirectory = Buffer.concat(centralRecords);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(plan.entries.length, 8);
+  end.writeUInt16LE(plan.entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(plan.centralOffset, 16);
+  yield Buffer.concat([centralDirectory, end]);
+}
+
+// Archives are generated straight into the chunk pump rather than staged on disk. Their exact size is
+// worked out first, so the transfer still announces it up front and keeps per-chunk checksums and resume.
+async function planDirectoryArchive(
+  rootPath: string,
+  format: ArchiveFormat,
+  payload: Extract<ClientCommand["payload"], { command: "file.download" }>,
+): Promise<DownloadArchive> {
+  const maxBytes = Math.min(FILE_DOWNLOAD_MAX_BYTES, payload.maxBytes ?? FILE_DOWNLOAD_MAX_BYTES);
+  const entries = await collectArchiveEntries(rootPath, compileGlobs(payload.include), compileGlobs(payload.exclude), maxBytes);
+  const zip = format === "zip" ? await planZipArchive(entries) : undefined;
+  // The file sizes alone already stopped the walk early; the cap applies to the archive as it is sent.
+  const size = zip ? zip.size : tarArchiveSize(entries);
+  if (size > maxBytes) {
+    throw new Error(`archive of ${size} bytes exceeds the size cap of ${maxBytes} bytes: ${rootPath}`);
+  }
+  return { format, sourcePath: rootPath, entries, zip, size };
+}
+
+async function handleFileDownload(
+  payload: Extract<ClientCommand["payload"], { command: "file.download" }>,
+  requestId?: string,
+): Promise<void> {
+  pruneDownloadTransfers();
+  const targetPath = await enforceFilePolicy(await resolveDownloadPath(payload.path, payload.sessionKey), "read");
+  const fileStat = await fs.stat(targetPath);
+  let archive: DownloadArchive | undefined;
+  if (fileStat.isDirectory() && payload.archive) {
+    archive = await planDirectoryArchive(targetPath, payload.archive, payload);
+  } else if (!fileStat.isFile()) {
+    throw new Error(fileStat.isDirectory() ? `not a file: ${targetPath} (request an archive to download a directory)` : `not a file: ${targetPath}`);
+  }
+  const size = archive?.size ?? fileStat.size;
+  if (size > FILE_DOWNLOAD_MAX_BYTES) {
+    throw new FileAccessDeniedError(`file too large, max download ${FILE_DOWNLOAD_MAX_BYTES} bytes`);
+  }
+
+  const transfer: DownloadTransfer = {
+    transferId: randomTransferId("download"),
+    requestId,
+    path: targetPath,
+    size,
+    mtimeMs: fileStat.mtimeMs,
+    totalChunks: Math.max(1, Math.ceil(size / FILE_TRANSFER_CHUNK_BYTES)),
+    resumable: Boolean(payload.resumable),
+    archive,
+    nextChunk: 0,
+    ackedChunks: 0,
+    hash: createHash("sha256"),
+    generation: 0,
+    updatedAt: Date.now(),
+  };
+  downloadTransfers.set(transfer.transferId, transfer);
+
+  const fileName = archive ? `${path.basename(targetPath) || "archive"}.${archive.format}` : path.basename(targetPath);
+  send({
+    type: "agent.file_transfer",
+    payload: {
+      direction: "download",
+      stage: "start",
+      requestId,
+      transferId: transfer.transferId,
+      fileName,
+      path: targetPath,
+      mimeType: inferMimeType(fileName),
+      size: transfer.size,
+      totalChunks: transfer.totalChunks,
+      chunkBytes: FILE_TRANSFER_CHUNK_BYTES,
+      resumable: transfer.resumable || undefined,
+      archive: archive?.format,
+    },
+  });
+
+  try {
+    await pumpDownload(transfer, transfer.generation);
+  } catch (error) {
+    releaseDownloadTransfer(transfer);
+    throw error;
+  }
+}
+
+function handleFileDownloadAck(payload: Extract<ClientCommand["payload"], { command: "file.download.ack" }>): void {
+  const transfer = downloadTransfers.get(payload.transferId.trim());
+  if (!transfer) {
+    return;
+  }
+  const receivedChunks = Math.min(transfer.nextChunk, payload.receivedChunks);
+  transfer.ackedChunks = Math.max(transfer.ackedChunks, receivedChunks);
+  transfer.updatedAt = Date.now();
+  if (transfer.ackedChunks >= transfer.totalChunks) {
+    releaseDownloadTransfer(transfer);
+    return;
+  }
+  transfer.wake?.();
+}
+
+async function handleFileDownloadResume(
+  payload: Extract<ClientCommand["payload"], { command: "file.download.resume" }>,
+): Promise<void> {
+  pruneDownloadTransfers();
+  const transferId = payload.transferId.trim();
+  const transfer = downloadTransfers.get(transferId);
+  if (!transfer) {
+    throw new Error(`download transfer not found: ${transferId}`);
+  }
+
+  // Archives are regenerated from the start, and a zip stream fails by itself once a packed file differs.
+  const fileStat = await fs.stat(transfer.path);
+  if (!transfer.archive && (fileStat.size !== transfer.size || fileStat.mtimeMs !== transfer.mtimeMs)) {
+    releaseDownloadTransfer(transfer);
+    throw new Error(`file changed since the download started: ${transfer.path}`);
+  }
+
+  transfer.generation += 1;
+  const generation = transfer.generation;
+  transfer.wake?.();
+  const receivedChunks = Math.min(transfer.totalChunks, payload.receivedChunks);
+  transfer.ackedChunks = receivedChunks;
+  transfer.nextChunk = receivedChunks;
+  transfer.updatedAt = Date.now();
+  const hash = await hashDownloadPrefix(transfer, Math.min(transfer.size, receivedChunks * FILE_TRANSFER_CHUNK_BYTES));
+  if (transfer.generation !== generation) {
+    return;
+  }
+  transfer.hash = hash;
+  await pumpDownload(transfer, generation);
+}
+
+const FILE_LIST_DEFAULT_LIMIT = 500;
+const FILE_LIST_MAX_LIMIT = 5000;
+
+// Relative paths follow the tmux target pane's cwd, like downloads; an empty path means that directory itself.
+async function resolveBrowsePath(
+  inputPath: string | undefined,
+  sessionKeyRaw: string | undefined,
+  access: "read" | "write",
+): Promise<string> {
+  if ((inputPath ?? "").trim()) {
+    return enforceFilePolicy(await resolveDownloadPath(inputPath ?? "", sessionKeyRaw), access);
+  }
+  return enforceFilePolicy((await resolveTmuxTargetPath(sessionKeyRaw)) ?? FILE_TRANSFER_ROOT, access);
+}
+
+// Recursive moves and deletes would otherwise carry denied paths along with their parent directory.
+async function assertNoDeniedDescendants(dirPath: string): Promise<void> {
+  if (FILE_DENIED_GLOBS.length === 0) {
+    return;
+  }
+  for (const item of await fs.readdir(dirPath, { withFileTypes: true })) {
+    const itemPath = path.join(dirPath, item.name);
+    if (isDeniedByPolicy(itemPath)) {
+      throw new FileAccessDeniedError(`directory contains a path denied by the file policy: ${itemPath}`);
+    }
+    if (item.isDirectory()) {
+      await assertNoDeniedDescendants(itemPath);
+    }
+  }
+}
+
+function isFilesystemRoot(filePath: string): boolean {
+  return path.parse(filePath).root === filePath;
+}
+
+async function describeFileEntry(filePath: string): Promise<FileEntry> {
+  const fileStat = await fs.lstat(filePath);
+  return {
+    name: path.basename(filePath) || filePath,
+    path: filePath,
+    type: fileStat.isSymbolicLink()
+      ? "symlink"
+      : fileStat.isDirectory()
+        ? "directory"
+        : fileStat.isFile()
+          ? "file"
+          : "other",
+    size: fileStat.isFile() ? fileStat.size : 0,
+    modifiedAt: new Date(fileStat.mtimeMs).toISOString(),
+    mode: fileStat.mode & 0o7777,
+  };
+}
+
+function sendFileResult(
+  operation: FileOperation,
+  filePath: string,
+  requestId: string | undefined,
+  result: { entry?: FileEntry; entries?: FileEntry[]; truncated?: boolean },
+): void {
+  send({
+    type: "agent.file_result",
+    payload: {
+      requestId,
+      operation,
+      path: filePath,
+      ...result,
+    },
+  });
+}
+
+async function handleFileList(
+  payload: Extract<ClientCommand["payload"], { command: "file.list" }>,
+  requestId?: string,
+): Promise<void> {
+  const dirPath = await resolveBrowsePath(payload.path, payload.sessionKey, "read");
+  const limit = Math.min(FILE_LIST_MAX_LIMIT, payload.limit ?? FILE_LIST_DEFAULT_LIMIT);
+  const names = (await fs.readdir(dirPath))
+    .filter((name) => payload.showHidden || !name.startsWith("."))
+    .filter((name) => !isDeniedByPolicy(path.join(dirPath, name)));
+
+  const entries: FileEntry[] = [];
+  for (const name of names) {
+    try {
+      entries.push(await describeFileEntry(path.join(dirPath, name)));
+    } catch {
+      // Entries can disappear between readdir and lstat.
+    }
+  }
+  entries.sort((a, b) => Number(b.type === "directory") - Number(a.type === "directory") || a.name.localeCompare(b.name));
+  sendFileResult("list", dirPath, requestId, {
+    entry: await describeFileEntry(dirPath),
+    entries: entries.slice(0, limit),
+    truncated: entries.length > limit || undefined,
+  });
+}
+
+async function handleFileStat(
+  payload: Extract<ClientCommand["payload"], { command: "file.stat" }>,
+  requestId?: string,
+): Promise<void> {
+  const filePath = await resolveBrowsePath(payload.path, payload.sessionKey, "read");
+  sendFileResult("stat", filePath, requestId, { entry: await describeFileEntry(filePath) });
+}
+
+async function handleFileMkdir(
+  payload: Extract<ClientCommand["payload"], { command: "file.mkdir" }>,
+  requestId?: string,
+): Promise<void> {
+  const dirPath = await resolveBrowsePath(payload.path, payload.sessionKey, "write");
+  await fs.mkdir(dirPath, { recursive: Boolean(payload.recursive) });
+  sendFileResult("mkdir", dirPath, requestId, { entry: await describeFileEntry(dirPath) });
+}
+
+async function handleFileMove(
+  payload: Extract<ClientCommand["payload"], { command: "file.move" }>,
+  requestId?: string,
+): Promise<void> {
+  const sourcePath = await resolveBrowsePath(payload.path, payload.sessionKey, "write");
+  let destinationPath = await resolveBrowsePath(payload.destination, payload.sessionKey, "write");
+  if (isFilesystemRoot(sourcePath)) {
+    throw new Error(`refusing to move a filesystem root: ${sourcePath}`);
+  }
+  // Moving onto an existing directory puts the source inside it, like mv.
+  const destinationStat = await fs.stat(destinationPath).catch(() => undefined);
+  if (destinationStat?.isDirectory()) {
+    destinationPath = await enforceFilePolicy(path.join(destinationPath, path.basename(sourcePath)), "write");
+  }
+  if ((await fs.lstat(sourcePath)).isDirectory()) {
+    await assertNoDeniedDescendants(sourcePath);
+  }
+  if (!payload.overwrite && await fileExists(destinationPath)) {
+    throw new Error(`destination already exists: ${destinationPath}`);
+  }
+  try {
+    await fs.rename(sourcePath, destinationPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw error;
+    }
+    await fs.cp(sourcePath, destinationPath, { recursive: true, force: Boolean(payload.overwrite), errorOnExist: true });
+    await fs.rm(sourcePath, { recursive: true });
+  }
+  sendFileResult("move", sourcePath, requestId, { entry: await describeFileEntry(destinationPath) });
+}
+
+async function handleFileDelete(
+  payload: Extract<ClientCommand["payload"], { command: "file.delete" }>,
+  requestId?: string,
+): Promise<void> {
+  const filePath = await resolveBrowsePath(payload.path, payload.sessionKey, "write");
+  if (isFilesystemRoot(filePath)) {
+    throw new Error(`refusing to delete a filesystem root: ${filePath}`);
+  }
+  const entry = await describeFileEntry(filePath);
+  if (entry.type === "directory") {
+    if (payload.recursive) {
+      await assertNoDeniedDescendants(filePath);
+      await fs.rm(filePath, { recursive: true });
+    } else {
+      await fs.rmdir(filePath);
+    }
+  } else {
+    await fs.unlink(filePath);
+  }
+  sendFileResult("delete", filePath, requestId, { entry });
+}
+
+function normalizeControlSessionKey(input: string | undefined): string {
+  const trimmed = (input ?? "").trim();
+  return trimmed || "default";
+}
+
+function getTmuxControlState(sessionKeyRaw: string | undefined): TmuxControlState {
+  const sessionKey = normalizeControlSessionKey(sessionKeyRaw);
+  const existing = tmuxControlStateBySession.get(sessionKey);
+  if (existing) {
+    if (!existing.paneBootstrapRequested) {
+      queueSilentTmuxPaneRefresh(sessionKey);
+    }
+    return existing;
+  }
+
+  const state: TmuxControlState = {
     enabled: false,
     target: "",
     socket: "",
@@ -1594,7 +3521,12 @@ function isLocalPassthroughControlCommand(stripped: string): boolean {
   if (expandTmuxShortAliasCommand(stripped)) {
     return true;
   }
-  return lowered.startsWith("/tmux") || lowered.startsWith("/passthrough") || lowered.startsWith("/pt");
+  return lowered.startsWith("/tmux")
+    || lowered.startsWith("/passthrough")
+    || lowered.startsWith("/pt")
+    || lowered.startsWith("/alert")
+    || lowered.startsWith("/rec")
+    || lowered.startsWith("/macro");
 }
 
 function isPassthroughEscape(stripped: string): boolean {
@@ -1723,10 +3655,107 @@ async function closeTmuxWindow(target: string, socketPath?: string): Promise<str
   return `Closed tmux window \`${windowTarget}\`.`;
 }
 
-async function createTmuxSessionForControl(sessionName: string, socketPath?: string): Promise<string> {
-  const result = await runTmuxControl(["new-session", "-d", "-s", sessionName, "-n", "shell"], socketPath);
-  if (!result.ok) {
-    if (result.output.toLowerCase().includes("duplicate session")) {
+let shellIntegrationDir: Promise<string> | undefined;
+
+// The rc files run in every shell the agent starts, so they go into a fresh private directory that no other
+// user can have created or planted links in; it is removed again on shutdown.
+async function writeShellIntegrationFiles(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "tfclaw-shell-"));
+  const stats = await fs.lstat(dir);
+  const uid = process.getuid?.();
+  if (!stats.isDirectory() || (uid !== undefined && stats.uid !== uid) || (stats.mode & 0o077) !== 0) {
+    throw new Error(`refusing to use ${dir}: not a private directory owned by this user`);
+  }
+  await fs.writeFile(path.join(dir, "tfclaw.bash"), SHELL_INTEGRATION_BASH, { flag: "wx", mode: 0o600 });
+  await fs.writeFile(path.join(dir, ".zshenv"), SHELL_INTEGRATION_ZSHENV, { flag: "wx", mode: 0o600 });
+  await fs.writeFile(path.join(dir, ".zshrc"), SHELL_INTEGRATION_ZSHRC, { flag: "wx", mode: 0o600 });
+  return dir;
+}
+
+async function removeShellIntegrationFiles(): Promise<void> {
+  const pending = shellIntegrationDir;
+  shellIntegrationDir = undefined;
+  const dir = await pending?.catch(() => undefined);
+  if (dir) {
+    await fs.rm(dir, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
+
+// The command a new pane should start so its shell reports command boundaries; empty keeps tmux's default shell.
+async function shellIntegrationCommand(): Promise<string[]> {
+  const shell = (process.env.SHELL ?? "").trim();
+  const name = path.basename(shell);
+  if (!SHELL_INTEGRATION || TMUX_USING_WSL || (name !== "bash" && name !== "zsh")) {
+    return [];
+  }
+  try {
+    shellIntegrationDir ??= writeShellIntegrationFiles();
+    const dir = await shellIntegrationDir;
+    if (name === "bash") {
+      return [shell, "--rcfile", path.join(dir, "tfclaw.bash"), "-i"];
+    }
+    return ["env", `ZDOTDIR=${dir}`, `TFCLAW_ORIGINAL_ZDOTDIR=${process.env.ZDOTDIR ?? ""}`, shell, "-i"];
+  } catch (error) {
+    shellIntegrationDir = undefined;
+    console.warn(`[agent] shell integration unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+}
+
+async function readShellMarks(target: string, socketPath?: string): Promise<ShellMarks | undefined> {
+  const result = await runTmuxControl(
+    ["display-message", "-p", "-t", target, "#{@tfclaw_shell}|#{@tfclaw_cmd_start}|#{@tfclaw_cmd_done}"],
+    socketPath,
+  );
+  if (!result.ok) {
+    return undefined;
+  }
+  const [shell, start = "", done = ""] = result.output.trim().split("|");
+  if (!shell) {
+    return undefined;
+  }
+  const [startSeq = 0] = start.split(/\s+/).map((value) => Number.parseInt(value, 10) || 0);
+  const [doneSeq = 0, exitCode = 0, startedAt = 0, finishedAt = 0] = done
+    .split(/\s+/)
+    .map((value) => Number.parseInt(value, 10) || 0);
+  return { startSeq, doneSeq, exitCode, startedAt, finishedAt };
+}
+
+// Only a shell waiting at its prompt will run the text as a new command; anything else (vim, a REPL) keeps the old heuristics.
+async function createShellCommandProbe(
+  target: string,
+  socketPath: string | undefined,
+  onComplete: (completion: CommandCompletion) => void,
+): Promise<ShellCommandProbe | undefined> {
+  const before = await readShellMarks(target, socketPath);
+  if (!before || before.startSeq !== before.doneSeq) {
+    return undefined;
+  }
+  return async () => {
+    const marks = await readShellMarks(target, socketPath);
+    if (!marks || marks.startSeq <= before.doneSeq) {
+      return "pending";
+    }
+    if (marks.doneSeq <= before.doneSeq) {
+      return "running";
+    }
+    onComplete({
+      exitCode: marks.exitCode,
+      startedAt: new Date(marks.startedAt * 1000).toISOString(),
+      finishedAt: new Date(marks.finishedAt * 1000).toISOString(),
+      durationMs: Math.max(0, marks.finishedAt - marks.startedAt) * 1000,
+    });
+    return "done";
+  };
+}
+
+async function createTmuxSessionForControl(sessionName: string, socketPath?: string): Promise<string> {
+  const result = await runTmuxControl(
+    ["new-session", "-d", "-s", sessionName, "-n", "shell", ...(await shellIntegrationCommand())],
+    socketPath,
+  );
+  if (!result.ok) {
+    if (result.output.toLowerCase().includes("duplicate session")) {
       return `Session '${sessionName}' already exists.`;
     }
     return result.output;
@@ -1759,6 +3788,69 @@ async function captureTmuxSnapshot(target: string, socketPath?: string): Promise
   return out || "(pane has no output)";
 }
 
+// The page ends at `before` when given, otherwise `offset` lines above the last line; `end` is exclusive.
+function historyWindow(totalLines: number, request: TerminalHistoryRequest): { start: number; end: number } {
+  const end = Math.max(0, Math.min(totalLines, request.before ?? totalLines - request.offset));
+  return { start: Math.max(0, end - request.lines), end };
+}
+
+async function readTmuxHistory(
+  target: string,
+  request: TerminalHistoryRequest,
+  socketPath?: string,
+): Promise<TerminalHistoryPage> {
+  const info = await runTmuxControl(
+    ["display-message", "-p", "-t", target, "#{history_size} #{pane_height} #{history_limit}"],
+    socketPath,
+  );
+  if (!info.ok) {
+    throw new Error(info.output);
+  }
+  const [historySize, paneHeight, historyLimit] = info.output.trim().split(/\s+/).map((value) => Number.parseInt(value, 10));
+  if (!Number.isFinite(historySize) || !Number.isFinite(paneHeight)) {
+    throw new Error(`unexpected tmux pane size: ${info.output}`);
+  }
+
+  const totalLines = historySize + paneHeight;
+  const full = Number.isFinite(historyLimit) && historySize >= historyLimit;
+  const { start, end } = historyWindow(totalLines, request);
+  if (end <= start) {
+    return { text: "", cursor: start, totalLines, hasMore: start > 0, full };
+  }
+  // capture-pane numbers the visible screen from 0 and the history above it with negative lines.
+  const result = await runTmuxControl(
+    ["capture-pane", "-p", "-J", "-t", target, "-S", String(start - historySize), "-E", String(end - 1 - historySize)],
+    socketPath,
+  );
+  if (!result.ok) {
+    throw new Error(result.output);
+  }
+  return { text: result.output, cursor: start, totalLines, hasMore: start > 0, full };
+}
+
+async function resizeTmuxTarget(target: string, cols: number, rows: number, socketPath?: string): Promise<string> {
+  const size = ["-x", String(cols), "-y", String(rows)];
+  const windowResult = await runTmuxControl(["resize-window", "-t", target, ...size], socketPath);
+  if (!windowResult.ok) {
+    const paneResult = await runTmuxControl(["resize-pane", "-t", target, ...size], socketPath);
+    if (!paneResult.ok) {
+      return paneResult.output;
+    }
+  }
+  return `[tmux ${target}] resized to ${cols}x${rows}.`;
+}
+
+async function tmuxTargetSize(target: string, socketPath?: string): Promise<string> {
+  const result = await runTmuxControl(
+    ["display-message", "-p", "-t", target, "#{pane_width}x#{pane_height}"],
+    socketPath,
+  );
+  if (!result.ok) {
+    return result.output;
+  }
+  return `[tmux ${target}] size: ${result.output.trim()}`;
+}
+
 async function tmuxPaneCurrentCommand(target: string, socketPath?: string): Promise<string> {
   const result = await runTmuxControl(
     ["display-message", "-p", "-t", target, "#{pane_current_command}"],
@@ -1822,6 +3914,7 @@ async function streamCaptureUpdates(
   socketPath: string | undefined,
   onUpdate: ((content: string) => Promise<void>) | undefined,
   snapshotOnly = false,
+  probe?: ShellCommandProbe,
 ): Promise<string> {
   const windowMs = Math.max(0, TMUX_STREAM_WINDOW_MS);
   if (windowMs <= 0) {
@@ -1862,6 +3955,14 @@ async function streamCaptureUpdates(
       seenChange = true;
     }
 
+    const shellState = probe ? await probe() : "pending";
+    if (shellState === "done") {
+      const final = snapshotOnly
+        ? await captureTmuxSnapshot(target, socketPath)
+        : await captureTmuxTarget(target, captureLines, socketPath);
+      return final.startsWith("Error:") ? latest : final;
+    }
+
     if (seenChange) {
       if (now - lastChangeAt >= idleMs) {
         break;
@@ -1884,6 +3985,7 @@ async function sendLiteralToTmux(
   if (!sendResult.ok) {
     return sendResult.output;
   }
+  noteTypedInput(text);
 
   if (!pressEnter) {
     return undefined;
@@ -1957,6 +4059,7 @@ async function sendKeysToTmux(
 }
 
 async function tmuxPassthrough(
+  sessionKey: string,
   target: string,
   text: string,
   socketPath: string | undefined,
@@ -1964,61 +4067,26 @@ async function tmuxPassthrough(
   waitMs: number,
   streamMode: TmuxStreamMode,
   onUpdate?: TmuxProgressCallback,
+  onComplete?: TmuxCompletionCallback,
 ): Promise<string> {
   if (!text) {
     return "Error: empty command";
   }
-
-  let baselineCapture = "";
-  if (streamMode !== "off") {
-    baselineCapture = await captureTmuxTarget(target, captureLines, socketPath);
-    if (baselineCapture.startsWith("Error:")) {
-      baselineCapture = "";
-    }
-  }
-
-  const sendError = await sendLiteralToTmux(target, text, socketPath, true);
-  if (sendError) {
-    return sendError;
-  }
-
-  const clampedWaitMs = Math.max(0, Math.min(waitMs, 5000));
-  if (clampedWaitMs > 0) {
-    await sleepMs(clampedWaitMs);
-  }
-
-  let capture = await captureTmuxTarget(target, captureLines, socketPath);
-  if (streamMode !== "off") {
-    const streamEnabled = streamMode === "on" || await shouldStreamTmuxUpdates(target, socketPath);
-    if (streamEnabled) {
-      if (onUpdate) {
-        try {
-          if (baselineCapture) {
-            await onUpdate(formatTmuxSnapshotMessage(target, baselineCapture));
-          } else {
-            await onUpdate(formatTmuxSnapshotMessage(target, capture));
-          }
-        } catch {
-          // Ignore progress callback failures.
-        }
-      }
-      if (onUpdate && baselineCapture && capture !== baselineCapture) {
-        const delta = captureDelta(baselineCapture, capture);
-        const chunk = delta || capture;
-        try {
-          await onUpdate(formatTmuxUpdateMessage(target, chunk));
-        } catch {
-          // Ignore progress callback failures.
-        }
-      }
-      capture = await streamCaptureUpdates(target, capture, captureLines, socketPath, onUpdate, false);
-    }
-  }
-
-  return `[tmux ${target}]\n${trimCommandOutput(capture)}`;
+  return runTmuxPassthrough(
+    sessionKey,
+    target,
+    () => sendLiteralToTmux(target, text, socketPath, true),
+    socketPath,
+    captureLines,
+    waitMs,
+    streamMode,
+    onUpdate,
+    onComplete,
+  );
 }
 
 async function tmuxKeyPassthrough(
+  sessionKey: string,
   target: string,
   keys: string[],
   socketPath: string | undefined,
@@ -2026,7 +4094,39 @@ async function tmuxKeyPassthrough(
   waitMs: number,
   streamMode: TmuxStreamMode,
   onUpdate?: TmuxProgressCallback,
+  onComplete?: TmuxCompletionCallback,
+): Promise<string> {
+  return runTmuxPassthrough(
+    sessionKey,
+    target,
+    () => sendKeysToTmux(target, keys, socketPath),
+    socketPath,
+    captureLines,
+    waitMs,
+    streamMode,
+    onUpdate,
+    onComplete,
+  );
+}
+
+// Sends input with `send` (which returns an error message or undefined), then streams the pane like `/tmux send` does.
+async function runTmuxPassthrough(
+  sessionKey: string,
+  target: string,
+  send: () => Promise<string | undefined>,
+  socketPath: string | undefined,
+  captureLines: number,
+  waitMs: number,
+  streamMode: TmuxStreamMode,
+  onUpdate?: TmuxProgressCallback,
+  onComplete?: TmuxCompletionCallback,
 ): Promise<string> {
+  let completion: CommandCompletion | undefined;
+  const probe = onComplete
+    ? await createShellCommandProbe(target, socketPath, (value) => {
+      completion = value;
+    })
+    : undefined;
   let baselineCapture = "";
   if (streamMode !== "off") {
     baselineCapture = await captureTmuxTarget(target, captureLines, socketPath);
@@ -2035,7 +4135,7 @@ async function tmuxKeyPassthrough(
     }
   }
 
-  const sendError = await sendKeysToTmux(target, keys, socketPath);
+  const sendError = await send();
   if (sendError) {
     return sendError;
   }
@@ -2045,9 +4145,13 @@ async function tmuxKeyPassthrough(
     await sleepMs(clampedWaitMs);
   }
 
+  const shellState = probe ? await probe() : "pending";
   let capture = await captureTmuxTarget(target, captureLines, socketPath);
-  if (streamMode !== "off") {
-    const streamEnabled = streamMode === "on" || await shouldStreamTmuxUpdates(target, socketPath);
+  let footer = "";
+  if (streamMode !== "off" && shellState !== "done") {
+    const streamEnabled = streamMode === "on"
+      || shellState === "running"
+      || await shouldStreamTmuxUpdates(target, socketPath);
     if (streamEnabled) {
       if (onUpdate) {
         try {
@@ -2069,11 +4173,21 @@ async function tmuxKeyPassthrough(
           // Ignore progress callback failures.
         }
       }
-      capture = await streamCaptureUpdates(target, capture, captureLines, socketPath, onUpdate, false);
+      capture = await streamCaptureUpdates(target, capture, captureLines, socketPath, onUpdate, false, probe);
+      // The stream stopped at the idle cutoff while the command kept running; an exit watch reports the end instead.
+      if (!completion && probe && await probe() === "running") {
+        const watchId = await watchRunningTmuxCommand(sessionKey, target, socketPath);
+        footer = watchId
+          ? `\n\nStill running; watch ${watchId} reports when it exits.`
+          : "\n\nStill running; use `/tmux watch exit` to hear when it exits.";
+      }
     }
   }
 
-  return `[tmux ${target}]\n${trimCommandOutput(capture)}`;
+  if (completion) {
+    onComplete?.(completion);
+  }
+  return `[tmux ${target}]\n${trimCommandOutput(capture)}${footer}`;
 }
 
 async function handlePassthroughCommand(sessionKey: string, rawCommand: string): Promise<string> {
@@ -2120,10 +4234,309 @@ async function handlePassthroughCommand(sessionKey: string, rawCommand: string):
   );
 }
 
+// Lines that scrolled in since the previous capture. The old last line may have been completed since, so it counts as new.
+function appendedLines(previous: string, current: string): string[] {
+  const stable = previous.split("\n").slice(0, -1);
+  const currLines = current.split("\n");
+  for (let shift = 0; shift < stable.length; shift += 1) {
+    const kept = stable.length - shift;
+    if (kept > currLines.length) {
+      continue;
+    }
+    let same = true;
+    for (let idx = 0; idx < kept; idx += 1) {
+      if (stable[shift + idx] !== currLines[idx]) {
+        same = false;
+        break;
+      }
+    }
+    if (same) {
+      return currLines.slice(kept);
+    }
+  }
+  return currLines;
+}
+
+function describeTmuxWatch(watch: TmuxWatch): string {
+  if (watch.kind === "match") {
+    return `match /${watch.pattern?.pattern() ?? ""}/`;
+  }
+  if (watch.kind === "quiet") {
+    return `quiet for ${Math.round(watch.quietMs / 1000)}s`;
+  }
+  return watch.doneSeq !== undefined ? "exit" : `exit of ${watch.command}`;
+}
+
+function emitTmuxWatchEvent(
+  watch: TmuxWatch,
+  reason: WatchEventReason,
+  headline: string,
+  detail = "",
+  exitCode?: number,
+): void {
+  tmuxWatches.delete(watch.watchId);
+  if (tmuxWatches.size === 0) {
+    stopTmuxWatchLoop();
+  }
+  const body = detail.trim() ? `\n${trimCommandOutput(detail.trim(), 2000)}` : "";
+  const event: AgentWatchEvent = {
+    type: "agent.watch_event",
+    payload: {
+      watchId: watch.watchId,
+      sessionKey: watch.sessionKey,
+      target: watch.target,
+      reason,
+      text: `[tmux ${watch.target} watch ${watch.watchId}] ${headline}${body}`,
+      exitCode,
+      at: new Date().toISOString(),
+    },
+  };
+  if (ws && ws.readyState === WebSocket.OPEN && !queuedWatchEvents.length) {
+    send(event);
+    return;
+  }
+  queuedWatchEvents.push(event);
+  queuedWatchEvents.splice(0, Math.max(0, queuedWatchEvents.length - TMUX_WATCH_QUEUE_MAX));
+}
+
+// With E2E the events wait for the first key grant of the connection, or no client could open them.
+function flushQueuedWatchEvents(): void {
+  while (queuedWatchEvents.length > 0 && ws && ws.readyState === WebSocket.OPEN) {
+    send(queuedWatchEvents.shift()!);
+  }
+}
+
+function tailLines(text: string, count: number): string {
+  return text.split("\n").slice(-count).join("\n");
+}
+
+async function checkTmuxWatch(watch: TmuxWatch): Promise<void> {
+  const socketPath = watch.socket || undefined;
+  const capture = await captureTmuxTarget(watch.target, TMUX_WATCH_CAPTURE_LINES, socketPath);
+  if (capture.startsWith("Error:")) {
+    emitTmuxWatchEvent(watch, "closed", "pane is no longer available.", capture);
+    return;
+  }
+
+  const now = Date.now();
+  if (capture !== watch.lastCapture) {
+    const added = appendedLines(watch.lastCapture, capture);
+    watch.lastCapture = capture;
+    watch.lastChangeAt = now;
+    const matched = watch.pattern
+      ? added.find((line) => watch.pattern!.test(line) && !isTypedInputEcho(line))
+      : undefined;
+    if (matched !== undefined) {
+      emitTmuxWatchEvent(watch, "match", `matched /${watch.pattern!.pattern()}/: ${matched.trim()}`, tailLines(capture, 10));
+      return;
+    }
+  }
+
+  if (watch.kind === "quiet" && now - watch.lastChangeAt >= watch.quietMs) {
+    emitTmuxWatchEvent(watch, "quiet", `no output for ${Math.round(watch.quietMs / 1000)}s.`, tailLines(capture, 10));
+    return;
+  }
+
+  if (watch.kind !== "exit") {
+    return;
+  }
+  if (watch.doneSeq !== undefined) {
+    const marks = await readShellMarks(watch.target, socketPath);
+    if (marks && marks.doneSeq > watch.doneSeq) {
+      const duration = formatDurationSeconds(Math.max(0, marks.finishedAt - marks.startedAt));
+      emitTmuxWatchEvent(
+        watch,
+        "exit",
+        `command exited with code ${marks.exitCode} after ${duration}.`,
+        tailLines(capture, 10),
+        marks.exitCode,
+      );
+    }
+    return;
+  }
+  const command = await tmuxPaneCurrentCommand(watch.target, socketPath);
+  if (command && command !== watch.command) {
+    emitTmuxWatchEvent(watch, "exit", `${watch.command} exited.`, tailLines(capture, 10));
+  }
+}
+
+function formatDurationSeconds(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  return `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, "0")}s`;
+}
+
+async function runTmuxWatchChecks(): Promise<void> {
+  if (tmuxWatchBusy) {
+    return;
+  }
+  tmuxWatchBusy = true;
+  try {
+    for (const watch of [...tmuxWatches.values()]) {
+      try {
+        await checkTmuxWatch(watch);
+      } catch (error) {
+        console.warn(`[agent] watch ${watch.watchId} check failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  } finally {
+    tmuxWatchBusy = false;
+  }
+}
+
+function startTmuxWatchLoop(): void {
+  if (tmuxWatchTimer) {
+    return;
+  }
+  tmuxWatchTimer = setInterval(() => {
+    void runTmuxWatchChecks();
+  }, TMUX_WATCH_POLL_MS);
+}
+
+function stopTmuxWatchLoop(): void {
+  if (!tmuxWatchTimer) {
+    return;
+  }
+  clearInterval(tmuxWatchTimer);
+  tmuxWatchTimer = undefined;
+}
+
+// Hands a command the stream gave up on to an exit watch of the session key; undefined when none can be set.
+async function watchRunningTmuxCommand(
+  sessionKey: string,
+  target: string,
+  socketPath: string | undefined,
+): Promise<string | undefined> {
+  const own = [...tmuxWatches.values()].filter((watch) => watch.sessionKey === sessionKey);
+  if (own.length >= TMUX_WATCH_MAX_PER_SESSION) {
+    return undefined;
+  }
+  const marks = await readShellMarks(target, socketPath);
+  if (!marks || marks.startSeq <= marks.doneSeq) {
+    return undefined;
+  }
+  const capture = await captureTmuxTarget(target, TMUX_WATCH_CAPTURE_LINES, socketPath);
+  if (capture.startsWith("Error:")) {
+    return undefined;
+  }
+  const watch: TmuxWatch = {
+    watchId: `w${tmuxWatchSeq + 1}`,
+    sessionKey,
+    target,
+    socket: socketPath ?? "",
+    kind: "exit",
+    quietMs: 0,
+    doneSeq: marks.doneSeq,
+    command: "",
+    lastCapture: capture,
+    lastChangeAt: Date.now(),
+  };
+  tmuxWatchSeq += 1;
+  tmuxWatches.set(watch.watchId, watch);
+  startTmuxWatchLoop();
+  return watch.watchId;
+}
+
+async function handleTmuxWatchCommand(
+  sessionKey: string,
+  state: TmuxControlState,
+  stripped: string,
+  tokens: string[],
+): Promise<string> {
+  const action = (tokens[2] ?? "").toLowerCase();
+  const own = [...tmuxWatches.values()].filter((watch) => watch.sessionKey === sessionKey);
+
+  if (!action || action === "list") {
+    if (own.length === 0) {
+      return "No active watches.";
+    }
+    return ["tmux watches:", ...own.map((watch) => `- ${watch.watchId} ${watch.target} | ${describeTmuxWatch(watch)}`)].join("\n");
+  }
+
+  if (action === "stop" || action === "off" || action === "cancel") {
+    const id = tokens[3];
+    if (!id) {
+      return "Usage: /tmux watch stop <id|all>";
+    }
+    const removed = id.toLowerCase() === "all" ? own : own.filter((watch) => watch.watchId === id);
+    if (removed.length === 0) {
+      return `Error: no active watch '${id}'.`;
+    }
+    removed.forEach((watch) => tmuxWatches.delete(watch.watchId));
+    if (tmuxWatches.size === 0) {
+      stopTmuxWatchLoop();
+    }
+    return `Stopped watch ${removed.map((watch) => watch.watchId).join(", ")}.`;
+  }
+
+  const target = state.target.trim();
+  if (!target) {
+    return "Error: target not set. Use `/tmux target <session:window.pane|id>` first.";
+  }
+  if (own.length >= TMUX_WATCH_MAX_PER_SESSION) {
+    return `Error: at most ${TMUX_WATCH_MAX_PER_SESSION} watches are allowed; stop one with \`/tmux watch stop <id>\`.`;
+  }
+  const socketPath = state.socket || undefined;
+  const capture = await captureTmuxTarget(target, TMUX_WATCH_CAPTURE_LINES, socketPath);
+  if (capture.startsWith("Error:")) {
+    return capture;
+  }
+
+  const watch: TmuxWatch = {
+    watchId: `w${tmuxWatchSeq + 1}`,
+    sessionKey,
+    target,
+    socket: state.socket,
+    kind: "match",
+    quietMs: 0,
+    command: "",
+    lastCapture: capture,
+    lastChangeAt: Date.now(),
+  };
+
+  if (action === "exit") {
+    watch.kind = "exit";
+    const marks = await readShellMarks(target, socketPath);
+    if (marks && marks.startSeq > marks.doneSeq) {
+      watch.doneSeq = marks.doneSeq;
+    } else {
+      watch.command = await tmuxPaneCurrentCommand(target, socketPath);
+      if (!watch.command || TMUX_SHELL_COMMANDS.has(watch.command)) {
+        return `Error: nothing is running in ${target}.`;
+      }
+    }
+  } else if (action === "quiet") {
+    const seconds = tokens[3] ? Number.parseInt(tokens[3], 10) : TMUX_WATCH_DEFAULT_QUIET_SECONDS;
+    if (!Number.isFinite(seconds)) {
+      return "Usage: /tmux watch quiet [seconds]";
+    }
+    watch.kind = "quiet";
+    watch.quietMs = Math.max(5, Math.min(seconds, 86_400)) * 1000;
+  } else {
+    // `match` lets a pattern start with a reserved word, e.g. `/tmux watch match exit code`.
+    const source = stripped.replace(action === "match" ? /^\S+\s+watch\s+match\s*/i : /^\S+\s+watch\s+/i, "");
+    if (!source) {
+      return "Usage: /tmux watch match <regex>";
+    }
+    try {
+      watch.pattern = compileUserPattern(source);
+    } catch (error) {
+      return `Error: invalid pattern: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  tmuxWatchSeq += 1;
+  tmuxWatches.set(watch.watchId, watch);
+  startTmuxWatchLoop();
+  return `[tmux ${target}] watch ${watch.watchId} set: ${describeTmuxWatch(watch)}. A message is sent here when it fires.`;
+}
+
 async function handleTmuxCommand(
   sessionKey: string,
   rawCommand: string,
   onProgress?: TmuxProgressCallback,
+  onComplete?: TmuxCompletionCallback,
 ): Promise<string> {
   const state = getTmuxControlState(sessionKey);
   const stripped = rawCommand.trim();
@@ -2142,6 +4555,8 @@ async function handleTmuxCommand(
       + "- /tmux wait <0-5000>\n"
       + "- /tmux stream <auto|on|off>\n"
       + "- /tmux capture [lines]\n"
+      + "- /tmux size [<cols>x<rows>]\n"
+      + "- /tmux watch [<regex>|exit|quiet [seconds]|stop <id|all>]\n"
       + "- /tmux key <key...>\n"
       + "- /tmux send <literal command>\n"
       + "- /passthrough on|off|status\n"
@@ -2321,6 +4736,27 @@ async function handleTmuxCommand(
     return `[tmux ${target}]\n${content}`;
   }
 
+  if (sub === "size") {
+    const target = state.target.trim();
+    if (!target) {
+      return "Error: target not set. Use `/tmux target <session:window.pane|id>` first.";
+    }
+    if (tokens.length < 3) {
+      return tmuxTargetSize(target, socketPath);
+    }
+    const match = tokens[2].match(/^(\d+)x(\d+)$/i);
+    if (!match) {
+      return "Usage: /tmux size [<cols>x<rows>]";
+    }
+    const cols = Math.max(10, Math.min(Number.parseInt(match[1], 10), 500));
+    const rows = Math.max(5, Math.min(Number.parseInt(match[2], 10), 200));
+    return resizeTmuxTarget(target, cols, rows, socketPath);
+  }
+
+  if (sub === "watch") {
+    return handleTmuxWatchCommand(sessionKey, state, stripped, tokens);
+  }
+
   if (sub === "key" || sub === "keys" || sub === "sendkey" || sub === "sendkeys" || sub === "send-keys") {
     if (tokens.length < 3) {
       return (
@@ -2336,6 +4772,7 @@ async function handleTmuxCommand(
       return "Error: target not set. Use `/tmux target <session:window.pane|id>` first.";
     }
     return tmuxKeyPassthrough(
+      sessionKey,
       target,
       tokens.slice(2),
       socketPath,
@@ -2343,6 +4780,7 @@ async function handleTmuxCommand(
       state.waitMs,
       state.streamMode,
       onProgress,
+      onComplete,
     );
   }
 
@@ -2359,6 +4797,7 @@ async function handleTmuxCommand(
       return "Error: empty command.";
     }
     return tmuxPassthrough(
+      sessionKey,
       target,
       payload,
       socketPath,
@@ -2366,16 +4805,700 @@ async function handleTmuxCommand(
       state.waitMs,
       state.streamMode,
       onProgress,
+      onComplete,
     );
   }
 
   return "Unknown /tmux command. Use `/tmux help`.";
 }
 
+function noteTypedInput(text: string): void {
+  for (const piece of text.split(/[\r\n]+/)) {
+    const typed = piece.trim();
+    // Single keystrokes would end too many lines; only whole commands are worth remembering.
+    if (typed.length >= 3) {
+      recentTypedInput.push(typed);
+    }
+  }
+  if (recentTypedInput.length > 20) {
+    recentTypedInput.splice(0, recentTypedInput.length - 20);
+  }
+}
+
+function isTypedInputEcho(line: string): boolean {
+  const trimmed = line.trimEnd();
+  return recentTypedInput.some((typed) => trimmed.endsWith(typed));
+}
+
+function stripTerminalEscapes(raw: string): string {
+  return raw.replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b\[[0-?]*[ -/]*[@-~]|\x1b[@-Z\\-_]/g, "");
+}
+
+// The text a viewer would see on the line, after carriage-return overwrites.
+function plainTerminalLine(raw: string): string {
+  const segments = stripTerminalEscapes(raw).replace(/\r+$/, "").split("\r");
+  return trimTail(segments[segments.length - 1] ?? "", ALERT_MAX_LINE_CHARS);
+}
+
+// Readline wraps a long input line by printing its last character again after a carriage return; undo that.
+function unwrappedInputLine(raw: string): string {
+  return stripTerminalEscapes(raw).replace(/(.)\r\1/g, "$1").replace(/ \r/g, "");
+}
+
+function compileUserPattern(pattern: string, flags = ""): RE2JS {
+  if (pattern.length > USER_PATTERN_MAX_CHARS) {
+    throw new Error(`pattern is longer than ${USER_PATTERN_MAX_CHARS} characters`);
+  }
+  let options = 0;
+  if (flags.includes("i")) {
+    options |= RE2JS.CASE_INSENSITIVE;
+  }
+  if (flags.includes("m")) {
+    options |= RE2JS.MULTILINE;
+  }
+  if (flags.includes("s")) {
+    options |= RE2JS.DOTALL;
+  }
+  try {
+    return RE2JS.compile(pattern, options);
+  } catch (error) {
+    throw new Error(`${error instanceof Error ? error.message : String(error)} (backreferences and lookarounds are not supported)`);
+  }
+}
+
+function compileAlertRule(rule: AlertRule): CompiledAlertRule {
+  const id = String(rule.id ?? "").trim();
+  if (!/^[\w.-]{1,64}$/.test(id)) {
+    throw new Error(`invalid rule id '${id}' (letters, digits, '_', '.', '-')`);
+  }
+  const flags = String(rule.flags ?? "");
+  if (!/^[ims]*$/.test(flags)) {
+    throw new Error(`rule ${id}: flags may only contain i, m, s`);
+  }
+  const pattern = String(rule.pattern ?? "");
+  if (!pattern) {
+    throw new Error(`rule ${id}: empty pattern`);
+  }
+  let regex: RE2JS;
+  try {
+    regex = compileUserPattern(pattern, flags);
+  } catch (error) {
+    throw new Error(`rule ${id}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const context = Math.max(0, Math.min(ALERT_MAX_CONTEXT_LINES, Math.floor(Number(rule.context ?? ALERT_DEFAULT_CONTEXT_LINES))));
+  const cooldownSeconds = Math.max(0, Math.floor(Number(rule.cooldownSeconds ?? ALERT_DEFAULT_COOLDOWN_SECONDS)));
+  if (!Number.isFinite(context) || !Number.isFinite(cooldownSeconds)) {
+    throw new Error(`rule ${id}: context and cooldownSeconds must be numbers`);
+  }
+  return {
+    id,
+    pattern,
+    flags: flags || undefined,
+    context,
+    cooldownSeconds,
+    regex,
+    lastFiredAt: 0,
+  };
+}
+
+async function loadAlertRules(): Promise<void> {
+  if (!ALERT_RULES_FILE) {
+    return;
+  }
+  let raw: string;
+  try {
+    raw = await fs.readFile(ALERT_RULES_FILE, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`[agent] cannot read alert rules ${ALERT_RULES_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return;
+  }
+  try {
+    for (const rule of parseJsonArray<AlertRule>(raw.trim())) {
+      try {
+        const compiled = compileAlertRule(rule);
+        alertRules.set(compiled.id, compiled);
+      } catch (error) {
+        console.warn(`[agent] skipped alert rule: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    console.log(`[agent] loaded ${alertRules.size} alert rule(s) from ${ALERT_RULES_FILE}`);
+  } catch (error) {
+    console.warn(`[agent] invalid alert rules ${ALERT_RULES_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function saveAlertRules(): Promise<void> {
+  if (!ALERT_RULES_FILE) {
+    return;
+  }
+  const rules: AlertRule[] = [...alertRules.values()].map(({ id, pattern, flags, context, cooldownSeconds }) => ({
+    id,
+    pattern,
+    flags,
+    context,
+    cooldownSeconds,
+  }));
+  await fs.mkdir(path.dirname(ALERT_RULES_FILE), { recursive: true });
+  await fs.writeFile(ALERT_RULES_FILE, `${JSON.stringify(rules, null, 2)}\n`, "utf8");
+}
+
+function flushPendingAlert(pending: PendingAlert): void {
+  clearTimeout(pending.timer);
+  pendingAlerts.delete(pending);
+  alertSeq += 1;
+  send({
+    type: "agent.alert",
+    payload: {
+      alertId: `a${alertSeq}`,
+      ruleId: pending.rule.id,
+      pattern: pending.rule.pattern,
+      terminalId: pending.terminal.terminalId,
+      terminalTitle: pending.terminal.title,
+      line: pending.line,
+      context: [...pending.before, pending.line, ...pending.after].join("\n"),
+      at: nowIso(),
+    },
+  });
+}
+
+// A closed terminal prints no more lines, so its pending alerts go out with the context they have.
+function releaseTerminalAlerts(terminal: TerminalSession): void {
+  alertLineStates.delete(terminal.terminalId);
+  for (const pending of pendingAlerts) {
+    if (pending.terminal === terminal) {
+      flushPendingAlert(pending);
+    }
+  }
+}
+
+function evaluateAlertRules(terminal: TerminalSession, chunk: string): void {
+  if (alertRules.size === 0 && pendingAlerts.size === 0) {
+    return;
+  }
+  let state = alertLineStates.get(terminal.terminalId);
+  if (!state) {
+    state = { partial: "", recent: [] };
+    alertLineStates.set(terminal.terminalId, state);
+  }
+  const parts = `${state.partial}${chunk}`.split("\n");
+  state.partial = trimTail(parts.pop() ?? "", ALERT_MAX_LINE_CHARS * 4);
+
+  const now = Date.now();
+  for (const raw of parts) {
+    const line = plainTerminalLine(raw);
+    for (const pending of pendingAlerts) {
+      if (pending.terminal === terminal) {
+        pending.after.push(line);
+        if (pending.after.length >= (pending.rule.context ?? 0)) {
+          flushPendingAlert(pending);
+        }
+      }
+    }
+    for (const rule of alertRules.values()) {
+      if (
+        !rule.regex.test(line)
+        || now - rule.lastFiredAt < (rule.cooldownSeconds ?? 0) * 1000
+        || isTypedInputEcho(unwrappedInputLine(raw))
+      ) {
+        continue;
+      }
+      rule.lastFiredAt = now;
+      const context = rule.context ?? 0;
+      const pending: PendingAlert = {
+        rule,
+        terminal,
+        line,
+        before: context > 0 ? state.recent.slice(-context) : [],
+        after: [],
+        timer: setTimeout(() => flushPendingAlert(pending), ALERT_CONTEXT_WAIT_MS),
+      };
+      pendingAlerts.add(pending);
+      if (context === 0) {
+        flushPendingAlert(pending);
+      }
+    }
+    state.recent.push(line);
+    if (state.recent.length > ALERT_MAX_CONTEXT_LINES) {
+      state.recent.splice(0, state.recent.length - ALERT_MAX_CONTEXT_LINES);
+    }
+  }
+}
+
+function describeAlertRule(rule: CompiledAlertRule): string {
+  return `${rule.id} /${rule.pattern}/${rule.flags ?? ""} | context ${rule.context} | cooldown ${rule.cooldownSeconds}s`;
+}
+
+async function handleAlertCommand(stripped: string): Promise<string> {
+  const tokens = stripped.split(/\s+/);
+  const sub = (tokens[1] ?? "list").toLowerCase();
+
+  if (sub === "help" || sub === "?") {
+    return (
+      "alert commands:\n"
+      + "- /alert list\n"
+      + "- /alert add <id> [--context <lines>] [--cooldown <seconds>] [--ignore-case] <regex>\n"
+      + "- /alert remove <id>\n"
+      + "Rules match every line of terminal output; alerts go to clients subscribed to them."
+    );
+  }
+
+  if (sub === "list" || sub === "ls") {
+    if (alertRules.size === 0) {
+      return "No alert rules.";
+    }
+    return ["alert rules:", ...[...alertRules.values()].map((rule) => `- ${describeAlertRule(rule)}`)].join("\n");
+  }
+
+  if (sub === "remove" || sub === "rm" || sub === "delete") {
+    const id = tokens[2];
+    if (!id) {
+      return "Usage: /alert remove <id>";
+    }
+    if (!alertRules.delete(id)) {
+      return `Error: no alert rule '${id}'.`;
+    }
+    await saveAlertRules();
+    return `Removed alert rule '${id}'.`;
+  }
+
+  if (sub === "add") {
+    // Options come first; everything after them is the regex, spaces included.
+    let rest = stripped.replace(/^\S+\s+\S+\s*/, "");
+    const takeToken = (): string => {
+      const match = /^(\S+)\s*/.exec(rest);
+      rest = rest.slice(match?.[0].length ?? rest.length);
+      return match?.[1] ?? "";
+    };
+    const rule: AlertRule = { id: takeToken(), pattern: "" };
+    while (rest.startsWith("--")) {
+      const option = takeToken().toLowerCase();
+      if (option === "--ignore-case" || option === "-i") {
+        rule.flags = "i";
+      } else if (option === "--context") {
+        rule.context = Number.parseInt(takeToken(), 10);
+      } else if (option === "--cooldown") {
+        rule.cooldownSeconds = Number.parseInt(takeToken(), 10);
+      } else {
+        return `Error: unknown option ${option}.`;
+      }
+    }
+    rule.pattern = rest.trim();
+    if (!rule.id || !rule.pattern) {
+      return "Usage: /alert add <id> [--context <lines>] [--cooldown <seconds>] [--ignore-case] <regex>";
+    }
+    let compiled: CompiledAlertRule;
+    try {
+      compiled = compileAlertRule(rule);
+    } catch (error) {
+      return `Error: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    const replaced = alertRules.has(compiled.id);
+    alertRules.set(compiled.id, compiled);
+    await saveAlertRules();
+    return `${replaced ? "Updated" : "Added"} alert rule ${describeAlertRule(compiled)}.`;
+  }
+
+  return "Unknown /alert command. Use `/alert help`.";
+}
+
+function recordTerminalEvent(terminal: TerminalSession, code: "o" | "r", data: string): void {
+  const recording = terminal.recording;
+  if (!recording) {
+    return;
+  }
+  const elapsed = Math.round(Date.now() - recording.startedAt) / 1000;
+  const line = `${JSON.stringify([elapsed, code, data])}\n`;
+  recording.bytes += Buffer.byteLength(line);
+  recording.stream.write(line);
+  if (recording.bytes >= RECORDING_MAX_BYTES) {
+    console.warn(`[agent] recording ${recording.path} reached ${RECORDING_MAX_BYTES} bytes, stopping`);
+    void stopTerminalRecording(terminal);
+  }
+}
+
+// asciicast v2: a JSON header line, then one `[seconds, code, data]` event per line.
+async function startTerminalRecording(terminal: TerminalSession): Promise<TerminalRecording> {
+  if (terminal.recording) {
+    return terminal.recording;
+  }
+  terminal.recordingStart ??= openTerminalRecording(terminal).finally(() => {
+    terminal.recordingStart = undefined;
+  });
+  return terminal.recordingStart;
+}
+
+async function openTerminalRecording(terminal: TerminalSession): Promise<TerminalRecording> {
+  await fs.mkdir(RECORDINGS_DIR, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const filePath = path.join(RECORDINGS_DIR, `${sanitizeFileName(terminal.title).replace(/\s+/g, "_")}-${stamp}.cast`);
+  const stream = createWriteStream(filePath, { flags: "wx" });
+  await new Promise<void>((resolve, reject) => {
+    stream.once("open", () => resolve());
+    stream.once("error", reject);
+  });
+  if (!terminal.isActive) {
+    stream.end();
+    await fs.rm(filePath, { force: true });
+    throw new Error(`${terminal.title} closed before the recording started`);
+  }
+
+  const startedAt = Date.now();
+  const header = {
+    version: 2,
+    width: terminal.cols ?? PTY_COLS,
+    height: terminal.rows ?? PTY_ROWS,
+    timestamp: Math.floor(startedAt / 1000),
+    title: terminal.title,
+    env: { SHELL: process.env.SHELL ?? "", TERM: process.env.TERM ?? "xterm-256color" },
+  };
+  const headerLine = `${JSON.stringify(header)}\n`;
+  stream.write(headerLine);
+  const recording: TerminalRecording = { path: filePath, stream, startedAt, bytes: Buffer.byteLength(headerLine) };
+  stream.on("error", (error) => {
+    console.warn(`[agent] recording ${filePath} failed: ${error.message}`);
+    if (terminal.recording === recording) {
+      terminal.recording = undefined;
+      publishTerminalList();
+    }
+  });
+  terminal.recording = recording;
+  publishTerminalList();
+  return recording;
+}
+
+async function stopTerminalRecording(terminal: TerminalSession): Promise<TerminalRecording | undefined> {
+  await terminal.recordingStart?.catch(() => undefined);
+  const recording = terminal.recording;
+  if (!recording) {
+    return undefined;
+  }
+  terminal.recording = undefined;
+  await new Promise<void>((resolve) => {
+    recording.stream.end(() => resolve());
+  });
+  publishTerminalList();
+  return recording;
+}
+
+function formatStoppedRecording(recording: TerminalRecording): string {
+  const seconds = Math.round((Date.now() - recording.startedAt) / 1000);
+  return `recording saved: ${recording.path} (${formatDurationSeconds(seconds)}, ${recording.bytes} bytes)`;
+}
+
+// An explicit id or title wins; otherwise the terminal behind the session's tmux target, or the only terminal there is.
+async function resolveRecordTerminal(
+  sessionKey: string,
+  ref: string,
+  candidates: TerminalSession[],
+): Promise<TerminalSession | string> {
+  if (ref) {
+    const lowered = ref.toLowerCase();
+    const match = candidates.find((terminal) => terminal.terminalId === ref)
+      ?? candidates.find((terminal) => terminal.title.toLowerCase() === lowered);
+    return match ?? `Error: terminal not found: ${ref}`;
+  }
+  const state = getTmuxControlState(sessionKey);
+  if (state.target.trim() && tmuxAvailable) {
+    const result = await runTmuxControl(
+      ["display-message", "-p", "-t", state.target.trim(), "#{pane_id}"],
+      state.socket || undefined,
+    );
+    const paneId = result.ok ? result.output.trim() : "";
+    const match = candidates.find((terminal) => terminal.handle.kind === "tmux" && terminal.handle.paneId === paneId);
+    if (match) {
+      return match;
+    }
+  }
+  if (candidates.length === 1) {
+    return candidates[0];
+  }
+  return candidates.length === 0
+    ? "Error: no terminal to record."
+    : "Error: more than one terminal; name one with `/rec <start|stop> <id|title>`.";
+}
+
+async function handleRecordCommand(sessionKey: string, stripped: string): Promise<string> {
+  const tokens = stripped.split(/\s+/);
+  const sub = (tokens[1] ?? "status").toLowerCase();
+  const ref = tokens.slice(2).join(" ").trim();
+  const active = [...terminals.values()].filter((terminal) => terminal.isActive);
+
+  if (sub === "help" || sub === "?") {
+    return (
+      "recording commands:\n"
+      + "- /rec start [id|title]\n"
+      + "- /rec stop [id|title]\n"
+      + "- /rec status\n"
+      + "- /rec list\n"
+      + "Without an id, /rec uses the terminal of the current tmux target."
+    );
+  }
+
+  if (sub === "status") {
+    const recording = active.filter((terminal) => terminal.recording);
+    if (recording.length === 0) {
+      return "No terminal is being recorded.";
+    }
+    return ["recording:", ...recording.map((terminal) => `- ${terminal.title} (${terminal.terminalId}) -> ${terminal.recording!.path}`)]
+      .join("\n");
+  }
+
+  if (sub === "list" || sub === "ls") {
+    const entries = await fs.readdir(RECORDINGS_DIR, { withFileTypes: true }).catch(() => []);
+    const files = await Promise.all(
+      entries
+        .filter((entry) => entry.isFile() && entry.name.endsWith(".cast"))
+        .map(async (entry) => {
+          const filePath = path.join(RECORDINGS_DIR, entry.name);
+          const stat = await fs.stat(filePath);
+          return { filePath, size: stat.size, modifiedAt: stat.mtimeMs };
+        }),
+    );
+    if (files.length === 0) {
+      return `No recordings in ${RECORDINGS_DIR}.`;
+    }
+    files.sort((a, b) => b.modifiedAt - a.modifiedAt);
+    return [
+      `recordings in ${RECORDINGS_DIR}:`,
+      ...files.slice(0, 20).map((file) => `- ${path.basename(file.filePath)} (${file.size} bytes)`),
+      "Download one with `/tmux fileget <path>`.",
+    ].join("\n");
+  }
+
+  if (sub === "start" || sub === "stop") {
+    const candidates = sub === "stop" && !ref ? active.filter((terminal) => terminal.recording) : active;
+    const terminal = await resolveRecordTerminal(sessionKey, ref, candidates);
+    if (typeof terminal === "string") {
+      return sub === "stop" && !ref && candidates.length === 0 ? "No terminal is being recorded." : terminal;
+    }
+    if (sub === "start") {
+      const alreadyRecording = Boolean(terminal.recording);
+      const recording = await startTerminalRecording(terminal);
+      return `${alreadyRecording ? "Already recording" : "Recording"} ${terminal.title} to ${recording.path}.`;
+    }
+    const stopped = await stopTerminalRecording(terminal);
+    if (!stopped) {
+      return `${terminal.title} is not being recorded.`;
+    }
+    return `${formatStoppedRecording(stopped)}\nDownload it with \`/tmux fileget ${stopped.path}\`.`;
+  }
+
+  return "Unknown /rec command. Use `/rec help`.";
+}
+
+// Whitespace-separated arguments; double quotes keep an argument with spaces together.
+function splitCommandArgs(raw: string): string[] {
+  const args: string[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  for (let match = pattern.exec(raw); match; match = pattern.exec(raw)) {
+    args.push(match[1] ?? match[2]);
+  }
+  return args;
+}
+
+async function loadMacros(): Promise<void> {
+  if (!MACROS_FILE) {
+    return;
+  }
+  let raw: string;
+  try {
+    raw = await fs.readFile(MACROS_FILE, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`[agent] cannot read macros ${MACROS_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return;
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("expected an object keyed by session key");
+    }
+    for (const [sessionKey, macros] of Object.entries(parsed as Record<string, unknown>)) {
+      if (!macros || typeof macros !== "object") {
+        continue;
+      }
+      const byName = new Map<string, string[]>();
+      for (const [name, steps] of Object.entries(macros as Record<string, unknown>)) {
+        // The file may have been edited by hand, so it gets the same limits as `/macro add`.
+        const valid = MACRO_NAME_PATTERN.test(name)
+          && Array.isArray(steps)
+          && steps.length > 0
+          && steps.length <= MACRO_MAX_STEPS
+          && steps.every((step) => typeof step === "string" && step.trim());
+        if (!valid) {
+          console.warn(`[agent] skipped macro '${name}' of ${sessionKey}: expected 1-${MACRO_MAX_STEPS} non-empty steps and a name of letters, digits, '_', '.' and '-' (max 32)`);
+        } else if (byName.size >= MACRO_MAX_PER_SESSION) {
+          console.warn(`[agent] skipped macro '${name}' of ${sessionKey}: at most ${MACRO_MAX_PER_SESSION} macros are allowed`);
+        } else {
+          byName.set(name, (steps as string[]).map((step) => step.trim()));
+        }
+      }
+      macrosBySession.set(sessionKey, byName);
+    }
+  } catch (error) {
+    console.warn(`[agent] invalid macros ${MACROS_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function saveMacros(): Promise<void> {
+  if (!MACROS_FILE) {
+    return;
+  }
+  const data: Record<string, Record<string, string[]>> = {};
+  for (const [sessionKey, macros] of macrosBySession) {
+    if (macros.size > 0) {
+      data[sessionKey] = Object.fromEntries(macros);
+    }
+  }
+  await fs.mkdir(path.dirname(MACROS_FILE), { recursive: true });
+  await fs.writeFile(MACROS_FILE, `${JSON.stringify(data, null, 2)}\n`, "utf8");
+}
+
+// `{1}`..`{9}` take the run arguments, `{1:default}` has a fallback and `{*}` is all arguments joined by spaces.
+function expandMacroStep(step: string, args: string[]): { text: string; missing: number } {
+  let missing = 0;
+  const text = step.replace(/\{(\*|[1-9])(?::([^}]*))?\}/g, (_match, key: string, fallback: string | undefined) => {
+    if (key === "*") {
+      return args.join(" ");
+    }
+    const index = Number.parseInt(key, 10);
+    const value = args[index - 1] ?? fallback;
+    if (value === undefined) {
+      missing = Math.max(missing, index);
+      return "";
+    }
+    return value;
+  });
+  return { text, missing };
+}
+
+function formatMacroSteps(steps: string[]): string {
+  return steps.join(" ;; ");
+}
+
+async function handleMacroCommand(
+  sessionKey: string,
+  stripped: string,
+  onProgress?: TmuxProgressCallback,
+  onComplete?: TmuxCompletionCallback,
+): Promise<string> {
+  const [, subRaw = "list", nameRaw = ""] = stripped.split(/\s+/, 3);
+  const sub = subRaw.toLowerCase();
+  const name = nameRaw.trim();
+  let macros = macrosBySession.get(sessionKey);
+
+  if (sub === "help" || sub === "?") {
+    return (
+      "macro commands:\n"
+      + "- /macro list\n"
+      + "- /macro add <name> <step>[ ;; <step>...] (or one step per line)\n"
+      + "- /macro run <name> [args...]\n"
+      + "- /macro delete <name>\n"
+      + "Steps may use {1}..{9}, {1:default} and {*} for the run arguments."
+    );
+  }
+
+  if (sub === "list" || sub === "ls") {
+    if (!macros || macros.size === 0) {
+      return "No macros.";
+    }
+    return [
+      "macros:",
+      ...[...macros.entries()].map(([macroName, steps]) => (
+        `- ${macroName} (${steps.length} ${steps.length === 1 ? "step" : "steps"}): ${formatMacroSteps(steps)}`
+      )),
+    ].join("\n");
+  }
+
+  if (!name) {
+    return `Usage: /macro ${sub === "run" ? "run <name> [args...]" : sub === "add" ? "add <name> <step>[ ;; <step>...]" : "delete <name>"}`;
+  }
+
+  if (sub === "add" || sub === "set") {
+    if (!MACRO_NAME_PATTERN.test(name)) {
+      return "Error: macro names use letters, digits, '_', '.' and '-' (max 32).";
+    }
+    const body = stripped.replace(/^\S+\s+\S+\s+\S+[ \t]*/, "");
+    const steps = body
+      .split(/\r?\n| ;; /)
+      .map((step) => step.trim())
+      .filter(Boolean);
+    if (steps.length === 0 || body === stripped) {
+      return "Usage: /macro add <name> <step>[ ;; <step>...]";
+    }
+    if (steps.length > MACRO_MAX_STEPS) {
+      return `Error: a macro has at most ${MACRO_MAX_STEPS} steps.`;
+    }
+    if (!macros) {
+      macros = new Map();
+      macrosBySession.set(sessionKey, macros);
+    }
+    if (!macros.has(name) && macros.size >= MACRO_MAX_PER_SESSION) {
+      return `Error: at most ${MACRO_MAX_PER_SESSION} macros are allowed; delete one first.`;
+    }
+    macros.set(name, steps);
+    await saveMacros();
+    return `Saved macro ${name} (${steps.length} ${steps.length === 1 ? "step" : "steps"}).`;
+  }
+
+  if (sub === "delete" || sub === "remove" || sub === "rm") {
+    if (!macros?.delete(name)) {
+      return `Error: no macro '${name}'.`;
+    }
+    await saveMacros();
+    return `Deleted macro ${name}.`;
+  }
+
+  if (sub === "run") {
+    const steps = macros?.get(name);
+    if (!steps?.length) {
+      return `Error: no macro '${name}'. Use \`/macro list\`.`;
+    }
+    const args = splitCommandArgs(stripped.replace(/^\S+\s+\S+\s+\S+\s*/, ""));
+    const expanded = steps.map((step) => expandMacroStep(step, args));
+    const missing = Math.max(...expanded.map((step) => step.missing));
+    if (missing > 0) {
+      return `Error: macro ${name} needs ${missing} argument(s).`;
+    }
+
+    const state = getTmuxControlState(sessionKey);
+    const target = state.target.trim();
+    if (!target) {
+      return "Error: target not set. Use `/tmux target <session:window.pane|id>` first.";
+    }
+    const socketPath = state.socket || undefined;
+    // Earlier steps are typed ahead with the usual wait between them; the last one is sent like `/tmux send`, so its output comes back.
+    for (const step of expanded.slice(0, -1)) {
+      const sendError = await sendLiteralToTmux(target, step.text, socketPath);
+      if (sendError) {
+        return sendError;
+      }
+      await sleepMs(Math.max(0, state.waitMs));
+    }
+    return tmuxPassthrough(
+      sessionKey,
+      target,
+      expanded[expanded.length - 1].text,
+      socketPath,
+      state.captureLines,
+      state.waitMs,
+      normalizeTmuxStreamMode(state.streamMode),
+      onProgress,
+      onComplete,
+    );
+  }
+
+  return "Unknown /macro command. Use `/macro help`.";
+}
+
 async function handleTfclawTextCommand(
   rawText: string,
   sessionKeyRaw?: string,
   onProgress?: TmuxProgressCallback,
+  onComplete?: TmuxCompletionCallback,
 ): Promise<string> {
   const sessionKey = normalizeControlSessionKey(sessionKeyRaw);
   const stripped = rawText.trim();
@@ -2396,6 +5519,7 @@ async function handleTfclawTextCommand(
     }
     const passthroughText = passthroughEscape ? decodePassthroughEscape(rawText) : rawText;
     return tmuxPassthrough(
+      sessionKey,
       target,
       passthroughText,
       tmuxState.socket || undefined,
@@ -2403,11 +5527,12 @@ async function handleTfclawTextCommand(
       tmuxState.waitMs,
       normalizeTmuxStreamMode(tmuxState.streamMode),
       onProgress,
+      onComplete,
     );
   }
 
   if (tmuxLowered.startsWith("/tmux")) {
-    return handleTmuxCommand(sessionKey, tmuxCommand, onProgress);
+    return handleTmuxCommand(sessionKey, tmuxCommand, onProgress, onComplete);
   }
 
   if (lowered.startsWith("/passthrough") || lowered.startsWith("/pt")) {
@@ -2422,6 +5547,18 @@ async function handleTfclawTextCommand(
     return handlePassthroughCommand(sessionKey, passthroughCommand);
   }
 
+  if (/^\/alert(?:\s|$)/.test(lowered)) {
+    return handleAlertCommand(stripped);
+  }
+
+  if (/^\/rec(?:\s|$)/.test(lowered)) {
+    return handleRecordCommand(sessionKey, stripped);
+  }
+
+  if (/^\/macro(?:\s|$)/.test(lowered)) {
+    return handleMacroCommand(sessionKey, stripped, onProgress, onComplete);
+  }
+
   if (lowered === "/new") {
     tmuxControlStateBySession.delete(sessionKey);
     return "New session started.";
@@ -2433,6 +5570,9 @@ async function handleTfclawTextCommand(
       + "/new - Start a new command session\n"
       + "/help - Show available commands\n"
       + "/tmux help - tmux control commands\n"
+      + "/alert help - standing output alert rules\n"
+      + "/rec help - record terminals as asciicast files\n"
+      + "/macro help - named command sequences for the tmux target\n"
       + "/tmux key C-c - send shortcut keys to tmux pane\n"
       + "/tkey ... /ttarget ... - shorthand aliases for /tmux subcommands\n"
       + "/passthrough on|off|status - literal tmux passthrough mode\n"
@@ -2466,10 +5606,41 @@ async function handleCommand(command: ClientCommand): Promise<void> {
         }
         return;
       }
+      case "terminal.resize": {
+        const ok = await resizeTerminal(payload.terminalId, payload.cols, payload.rows);
+        if (!ok) {
+          sendError("TERMINAL_NOT_FOUND", `cannot resize terminal: ${payload.terminalId}`, command.requestId);
+        }
+        return;
+      }
+      case "terminal.record.start":
+      case "terminal.record.stop": {
+        const terminal = terminals.get(payload.terminalId);
+        if (!terminal || !terminal.isActive) {
+          sendError("TERMINAL_NOT_FOUND", `terminal not found: ${payload.terminalId}`, command.requestId);
+          return;
+        }
+        if (payload.command === "terminal.record.start") {
+          const recording = await startTerminalRecording(terminal);
+          sendCommandResult(`recording ${terminal.title} to ${recording.path}`, command.requestId);
+          return;
+        }
+        const stopped = await stopTerminalRecording(terminal);
+        sendCommandResult(stopped ? formatStoppedRecording(stopped) : `${terminal.title} is not being recorded`, command.requestId);
+        return;
+      }
       case "terminal.snapshot": {
         await handleTerminalSnapshot(payload.terminalId);
         return;
       }
+      case "terminal.history": {
+        await handleTerminalHistory(payload, command.requestId);
+        return;
+      }
+      case "tmux.history": {
+        await handleTmuxHistory(payload, command.requestId);
+        return;
+      }
       case "capture.list": {
         await handleCaptureList(command.requestId);
         return;
@@ -2485,8 +5656,11 @@ async function handleCommand(command: ClientCommand): Promise<void> {
             progressSource: "tmux",
           });
         };
-        const output = await handleTfclawTextCommand(payload.text, payload.sessionKey, onProgress);
-        sendCommandResult(output, command.requestId);
+        let completion: CommandCompletion | undefined;
+        const output = await handleTfclawTextCommand(payload.text, payload.sessionKey, onProgress, (value) => {
+          completion = value;
+        });
+        sendCommandResult(output, command.requestId, { completion });
         return;
       }
       case "file.upload.start": {
@@ -2494,7 +5668,11 @@ async function handleCommand(command: ClientCommand): Promise<void> {
         return;
       }
       case "file.upload.chunk": {
-        await handleFileUploadChunk(payload);
+        await handleFileUploadChunk(payload, command.requestId);
+        return;
+      }
+      case "file.upload.resume": {
+        await handleFileUploadResume(payload, command.requestId);
         return;
       }
       case "file.upload.complete": {
@@ -2505,41 +5683,144 @@ async function handleCommand(command: ClientCommand): Promise<void> {
         await handleFileDownload(payload, command.requestId);
         return;
       }
+      case "file.list": {
+        await handleFileList(payload, command.requestId);
+        return;
+      }
+      case "file.stat": {
+        await handleFileStat(payload, command.requestId);
+        return;
+      }
+      case "file.mkdir": {
+        await handleFileMkdir(payload, command.requestId);
+        return;
+      }
+      case "file.move": {
+        await handleFileMove(payload, command.requestId);
+        return;
+      }
+      case "file.delete": {
+        await handleFileDelete(payload, command.requestId);
+        return;
+      }
+      case "file.download.ack": {
+        handleFileDownloadAck(payload);
+        return;
+      }
+      case "file.download.resume": {
+        await handleFileDownloadResume(payload);
+        return;
+      }
       default: {
         console.error("Unknown command payload:", payload);
       }
     }
   } catch (error) {
     const msg = error instanceof Error ? error.message : String(error);
-    const code = payload.command.startsWith("terminal.")
-      ? "TMUX_COMMAND_FAILED"
-      : payload.command.startsWith("file.")
-        ? "FILE_TRANSFER_FAILED"
-        : "AGENT_COMMAND_FAILED";
+    const code = error instanceof FileAccessDeniedError
+      ? "FILE_ACCESS_DENIED"
+      : payload.command.startsWith("terminal.")
+        ? "TMUX_COMMAND_FAILED"
+        : payload.command.startsWith("file.upload") || payload.command.startsWith("file.download")
+          ? "FILE_TRANSFER_FAILED"
+          : payload.command.startsWith("file.")
+            ? "FILE_OPERATION_FAILED"
+            : "AGENT_COMMAND_FAILED";
     sendError(code, msg, command.requestId);
   }
 }
 
-function handleIncoming(raw: WebSocket.RawData): void {
-  const text = raw.toString();
-  const message = safeJsonParse(text);
-  if (!message) {
+function grantE2eKey(clientId: string, clientPublicKey: string): void {
+  if (!e2eKeyPair || !e2eContentKey) {
     return;
   }
+  try {
+    const wrapKey = deriveE2eWrapKey(e2eKeyPair, clientPublicKey, E2E_SECRET, "agent");
+    send({ type: "e2e.key_grant", payload: wrapE2eContentKey(wrapKey, e2eContentKey, clientId) });
+    flushQueuedWatchEvents();
+  } catch (error) {
+    console.warn(`[terminal-agent] e2e key exchange with ${clientId} failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function parseIncoming(raw: WebSocket.RawData, isBinary: boolean): RelayMessageValidation {
+  if (!isBinary) {
+    return parseRelayMessage(raw.toString());
+  }
+  const frame = Buffer.isBuffer(raw) ? raw : Array.isArray(raw) ? Buffer.concat(raw) : Buffer.from(raw);
+  const decoded = decodeBinaryFrame(frame);
+  return decoded.ok ? { ok: true, message: mergeBinaryPayload(decoded.message, decoded.data) } : decoded;
+}
 
-  if (message.type === "client.command") {
-    void handleCommand(message);
+function handleIncoming(raw: WebSocket.RawData, isBinary: boolean): void {
+  let parsed = parseIncoming(raw, isBinary);
+  const sealed = parsed.ok && parsed.message.type === "e2e.sealed";
+  if (parsed.ok && parsed.message.type === "e2e.sealed") {
+    if (!e2eContentKey) {
+      sendError("E2E_DISABLED", "this agent has no TFCLAW_E2E_SECRET configured", parsed.message.requestId);
+      return;
+    }
+    if (parsed.message.agentId !== AGENT_ID) {
+      sendError("INVALID_COMMAND", `sealed for agent ${parsed.message.agentId ?? "(none)"}, not ${AGENT_ID}`, parsed.message.requestId);
+      return;
+    }
+    parsed = openSealedMessage(parsed.message, e2eContentKey);
+  }
+  if (!parsed.ok) {
+    const detail = describeValidationIssues(parsed.issues);
+    console.warn(`[terminal-agent] rejected ${parsed.type ?? "invalid"} message: ${detail}`);
+    if (parsed.type === "client.command") {
+      sendError("INVALID_COMMAND", detail, parsed.requestId);
+    }
+    return;
+  }
+
+  const message = parsed.message;
+  if (message.type === "relay.ack" && message.payload.negotiated) {
+    binaryFrames = message.payload.negotiated.capabilities.includes("binary.frames");
+    return;
+  }
+  if (message.type === "e2e.client_key") {
+    grantE2eKey(message.payload.clientId, message.payload.publicKey);
+    return;
+  }
+  if (message.type !== "client.command") {
+    return;
+  }
+  // With E2E enabled only commands that arrived sealed are trusted; the relay could have forged a plaintext one.
+  if (e2eContentKey && !sealed) {
+    sendError("E2E_REQUIRED", "this agent only accepts end-to-end encrypted commands", message.requestId);
+    return;
   }
+  void handleCommand(message);
 }
 
 function connect(): void {
   const url = toRelayWsUrl(RELAY_URL);
-  ws = new WebSocket(url);
+  let tlsOptions: WebSocket.ClientOptions;
+  try {
+    tlsOptions = relayTlsOptions();
+  } catch (error) {
+    const delay = Math.min(10000, 500 * (reconnectAttempts + 1));
+    reconnectAttempts += 1;
+    console.error(`Failed to read TLS files: ${error instanceof Error ? error.message : String(error)}. Retrying in ${delay}ms...`);
+    setTimeout(connect, delay);
+    return;
+  }
+  // The token travels in a header rather than the URL so it never lands in proxy or access logs.
+  ws = new WebSocket(url, { ...tlsOptions, headers: { "x-auth-token": TOKEN! } });
 
   ws.on("open", () => {
     reconnectAttempts = 0;
     console.log(`Connected to relay: ${url}`);
+    // Fresh keys per connection: a relay only ever sees wrapped content keys, and old ones die with the socket.
+    e2eKeyPair = E2E_SECRET ? createE2eKeyPair() : undefined;
+    e2eContentKey = E2E_SECRET ? createE2eContentKey() : undefined;
+    binaryFrames = false;
     publishRegister();
+    if (!e2eContentKey) {
+      flushQueuedWatchEvents();
+    }
 
     void (async () => {
       if (terminals.size === 0) {
@@ -2558,7 +5839,7 @@ function connect(): void {
     })();
   });
 
-  ws.on("message", (raw) => handleIncoming(raw));
+  ws.on("message", (raw, isBinary) => handleIncoming(raw, isBinary));
 
   ws.on("close", () => {
     if (closing) {
@@ -2578,24 +5859,26 @@ function connect(): void {
 async function shutdown(): Promise<void> {
   closing = true;
   stopSyncLoop();
+  stopTmuxWatchLoop();
+  tmuxWatches.clear();
+  pendingAlerts.forEach((pending) => clearTimeout(pending.timer));
+  pendingAlerts.clear();
+  await Promise.all([...terminals.values()].map((terminal) => stopTerminalRecording(terminal)));
   ws?.close();
   ws = undefined;
+  await terminalBackend.stop();
+  await removeShellIntegrationFiles();
   terminals.clear();
   uploadTransfers.clear();
-
-  if (!TMUX_PERSIST_SESSION_ON_SHUTDOWN) {
-    await killTmuxSessionSilently();
-  }
 }
 
 async function bootstrap(): Promise<void> {
   try {
-    await ensureTmuxAvailable();
-
-    if (TMUX_RESET_ON_BOOT) {
-      await killTmuxSessionSilently();
-    }
-    await ensureTmuxSession();
+    await loadAlertRules();
+    await loadMacros();
+    terminalBackend = await selectTerminalBackend();
+    await terminalBackend.start();
+    console.log(`Terminal backend: ${terminalBackend.kind}`);
 
     startSyncLoop();
     connect();
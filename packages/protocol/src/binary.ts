@@ -0,0 +1,95 @@
+import {
+  type AgentFileTransfer,
+  type AgentScreenCapture,
+  type ClientCommand,
+  type RelayMessage,
+  type ValidationIssue,
+  validateRelayMessage,
+} from "./index.js";
+
+// Frame layout: version byte, uint32 big-endian header length, UTF-8 JSON header, raw payload bytes.
+// The header is the regular message with its base64 field left empty.
+export const BINARY_FRAME_VERSION = 1;
+
+const BINARY_FRAME_PREFIX_BYTES = 5;
+
+export type BinaryCapableMessage = AgentScreenCapture | AgentFileTransfer | ClientCommand;
+
+export type BinaryFrameDecoding =
+  | { ok: true; message: RelayMessage; data: Buffer }
+  | { ok: false; type?: string; requestId?: string; issues: ValidationIssue[] };
+
+function binaryField(message: RelayMessage): "imageBase64" | "chunkBase64" | undefined {
+  if (message.type === "agent.screen_capture") {
+    return "imageBase64";
+  }
+  if (message.type === "agent.file_transfer" && message.payload.stage === "chunk") {
+    return "chunkBase64";
+  }
+  if (message.type === "client.command" && message.payload.command === "file.upload.chunk") {
+    return "chunkBase64";
+  }
+  return undefined;
+}
+
+export function isBinaryCapableMessage(message: RelayMessage): message is BinaryCapableMessage {
+  return binaryField(message) !== undefined;
+}
+
+// Moves the base64 field of a binary-capable message into raw bytes; returns undefined for other messages.
+export function splitBinaryPayload(message: RelayMessage): { header: RelayMessage; data: Buffer } | undefined {
+  const field = binaryField(message);
+  if (!field) {
+    return undefined;
+  }
+  const payload = message.payload as unknown as Record<string, string>;
+  return {
+    header: { ...message, payload: { ...payload, [field]: "" } } as RelayMessage,
+    data: Buffer.from(payload[field] ?? "", "base64"),
+  };
+}
+
+export function mergeBinaryPayload(header: RelayMessage, data: Buffer): RelayMessage {
+  const field = binaryField(header);
+  if (!field) {
+    return header;
+  }
+  return { ...header, payload: { ...header.payload, [field]: data.toString("base64") } } as RelayMessage;
+}
+
+export function encodeBinaryFrame(header: RelayMessage, data: Uint8Array): Buffer {
+  const headerBytes = Buffer.from(JSON.stringify(header));
+  const prefix = Buffer.alloc(BINARY_FRAME_PREFIX_BYTES);
+  prefix.writeUInt8(BINARY_FRAME_VERSION, 0);
+  prefix.writeUInt32BE(headerBytes.length, 1);
+  return Buffer.concat([prefix, headerBytes, data]);
+}
+
+export function decodeBinaryFrame(frame: Buffer): BinaryFrameDecoding {
+  if (frame.length < BINARY_FRAME_PREFIX_BYTES || frame.readUInt8(0) !== BINARY_FRAME_VERSION) {
+    return { ok: false, issues: [{ path: "", message: `binary frame must start with version ${BINARY_FRAME_VERSION}` }] };
+  }
+  const headerEnd = BINARY_FRAME_PREFIX_BYTES + frame.readUInt32BE(1);
+  if (headerEnd > frame.length) {
+    return { ok: false, issues: [{ path: "", message: "binary frame header exceeds frame length" }] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(frame.subarray(BINARY_FRAME_PREFIX_BYTES, headerEnd).toString("utf8"));
+  } catch {
+    return { ok: false, issues: [{ path: "", message: "invalid binary frame header json" }] };
+  }
+  const result = validateRelayMessage(data);
+  if (!result.ok) {
+    return result;
+  }
+  if (!isBinaryCapableMessage(result.message)) {
+    return {
+      ok: false,
+      type: result.message.type,
+      issues: [{ path: "type", message: `${result.message.type} cannot be sent as a binary frame` }],
+    };
+  }
+  return { ok: true, message: result.message, data: frame.subarray(headerEnd) };
+}
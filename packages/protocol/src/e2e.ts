@@ -0,0 +1,197 @@
+import {
+  type KeyObject,
+  createCipheriv,
+  createDecipheriv,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+} from "node:crypto";
+import {
+  type E2eKeyGrant,
+  type E2eSealed,
+  type RelayMessage,
+  type RelayMessageValidation,
+  type SealedMessageType,
+  SEALED_MESSAGE_TYPES,
+  validateRelayMessage,
+} from "./index.js";
+
+export type SealableMessage = Extract<RelayMessage, { type: SealedMessageType }>;
+
+export interface E2eKeyPair {
+  publicKey: string;
+  privateKey: KeyObject;
+}
+
+// Each holder of the content key (the agent and every client it granted the key to) seals as its own sender with
+// an increasing sequence number; the replay state below is local to the process and never sent.
+export interface E2eContentKey {
+  keyId: string;
+  key: Buffer;
+  sender: string;
+  nextSeq: number;
+  // Highest sequence number opened so far, per peer sender.
+  lastSeen: Map<string, number>;
+}
+
+interface SealedPlaintext {
+  sender: string;
+  seq: number;
+  message: unknown;
+}
+
+const E2E_CIPHER = "aes-256-gcm";
+const E2E_NONCE_BYTES = 12;
+const E2E_TAG_BYTES = 16;
+// Clients that reconnect come back as new senders; the oldest are forgotten past this many.
+const E2E_MAX_TRACKED_SENDERS = 4096;
+
+export function isSealableMessage(message: RelayMessage): message is SealableMessage {
+  return (SEALED_MESSAGE_TYPES as readonly string[]).includes(message.type);
+}
+
+export function createE2eKeyPair(): E2eKeyPair {
+  const { publicKey, privateKey } = generateKeyPairSync("x25519");
+  return { publicKey: String(publicKey.export({ format: "jwk" }).x), privateKey };
+}
+
+function withReplayState(keyId: string, key: Buffer): E2eContentKey {
+  return { keyId, key, sender: randomBytes(9).toString("base64url"), nextSeq: 1, lastSeen: new Map() };
+}
+
+export function createE2eContentKey(): E2eContentKey {
+  return withReplayState(randomBytes(9).toString("base64url"), randomBytes(32));
+}
+
+// The shared secret is the HKDF salt, so a relay that substitutes its own public keys still cannot derive the wrap key.
+export function deriveE2eWrapKey(
+  own: E2eKeyPair,
+  peerPublicKey: string,
+  secret: string,
+  role: "agent" | "client",
+): Buffer {
+  const peer = createPublicKey({ key: { kty: "OKP", crv: "X25519", x: peerPublicKey }, format: "jwk" });
+  const shared = diffieHellman({ privateKey: own.privateKey, publicKey: peer });
+  const [clientKey, agentKey] = role === "client" ? [own.publicKey, peerPublicKey] : [peerPublicKey, own.publicKey];
+  return Buffer.from(hkdfSync("sha256", shared, secret, `tfclaw-e2e-wrap|${clientKey}|${agentKey}`, 32));
+}
+
+function sealBytes(key: Buffer, plaintext: Buffer, associatedData: string): { nonce: string; ciphertext: string } {
+  const nonce = randomBytes(E2E_NONCE_BYTES);
+  const cipher = createCipheriv(E2E_CIPHER, key, nonce);
+  cipher.setAAD(Buffer.from(associatedData));
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+  return { nonce: nonce.toString("base64"), ciphertext: encrypted.toString("base64") };
+}
+
+function openBytes(key: Buffer, nonce: string, ciphertext: string, associatedData: string): Buffer {
+  const encrypted = Buffer.from(ciphertext, "base64");
+  if (encrypted.length < E2E_TAG_BYTES) {
+    throw new Error("ciphertext too short");
+  }
+  const decipher = createDecipheriv(E2E_CIPHER, key, Buffer.from(nonce, "base64"));
+  decipher.setAAD(Buffer.from(associatedData));
+  decipher.setAuthTag(encrypted.subarray(encrypted.length - E2E_TAG_BYTES));
+  return Buffer.concat([decipher.update(encrypted.subarray(0, encrypted.length - E2E_TAG_BYTES)), decipher.final()]);
+}
+
+export function wrapE2eContentKey(wrapKey: Buffer, content: E2eContentKey, clientId: string): E2eKeyGrant["payload"] {
+  return {
+    clientId,
+    keyId: content.keyId,
+    ...sealBytes(wrapKey, content.key, `e2e.key_grant|${clientId}|${content.keyId}`),
+  };
+}
+
+export function unwrapE2eContentKey(wrapKey: Buffer, grant: E2eKeyGrant["payload"]): E2eContentKey {
+  const key = openBytes(wrapKey, grant.nonce, grant.ciphertext, `e2e.key_grant|${grant.clientId}|${grant.keyId}`);
+  return withReplayState(grant.keyId, key);
+}
+
+// The routing fields the relay reads are authenticated too, so it cannot redirect a sealed message to another
+// agent or request.
+function sealedAssociatedData(sealed: {
+  agentId?: string;
+  requestId?: string;
+  payload: Pick<E2eSealed["payload"], "inner" | "command" | "keyId">;
+}): string {
+  const { inner, command, keyId } = sealed.payload;
+  return `e2e.sealed|${inner}|${command ?? ""}|${keyId}|${sealed.agentId ?? ""}|${sealed.requestId ?? ""}`;
+}
+
+function sealedRequestId(message: SealableMessage): string | undefined {
+  return message.type === "client.command" ? message.requestId : (message.payload as { requestId?: string }).requestId;
+}
+
+export function sealRelayMessage(message: SealableMessage, content: E2eContentKey): E2eSealed {
+  const envelope = {
+    agentId: message.agentId,
+    // Agent replies expose their requestId too, so the relay can route them to the client that asked.
+    requestId: sealedRequestId(message),
+    payload: {
+      inner: message.type,
+      keyId: content.keyId,
+      command: message.type === "client.command" ? message.payload.command : undefined,
+    },
+  };
+  const plaintext: SealedPlaintext = { sender: content.sender, seq: content.nextSeq, message };
+  content.nextSeq += 1;
+  return {
+    type: "e2e.sealed",
+    ...envelope,
+    payload: {
+      ...envelope.payload,
+      ...sealBytes(content.key, Buffer.from(JSON.stringify(plaintext)), sealedAssociatedData(envelope)),
+    },
+  };
+}
+
+export function openSealedMessage(sealed: E2eSealed, content: E2eContentKey): RelayMessageValidation {
+  const { inner, command } = sealed.payload;
+  if (sealed.payload.keyId !== content.keyId) {
+    return { ok: false, type: inner, requestId: sealed.requestId, issues: [{ path: "payload.keyId", message: "unknown content key" }] };
+  }
+
+  let data: Partial<SealedPlaintext>;
+  try {
+    const plaintext = openBytes(content.key, sealed.payload.nonce, sealed.payload.ciphertext, sealedAssociatedData(sealed));
+    data = JSON.parse(plaintext.toString("utf8")) as Partial<SealedPlaintext>;
+  } catch {
+    return { ok: false, type: inner, requestId: sealed.requestId, issues: [{ path: "payload.ciphertext", message: "cannot be decrypted" }] };
+  }
+
+  const { sender, seq } = data;
+  if (typeof sender !== "string" || typeof seq !== "number" || !Number.isSafeInteger(seq) || seq < 1) {
+    return { ok: false, type: inner, requestId: sealed.requestId, issues: [{ path: "payload.ciphertext", message: "has no sender sequence number" }] };
+  }
+  // Our own messages coming back, or a sequence number at or below the last one seen, are replays.
+  if (sender === content.sender || seq <= (content.lastSeen.get(sender) ?? 0)) {
+    return { ok: false, type: inner, requestId: sealed.requestId, issues: [{ path: "payload.ciphertext", message: "is a replayed or out-of-order message" }] };
+  }
+
+  const result = validateRelayMessage(data.message);
+  if (!result.ok) {
+    return result;
+  }
+  const message = result.message;
+  if (
+    message.type !== inner
+    || (message.type === "client.command" && message.payload.command !== command)
+    || message.agentId !== sealed.agentId
+    || sealedRequestId(message as SealableMessage) !== sealed.requestId
+  ) {
+    return { ok: false, type: inner, requestId: sealed.requestId, issues: [{ path: "payload.inner", message: "does not match the sealed message" }] };
+  }
+
+  content.lastSeen.delete(sender);
+  content.lastSeen.set(sender, seq);
+  if (content.lastSeen.size > E2E_MAX_TRACKED_SENDERS) {
+    const oldest = content.lastSeen.keys().next().value;
+    if (oldest !== undefined) {
+      content.lastSeen.delete(oldest);
+    }
+  }
+  return result;
+}
@@ -1,6 +1,61 @@
 ﻿export type Platform = "windows" | "macos" | "linux" | "unknown";
 
-export interface AgentDescriptor {
+export const PROTOCOL_VERSION = 2;
+export const LEGACY_PROTOCOL_VERSION = 1;
+
+export type ProtocolCapability =
+  | "terminal"
+  | "tmux.control"
+  | "screen.capture"
+  | "file.upload"
+  | "file.download"
+  | "file.browse"
+  | "binary.frames"
+  | "alerts";
+
+export const PROTOCOL_CAPABILITIES: readonly ProtocolCapability[] = [
+  "terminal",
+  "tmux.control",
+  "screen.capture",
+  "file.upload",
+  "file.download",
+  "file.browse",
+  "binary.frames",
+  "alerts",
+];
+
+// What a peer that predates capability negotiation can do.
+const LEGACY_CAPABILITIES: readonly ProtocolCapability[] = [
+  "terminal",
+  "tmux.control",
+  "screen.capture",
+  "file.upload",
+  "file.download",
+];
+
+export type ClientScope = "view" | "input" | "capture" | "files.read" | "files.write" | "tmux.control";
+
+export const CLIENT_SCOPES: readonly ClientScope[] = ["view", "input", "capture", "files.read", "files.write", "tmux.control"];
+
+export interface E2eHandshake {
+  // Base64url X25519 public key, fresh for every connection.
+  publicKey: string;
+  // Agents also announce the id of the content key they seal with.
+  keyId?: string;
+}
+
+export interface ProtocolHandshake {
+  protocolVersion?: number;
+  capabilities?: ProtocolCapability[];
+  e2e?: E2eHandshake;
+}
+
+export interface NegotiatedProtocol {
+  protocolVersion: number;
+  capabilities: ProtocolCapability[];
+}
+
+export interface AgentDescriptor extends ProtocolHandshake {
   agentId: string;
   platform: Platform;
   hostname: string;
@@ -9,15 +64,34 @@ export interface AgentDescriptor {
 
 export interface TerminalSummary {
   terminalId: string;
+  agentId?: string;
   title: string;
   cwd?: string;
   foregroundCommand?: string;
+  cols?: number;
+  rows?: number;
+  // True while the agent records this terminal to an asciicast file.
+  recording?: boolean;
   isActive: boolean;
   updatedAt: string;
 }
 
+// Lines are counted from the oldest line the agent still holds. New output does not move a cursor until the
+// backend starts dropping old lines; after that it moves up by the number of lines dropped.
+export interface TerminalHistoryPage {
+  text: string;
+  // First line of this page; pass it as `before` to fetch the page above.
+  cursor: number;
+  totalLines: number;
+  hasMore: boolean;
+  // The backend holds as much as it keeps (tmux history-limit, pty buffer), so the page above an earlier cursor
+  // may repeat lines the client already has.
+  full?: boolean;
+}
+
 export interface TerminalSnapshot {
   terminalId: string;
+  agentId?: string;
   output: string;
   updatedAt: string;
 }
@@ -32,6 +106,17 @@ export interface ScreenCapture {
   requestId?: string;
 }
 
+export type FileEntryType = "file" | "directory" | "symlink" | "other";
+
+export interface FileEntry {
+  name: string;
+  path: string;
+  type: FileEntryType;
+  size: number;
+  modifiedAt: string;
+  mode?: number;
+}
+
 export interface CaptureSource {
   source: "screen" | "window";
   sourceId: string;
@@ -42,23 +127,47 @@ export type RelayMessage =
   | AgentRegister
   | AgentTerminalList
   | AgentTerminalOutput
+  | AgentTerminalHistory
   | AgentScreenCapture
   | AgentCaptureSources
   | AgentCommandResult
+  | AgentWatchEvent
+  | AgentAlert
   | AgentFileTransfer
+  | AgentFileResult
   | AgentError
   | ClientHello
   | ClientCommand
+  | E2eClientKey
+  | E2eKeyGrant
+  | E2eSealed
   | RelayState
   | RelayAck;
 
+export const SEALED_MESSAGE_TYPES = [
+  "agent.terminal_output",
+  "agent.terminal_history",
+  "agent.screen_capture",
+  "agent.capture_sources",
+  "agent.command_result",
+  "agent.watch_event",
+  "agent.alert",
+  "agent.file_transfer",
+  "agent.file_result",
+  "client.command",
+] as const;
+
+export type SealedMessageType = (typeof SEALED_MESSAGE_TYPES)[number];
+
 export interface AgentRegister {
   type: "agent.register";
+  agentId?: string;
   payload: AgentDescriptor;
 }
 
 export interface AgentTerminalList {
   type: "agent.terminal_list";
+  agentId?: string;
   payload: {
     terminals: TerminalSummary[];
   };
@@ -66,6 +175,7 @@ export interface AgentTerminalList {
 
 export interface AgentTerminalOutput {
   type: "agent.terminal_output";
+  agentId?: string;
   payload: {
     terminalId: string;
     chunk: string;
@@ -73,33 +183,94 @@ export interface AgentTerminalOutput {
   };
 }
 
+export interface AgentTerminalHistory {
+  type: "agent.terminal_history";
+  agentId?: string;
+  payload: TerminalHistoryPage & {
+    requestId?: string;
+    terminalId?: string;
+    target?: string;
+  };
+}
+
 export interface AgentScreenCapture {
   type: "agent.screen_capture";
+  agentId?: string;
   payload: ScreenCapture;
 }
 
 export interface AgentCaptureSources {
   type: "agent.capture_sources";
+  agentId?: string;
   payload: {
     requestId?: string;
     sources: CaptureSource[];
   };
 }
 
+// Reported by the agent's shell integration when it saw the command sent to a shell prompt finish.
+export interface CommandCompletion {
+  exitCode: number;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+}
+
 export interface AgentCommandResult {
   type: "agent.command_result";
+  agentId?: string;
   payload: {
     requestId?: string;
     output: string;
     progress?: boolean;
     progressSource?: string;
+    completion?: CommandCompletion;
   };
 }
 
-export type FileTransferDirection = "download";
+export const WATCH_EVENT_REASONS = ["match", "exit", "quiet", "closed"] as const;
+export type WatchEventReason = (typeof WATCH_EVENT_REASONS)[number];
+
+// Sent unprompted when a watch set by `/tmux watch` fires; sessionKey is the chat or client that set it.
+export interface AgentWatchEvent {
+  type: "agent.watch_event";
+  agentId?: string;
+  payload: {
+    watchId: string;
+    sessionKey: string;
+    target: string;
+    reason: WatchEventReason;
+    text: string;
+    exitCode?: number;
+    at: string;
+  };
+}
+
+// Sent when an alert rule matches a line of terminal output; the relay only forwards it to clients that negotiated "alerts".
+export interface AgentAlert {
+  type: "agent.alert";
+  agentId?: string;
+  payload: {
+    alertId: string;
+    ruleId: string;
+    pattern: string;
+    terminalId: string;
+    terminalTitle: string;
+    line: string;
+    // The matching line with the lines around it, oldest first.
+    context: string;
+    at: string;
+  };
+}
+
+export type FileTransferDirection = "download" | "upload";
+
+export const ARCHIVE_FORMATS = ["tar", "zip"] as const;
+export type ArchiveFormat = (typeof ARCHIVE_FORMATS)[number];
 
 export interface AgentFileTransfer {
   type: "agent.file_transfer";
+  agentId?: string;
   payload:
     | {
         direction: FileTransferDirection;
@@ -111,6 +282,9 @@ export interface AgentFileTransfer {
         mimeType: string;
         size: number;
         totalChunks: number;
+        chunkBytes?: number;
+        resumable?: boolean;
+        archive?: ArchiveFormat;
       }
     | {
         direction: FileTransferDirection;
@@ -120,17 +294,44 @@ export interface AgentFileTransfer {
         chunkIndex: number;
         totalChunks: number;
         chunkBase64: string;
+        sha256?: string;
       }
     | {
         direction: FileTransferDirection;
         stage: "complete";
         requestId?: string;
         transferId: string;
+        sha256?: string;
+      }
+    | {
+        direction: FileTransferDirection;
+        stage: "ack";
+        requestId?: string;
+        transferId: string;
+        receivedChunks: number;
+        receivedBytes: number;
       };
 }
 
+export type FileOperation = "list" | "stat" | "mkdir" | "move" | "delete";
+
+export interface AgentFileResult {
+  type: "agent.file_result";
+  agentId?: string;
+  payload: {
+    requestId?: string;
+    operation: FileOperation;
+    path: string;
+    // stat, mkdir and move describe the resulting entry; list returns the directory's children.
+    entry?: FileEntry;
+    entries?: FileEntry[];
+    truncated?: boolean;
+  };
+}
+
 export interface AgentError {
   type: "agent.error";
+  agentId?: string;
   payload: {
     code: string;
     message: string;
@@ -140,7 +341,7 @@ export interface AgentError {
 
 export interface ClientHello {
   type: "client.hello";
-  payload: {
+  payload: ProtocolHandshake & {
     clientType: "mobile" | "feishu" | "web";
   };
 }
@@ -166,6 +367,38 @@ export interface ClientCommand {
         command: "terminal.snapshot";
         terminalId: string;
       }
+    | {
+        // Pages through an agent terminal. `before` is a cursor from an earlier page; without it the page ends
+        // `offset` lines above the newest line.
+        command: "terminal.history";
+        terminalId: string;
+        before?: number;
+        offset?: number;
+        lines?: number;
+      }
+    | {
+        // Same paging for the tmux target of sessionKey, which may be any pane, so it needs tmux.control.
+        command: "tmux.history";
+        sessionKey?: string;
+        before?: number;
+        offset?: number;
+        lines?: number;
+      }
+    | {
+        command: "terminal.resize";
+        terminalId: string;
+        cols: number;
+        rows: number;
+      }
+    | {
+        // Records the terminal's output to an asciicast v2 file on the agent; both answer with agent.command_result.
+        command: "terminal.record.start";
+        terminalId: string;
+      }
+    | {
+        command: "terminal.record.stop";
+        terminalId: string;
+      }
     | {
         command: "capture.list";
       }
@@ -190,6 +423,8 @@ export interface ClientCommand {
         destinationPath?: string;
         overwrite?: boolean;
         sessionKey?: string;
+        sha256?: string;
+        resumable?: boolean;
       }
     | {
         command: "file.upload.chunk";
@@ -197,24 +432,116 @@ export interface ClientCommand {
         chunkIndex: number;
         totalChunks: number;
         chunkBase64: string;
+        sha256?: string;
       }
     | {
         command: "file.upload.complete";
         transferId: string;
         totalChunks: number;
+        sha256?: string;
+      }
+    | {
+        command: "file.upload.resume";
+        transferId: string;
       }
     | {
         command: "file.download";
         path: string;
         sessionKey?: string;
+        resumable?: boolean;
+        // Applies when path is a directory: it is packed into this archive format.
+        archive?: ArchiveFormat;
+        include?: string[];
+        exclude?: string[];
+        maxBytes?: number;
+      }
+    | {
+        command: "file.list";
+        path?: string;
+        sessionKey?: string;
+        showHidden?: boolean;
+        limit?: number;
+      }
+    | {
+        command: "file.stat";
+        path: string;
+        sessionKey?: string;
+      }
+    | {
+        command: "file.mkdir";
+        path: string;
+        sessionKey?: string;
+        recursive?: boolean;
+      }
+    | {
+        command: "file.move";
+        path: string;
+        destination: string;
+        sessionKey?: string;
+        overwrite?: boolean;
+      }
+    | {
+        command: "file.delete";
+        path: string;
+        sessionKey?: string;
+        recursive?: boolean;
+      }
+    | {
+        command: "file.download.ack";
+        transferId: string;
+        receivedChunks: number;
+      }
+    | {
+        command: "file.download.resume";
+        transferId: string;
+        receivedChunks: number;
       };
   requestId?: string;
+  agentId?: string;
+}
+
+export interface E2eClientKey {
+  type: "e2e.client_key";
+  agentId?: string;
+  payload: {
+    clientId: string;
+    publicKey: string;
+  };
+}
+
+export interface E2eKeyGrant {
+  type: "e2e.key_grant";
+  agentId?: string;
+  payload: {
+    clientId: string;
+    keyId: string;
+    nonce: string;
+    ciphertext: string;
+  };
+}
+
+// Only the fields outside `ciphertext` are visible to the relay; they are what it needs for routing, scopes and audit.
+export interface E2eSealed {
+  type: "e2e.sealed";
+  agentId?: string;
+  requestId?: string;
+  payload: {
+    inner: SealedMessageType;
+    keyId: string;
+    command?: ClientCommand["payload"]["command"];
+    nonce: string;
+    ciphertext: string;
+  };
 }
 
 export interface RelayState {
   type: "relay.state";
   payload: {
     agent?: AgentDescriptor;
+    agents?: AgentDescriptor[];
+    offlineAgents?: AgentDescriptor[];
+    negotiated?: NegotiatedProtocol;
+    scopes?: ClientScope[];
     terminals: TerminalSummary[];
     snapshots: TerminalSnapshot[];
   };
@@ -226,21 +553,723 @@ export interface RelayAck {
     requestId?: string;
     ok: boolean;
     message?: string;
+    issues?: ValidationIssue[];
+    // Sent to an agent after agent.register: what the relay and the agent both support.
+    negotiated?: NegotiatedProtocol;
   };
 }
 
-export function safeJsonParse(input: string): RelayMessage | null {
-  try {
-    const data = JSON.parse(input);
-    if (!data || typeof data !== "object" || typeof (data as any).type !== "string") {
-      return null;
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type RelayMessageValidation =
+  | { ok: true; message: RelayMessage }
+  | { ok: false; type?: string; requestId?: string; issues: ValidationIssue[] };
+
+const COMMAND_CAPABILITIES: Record<ClientCommand["payload"]["command"], ProtocolCapability> = {
+  "terminal.create": "terminal",
+  "terminal.close": "terminal",
+  "terminal.input": "terminal",
+  "terminal.snapshot": "terminal",
+  "terminal.history": "terminal",
+  "tmux.history": "tmux.control",
+  "terminal.resize": "terminal",
+  "terminal.record.start": "terminal",
+  "terminal.record.stop": "terminal",
+  "capture.list": "screen.capture",
+  "screen.capture": "screen.capture",
+  "tfclaw.command": "tmux.control",
+  "file.upload.start": "file.upload",
+  "file.upload.chunk": "file.upload",
+  "file.upload.complete": "file.upload",
+  "file.upload.resume": "file.upload",
+  "file.download": "file.download",
+  "file.download.ack": "file.download",
+  "file.download.resume": "file.download",
+  "file.list": "file.browse",
+  "file.stat": "file.browse",
+  "file.mkdir": "file.browse",
+  "file.move": "file.browse",
+  "file.delete": "file.browse",
+};
+
+export function commandCapability(command: ClientCommand["payload"]["command"]): ProtocolCapability {
+  return COMMAND_CAPABILITIES[command];
+}
+
+const COMMAND_SCOPES: Record<ClientCommand["payload"]["command"], ClientScope> = {
+  "terminal.create": "input",
+  "terminal.close": "input",
+  "terminal.input": "input",
+  "terminal.snapshot": "view",
+  "terminal.history": "view",
+  "tmux.history": "tmux.control",
+  "terminal.resize": "input",
+  "terminal.record.start": "input",
+  "terminal.record.stop": "input",
+  "capture.list": "capture",
+  "screen.capture": "capture",
+  "tfclaw.command": "tmux.control",
+  "file.upload.start": "files.write",
+  "file.upload.chunk": "files.write",
+  "file.upload.complete": "files.write",
+  "file.upload.resume": "files.write",
+  "file.download": "files.read",
+  "file.download.ack": "files.read",
+  "file.download.resume": "files.read",
+  "file.list": "files.read",
+  "file.stat": "files.read",
+  "file.mkdir": "files.write",
+  "file.move": "files.write",
+  "file.delete": "files.write",
+};
+
+export function commandScope(command: ClientCommand["payload"]["command"]): ClientScope {
+  return COMMAND_SCOPES[command];
+}
+
+export function isClientScope(value: unknown): value is ClientScope {
+  return typeof value === "string" && (CLIENT_SCOPES as readonly string[]).includes(value);
+}
+
+export function isProtocolCapability(value: unknown): value is ProtocolCapability {
+  return typeof value === "string" && (PROTOCOL_CAPABILITIES as readonly string[]).includes(value);
+}
+
+// Peers without handshake fields are treated as protocol v1 with the full v1 feature set.
+export function resolveHandshake(handshake: ProtocolHandshake | undefined): NegotiatedProtocol {
+  const protocolVersion = typeof handshake?.protocolVersion === "number"
+    ? Math.max(LEGACY_PROTOCOL_VERSION, Math.trunc(handshake.protocolVersion))
+    : LEGACY_PROTOCOL_VERSION;
+  const capabilities = Array.isArray(handshake?.capabilities)
+    ? handshake.capabilities.filter(isProtocolCapability)
+    : [...LEGACY_CAPABILITIES];
+  return { protocolVersion, capabilities };
+}
+
+export function negotiateProtocol(
+  left: ProtocolHandshake | undefined,
+  right: ProtocolHandshake | undefined,
+): NegotiatedProtocol {
+  const a = resolveHandshake(left);
+  const b = resolveHandshake(right);
+  return {
+    protocolVersion: Math.min(a.protocolVersion, b.protocolVersion),
+    capabilities: a.capabilities.filter((capability) => b.capabilities.includes(capability)),
+  };
+}
+
+type PayloadValidator = (payload: Record<string, unknown>, issues: ValidationIssue[]) => void;
+
+interface FieldOptions {
+  optional?: boolean;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${base}[${key}]`;
+  }
+  return base ? `${base}.${key}` : key;
+}
+
+function checkString(
+  source: Record<string, unknown>,
+  key: string,
+  base: string,
+  issues: ValidationIssue[],
+  options: FieldOptions & { nonEmpty?: boolean } = {},
+): void {
+  const value = source[key];
+  if (value === undefined && options.optional) {
+    return;
+  }
+  if (typeof value !== "string") {
+    issues.push({ path: joinPath(base, key), message: "must be a string" });
+    return;
+  }
+  if (options.nonEmpty && value.trim().length === 0) {
+    issues.push({ path: joinPath(base, key), message: "must not be empty" });
+  }
+}
+
+function checkNumber(
+  source: Record<string, unknown>,
+  key: string,
+  base: string,
+  issues: ValidationIssue[],
+  options: FieldOptions & { min?: number } = {},
+): void {
+  const value = source[key];
+  if (value === undefined && options.optional) {
+    return;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    issues.push({ path: joinPath(base, key), message: "must be a finite number" });
+    return;
+  }
+  if (typeof options.min === "number" && value < options.min) {
+    issues.push({ path: joinPath(base, key), message: `must be >= ${options.min}` });
+  }
+}
+
+// Counts, indexes and sizes: whole numbers, never negative unless a higher minimum is given.
+function checkInteger(
+  source: Record<string, unknown>,
+  key: string,
+  base: string,
+  issues: ValidationIssue[],
+  options: FieldOptions & { min?: number } = {},
+): void {
+  const before = issues.length;
+  checkNumber(source, key, base, issues, { ...options, min: options.min ?? 0 });
+  const value = source[key];
+  if (issues.length === before && typeof value === "number" && !Number.isInteger(value)) {
+    issues.push({ path: joinPath(base, key), message: "must be an integer" });
+  }
+}
+
+function checkBoolean(
+  source: Record<string, unknown>,
+  key: string,
+  base: string,
+  issues: ValidationIssue[],
+  options: FieldOptions = {},
+): void {
+  const value = source[key];
+  if (value === undefined && options.optional) {
+    return;
+  }
+  if (typeof value !== "boolean") {
+    issues.push({ path: joinPath(base, key), message: "must be a boolean" });
+  }
+}
+
+function checkEnum(
+  source: Record<string, unknown>,
+  key: string,
+  allowed: readonly string[],
+  base: string,
+  issues: ValidationIssue[],
+  options: FieldOptions = {},
+): void {
+  const value = source[key];
+  if (value === undefined && options.optional) {
+    return;
+  }
+  if (typeof value !== "string" || !allowed.includes(value)) {
+    issues.push({ path: joinPath(base, key), message: `must be one of ${allowed.join("|")}` });
+  }
+}
+
+function checkStringArray(
+  source: Record<string, unknown>,
+  key: string,
+  base: string,
+  issues: ValidationIssue[],
+  options: FieldOptions = {},
+): void {
+  const value = source[key];
+  if (value === undefined && options.optional) {
+    return;
+  }
+  const path = joinPath(base, key);
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: "must be an array" });
+    return;
+  }
+  value.forEach((item, index) => {
+    if (typeof item !== "string") {
+      issues.push({ path: joinPath(path, index), message: "must be a string" });
+    }
+  });
+}
+
+function checkObject(
+  source: Record<string, unknown>,
+  key: string,
+  base: string,
+  issues: ValidationIssue[],
+  validate: (value: Record<string, unknown>, path: string) => void,
+  options: FieldOptions = {},
+): void {
+  const value = source[key];
+  if (value === undefined && options.optional) {
+    return;
+  }
+  const path = joinPath(base, key);
+  if (!isRecord(value)) {
+    issues.push({ path, message: "must be an object" });
+    return;
+  }
+  validate(value, path);
+}
+
+function checkArray(
+  source: Record<string, unknown>,
+  key: string,
+  base: string,
+  issues: ValidationIssue[],
+  validateItem: (item: Record<string, unknown>, path: string) => void,
+): void {
+  const value = source[key];
+  const path = joinPath(base, key);
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: "must be an array" });
+    return;
+  }
+  value.forEach((item, index) => {
+    const itemPath = joinPath(path, index);
+    if (!isRecord(item)) {
+      issues.push({ path: itemPath, message: "must be an object" });
+      return;
+    }
+    validateItem(item, itemPath);
+  });
+}
+
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+function checkSha256(source: Record<string, unknown>, base: string, issues: ValidationIssue[]): void {
+  const value = source.sha256;
+  if (value !== undefined && (typeof value !== "string" || !SHA256_HEX.test(value))) {
+    issues.push({ path: joinPath(base, "sha256"), message: "must be a lowercase hex sha256 digest" });
+  }
+}
+
+const PLATFORMS = ["windows", "macos", "linux", "unknown"] as const;
+const CAPTURE_SOURCES = ["screen", "window"] as const;
+const CLIENT_TYPES = ["mobile", "feishu", "web"] as const;
+const FILE_OPERATIONS = ["list", "stat", "mkdir", "move", "delete"] as const;
+const FILE_ENTRY_TYPES = ["file", "directory", "symlink", "other"] as const;
+
+function validateHandshake(value: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+  checkInteger(value, "protocolVersion", path, issues, { optional: true, min: LEGACY_PROTOCOL_VERSION });
+  checkStringArray(value, "capabilities", path, issues, { optional: true });
+  checkObject(value, "e2e", path, issues, (e2e, e2ePath) => {
+    checkString(e2e, "publicKey", e2ePath, issues, { nonEmpty: true });
+    checkString(e2e, "keyId", e2ePath, issues, { optional: true });
+  }, { optional: true });
+}
+
+function validateNegotiated(value: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+  checkInteger(value, "protocolVersion", path, issues, { min: LEGACY_PROTOCOL_VERSION });
+  checkStringArray(value, "capabilities", path, issues);
+}
+
+function validateAgentDescriptor(value: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+  checkString(value, "agentId", path, issues, { nonEmpty: true });
+  checkEnum(value, "platform", PLATFORMS, path, issues);
+  checkString(value, "hostname", path, issues);
+  checkString(value, "connectedAt", path, issues);
+  validateHandshake(value, path, issues);
+}
+
+function validateFileEntry(value: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+  checkString(value, "name", path, issues);
+  checkString(value, "path", path, issues);
+  checkEnum(value, "type", FILE_ENTRY_TYPES, path, issues);
+  checkInteger(value, "size", path, issues, { min: 0 });
+  checkString(value, "modifiedAt", path, issues);
+  checkInteger(value, "mode", path, issues, { optional: true });
+}
+
+function validateTerminalSummary(value: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+  checkString(value, "terminalId", path, issues, { nonEmpty: true });
+  checkString(value, "agentId", path, issues, { optional: true });
+  checkString(value, "title", path, issues);
+  checkString(value, "cwd", path, issues, { optional: true });
+  checkString(value, "foregroundCommand", path, issues, { optional: true });
+  checkInteger(value, "cols", path, issues, { optional: true, min: 1 });
+  checkInteger(value, "rows", path, issues, { optional: true, min: 1 });
+  checkBoolean(value, "recording", path, issues, { optional: true });
+  checkBoolean(value, "isActive", path, issues);
+  checkString(value, "updatedAt", path, issues);
+}
+
+function validateTerminalSnapshot(value: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+  checkString(value, "terminalId", path, issues, { nonEmpty: true });
+  checkString(value, "agentId", path, issues, { optional: true });
+  checkString(value, "output", path, issues);
+  checkString(value, "updatedAt", path, issues);
+}
+
+function validateClientCommandPayload(payload: Record<string, unknown>, issues: ValidationIssue[]): void {
+  const base = "payload";
+  switch (payload.command) {
+    case "terminal.create": {
+      checkString(payload, "title", base, issues, { optional: true });
+      checkString(payload, "cwd", base, issues, { optional: true });
+      return;
+    }
+    case "terminal.close":
+    case "terminal.snapshot": {
+      checkString(payload, "terminalId", base, issues, { nonEmpty: true });
+      return;
+    }
+    case "terminal.input": {
+      checkString(payload, "terminalId", base, issues, { nonEmpty: true });
+      checkString(payload, "data", base, issues);
+      return;
+    }
+    case "terminal.history":
+    case "tmux.history": {
+      if (payload.command === "terminal.history") {
+        checkString(payload, "terminalId", base, issues, { nonEmpty: true });
+      } else {
+        checkString(payload, "sessionKey", base, issues, { optional: true });
+      }
+      checkInteger(payload, "before", base, issues, { optional: true, min: 0 });
+      checkInteger(payload, "offset", base, issues, { optional: true, min: 0 });
+      checkInteger(payload, "lines", base, issues, { optional: true, min: 1 });
+      return;
+    }
+    case "terminal.resize": {
+      checkString(payload, "terminalId", base, issues, { nonEmpty: true });
+      checkInteger(payload, "cols", base, issues, { min: 1 });
+      checkInteger(payload, "rows", base, issues, { min: 1 });
+      return;
+    }
+    case "terminal.record.start":
+    case "terminal.record.stop": {
+      checkString(payload, "terminalId", base, issues, { nonEmpty: true });
+      return;
+    }
+    case "capture.list": {
+      return;
+    }
+    case "screen.capture": {
+      checkEnum(payload, "source", CAPTURE_SOURCES, base, issues);
+      checkString(payload, "terminalId", base, issues, { optional: true });
+      checkString(payload, "sourceId", base, issues, { optional: true });
+      return;
+    }
+    case "tfclaw.command": {
+      checkString(payload, "text", base, issues);
+      checkString(payload, "sessionKey", base, issues, { optional: true });
+      return;
+    }
+    case "file.upload.start": {
+      checkString(payload, "transferId", base, issues, { nonEmpty: true });
+      checkString(payload, "fileName", base, issues);
+      checkInteger(payload, "size", base, issues, { min: 0 });
+      checkInteger(payload, "totalChunks", base, issues, { min: 1 });
+      checkString(payload, "mimeType", base, issues, { optional: true });
+      checkString(payload, "destinationPath", base, issues, { optional: true });
+      checkBoolean(payload, "overwrite", base, issues, { optional: true });
+      checkString(payload, "sessionKey", base, issues, { optional: true });
+      checkSha256(payload, base, issues);
+      checkBoolean(payload, "resumable", base, issues, { optional: true });
+      return;
+    }
+    case "file.upload.chunk": {
+      checkString(payload, "transferId", base, issues, { nonEmpty: true });
+      checkInteger(payload, "chunkIndex", base, issues, { min: 0 });
+      checkInteger(payload, "totalChunks", base, issues, { min: 1 });
+      checkString(payload, "chunkBase64", base, issues);
+      checkSha256(payload, base, issues);
+      return;
+    }
+    case "file.upload.complete": {
+      checkString(payload, "transferId", base, issues, { nonEmpty: true });
+      checkInteger(payload, "totalChunks", base, issues, { min: 1 });
+      checkSha256(payload, base, issues);
+      return;
+    }
+    case "file.upload.resume": {
+      checkString(payload, "transferId", base, issues, { nonEmpty: true });
+      return;
+    }
+    case "file.download": {
+      checkString(payload, "path", base, issues, { nonEmpty: true });
+      checkString(payload, "sessionKey", base, issues, { optional: true });
+      checkBoolean(payload, "resumable", base, issues, { optional: true });
+      checkEnum(payload, "archive", ARCHIVE_FORMATS, base, issues, { optional: true });
+      checkStringArray(payload, "include", base, issues, { optional: true });
+      checkStringArray(payload, "exclude", base, issues, { optional: true });
+      checkInteger(payload, "maxBytes", base, issues, { min: 1, optional: true });
+      return;
+    }
+    case "file.list": {
+      checkString(payload, "path", base, issues, { optional: true });
+      checkString(payload, "sessionKey", base, issues, { optional: true });
+      checkBoolean(payload, "showHidden", base, issues, { optional: true });
+      checkInteger(payload, "limit", base, issues, { min: 1, optional: true });
+      return;
+    }
+    case "file.stat": {
+      checkString(payload, "path", base, issues, { nonEmpty: true });
+      checkString(payload, "sessionKey", base, issues, { optional: true });
+      return;
+    }
+    case "file.mkdir":
+    case "file.delete": {
+      checkString(payload, "path", base, issues, { nonEmpty: true });
+      checkString(payload, "sessionKey", base, issues, { optional: true });
+      checkBoolean(payload, "recursive", base, issues, { optional: true });
+      return;
+    }
+    case "file.move": {
+      checkString(payload, "path", base, issues, { nonEmpty: true });
+      checkString(payload, "destination", base, issues, { nonEmpty: true });
+      checkString(payload, "sessionKey", base, issues, { optional: true });
+      checkBoolean(payload, "overwrite", base, issues, { optional: true });
+      return;
+    }
+    case "file.download.ack":
+    case "file.download.resume": {
+      checkString(payload, "transferId", base, issues, { nonEmpty: true });
+      checkInteger(payload, "receivedChunks", base, issues, { min: 0 });
+      return;
+    }
+    default: {
+      issues.push({
+        path: "payload.command",
+        message: typeof payload.command === "string" ? `unknown command: ${payload.command}` : "must be a string",
+      });
+    }
+  }
+}
+
+function validateFileTransferPayload(payload: Record<string, unknown>, issues: ValidationIssue[]): void {
+  const base = "payload";
+  checkEnum(payload, "direction", ["download", "upload"], base, issues);
+  checkString(payload, "requestId", base, issues, { optional: true });
+  checkString(payload, "transferId", base, issues, { nonEmpty: true });
+  switch (payload.stage) {
+    case "start": {
+      checkString(payload, "fileName", base, issues);
+      checkString(payload, "path", base, issues);
+      checkString(payload, "mimeType", base, issues);
+      checkInteger(payload, "size", base, issues, { min: 0 });
+      checkInteger(payload, "totalChunks", base, issues, { min: 1 });
+      checkInteger(payload, "chunkBytes", base, issues, { min: 1, optional: true });
+      checkBoolean(payload, "resumable", base, issues, { optional: true });
+      checkEnum(payload, "archive", ARCHIVE_FORMATS, base, issues, { optional: true });
+      return;
+    }
+    case "chunk": {
+      checkInteger(payload, "chunkIndex", base, issues, { min: 0 });
+      checkInteger(payload, "totalChunks", base, issues, { min: 1 });
+      checkString(payload, "chunkBase64", base, issues);
+      checkSha256(payload, base, issues);
+      return;
     }
-    return data as RelayMessage;
+    case "complete": {
+      checkSha256(payload, base, issues);
+      return;
+    }
+    case "ack": {
+      checkInteger(payload, "receivedChunks", base, issues, { min: 0 });
+      checkInteger(payload, "receivedBytes", base, issues, { min: 0 });
+      return;
+    }
+    default: {
+      issues.push({ path: "payload.stage", message: "must be one of start|chunk|complete|ack" });
+    }
+  }
+}
+
+const PAYLOAD_VALIDATORS: Record<RelayMessage["type"], PayloadValidator> = {
+  "agent.register": (payload, issues) => {
+    validateAgentDescriptor(payload, "payload", issues);
+  },
+  "agent.terminal_list": (payload, issues) => {
+    checkArray(payload, "terminals", "payload", issues, (item, path) => validateTerminalSummary(item, path, issues));
+  },
+  "agent.terminal_output": (payload, issues) => {
+    checkString(payload, "terminalId", "payload", issues, { nonEmpty: true });
+    checkString(payload, "chunk", "payload", issues);
+    checkString(payload, "at", "payload", issues);
+  },
+  "agent.terminal_history": (payload, issues) => {
+    checkString(payload, "requestId", "payload", issues, { optional: true });
+    checkString(payload, "terminalId", "payload", issues, { optional: true });
+    checkString(payload, "target", "payload", issues, { optional: true });
+    checkString(payload, "text", "payload", issues);
+    checkInteger(payload, "cursor", "payload", issues, { min: 0 });
+    checkInteger(payload, "totalLines", "payload", issues, { min: 0 });
+    checkBoolean(payload, "hasMore", "payload", issues);
+    checkBoolean(payload, "full", "payload", issues, { optional: true });
+  },
+  "agent.screen_capture": (payload, issues) => {
+    checkString(payload, "terminalId", "payload", issues, { optional: true });
+    checkEnum(payload, "source", CAPTURE_SOURCES, "payload", issues);
+    checkString(payload, "sourceId", "payload", issues, { optional: true });
+    checkString(payload, "mimeType", "payload", issues);
+    checkString(payload, "imageBase64", "payload", issues);
+    checkString(payload, "capturedAt", "payload", issues);
+    checkString(payload, "requestId", "payload", issues, { optional: true });
+  },
+  "agent.capture_sources": (payload, issues) => {
+    checkString(payload, "requestId", "payload", issues, { optional: true });
+    checkArray(payload, "sources", "payload", issues, (item, path) => {
+      checkEnum(item, "source", CAPTURE_SOURCES, path, issues);
+      checkString(item, "sourceId", path, issues);
+      checkString(item, "label", path, issues);
+    });
+  },
+  "agent.command_result": (payload, issues) => {
+    checkString(payload, "requestId", "payload", issues, { optional: true });
+    checkString(payload, "output", "payload", issues);
+    checkBoolean(payload, "progress", "payload", issues, { optional: true });
+    checkString(payload, "progressSource", "payload", issues, { optional: true });
+    checkObject(payload, "completion", "payload", issues, (value, path) => {
+      checkNumber(value, "exitCode", path, issues);
+      checkString(value, "startedAt", path, issues);
+      checkString(value, "finishedAt", path, issues);
+      checkNumber(value, "durationMs", path, issues, { min: 0 });
+    }, { optional: true });
+  },
+  "agent.watch_event": (payload, issues) => {
+    checkString(payload, "watchId", "payload", issues, { nonEmpty: true });
+    checkString(payload, "sessionKey", "payload", issues, { nonEmpty: true });
+    checkString(payload, "target", "payload", issues);
+    checkEnum(payload, "reason", WATCH_EVENT_REASONS, "payload", issues);
+    checkString(payload, "text", "payload", issues);
+    checkNumber(payload, "exitCode", "payload", issues, { optional: true });
+    checkString(payload, "at", "payload", issues);
+  },
+  "agent.alert": (payload, issues) => {
+    checkString(payload, "alertId", "payload", issues, { nonEmpty: true });
+    checkString(payload, "ruleId", "payload", issues, { nonEmpty: true });
+    checkString(payload, "pattern", "payload", issues);
+    checkString(payload, "terminalId", "payload", issues, { nonEmpty: true });
+    checkString(payload, "terminalTitle", "payload", issues);
+    checkString(payload, "line", "payload", issues);
+    checkString(payload, "context", "payload", issues);
+    checkString(payload, "at", "payload", issues);
+  },
+  "agent.file_transfer": validateFileTransferPayload,
+  "agent.file_result": (payload, issues) => {
+    checkString(payload, "requestId", "payload", issues, { optional: true });
+    checkEnum(payload, "operation", FILE_OPERATIONS, "payload", issues);
+    checkString(payload, "path", "payload", issues);
+    checkObject(payload, "entry", "payload", issues, (value, path) => validateFileEntry(value, path, issues), { optional: true });
+    if (payload.entries !== undefined) {
+      checkArray(payload, "entries", "payload", issues, (item, path) => validateFileEntry(item, path, issues));
+    }
+    checkBoolean(payload, "truncated", "payload", issues, { optional: true });
+  },
+  "agent.error": (payload, issues) => {
+    checkString(payload, "code", "payload", issues, { nonEmpty: true });
+    checkString(payload, "message", "payload", issues);
+    checkString(payload, "requestId", "payload", issues, { optional: true });
+  },
+  "client.hello": (payload, issues) => {
+    checkEnum(payload, "clientType", CLIENT_TYPES, "payload", issues);
+    validateHandshake(payload, "payload", issues);
+  },
+  "client.command": validateClientCommandPayload,
+  "e2e.client_key": (payload, issues) => {
+    checkString(payload, "clientId", "payload", issues, { nonEmpty: true });
+    checkString(payload, "publicKey", "payload", issues, { nonEmpty: true });
+  },
+  "e2e.key_grant": (payload, issues) => {
+    checkString(payload, "clientId", "payload", issues, { nonEmpty: true });
+    checkString(payload, "keyId", "payload", issues, { nonEmpty: true });
+    checkString(payload, "nonce", "payload", issues, { nonEmpty: true });
+    checkString(payload, "ciphertext", "payload", issues, { nonEmpty: true });
+  },
+  "e2e.sealed": (payload, issues) => {
+    checkEnum(payload, "inner", SEALED_MESSAGE_TYPES, "payload", issues);
+    checkString(payload, "keyId", "payload", issues, { nonEmpty: true });
+    checkEnum(payload, "command", Object.keys(COMMAND_SCOPES), "payload", issues, { optional: payload.inner !== "client.command" });
+    checkString(payload, "nonce", "payload", issues, { nonEmpty: true });
+    checkString(payload, "ciphertext", "payload", issues);
+  },
+  "relay.state": (payload, issues) => {
+    checkObject(payload, "agent", "payload", issues, (agent, path) => validateAgentDescriptor(agent, path, issues), {
+      optional: true,
+    });
+    for (const key of ["agents", "offlineAgents"]) {
+      if (payload[key] !== undefined) {
+        checkArray(payload, key, "payload", issues, (item, path) => validateAgentDescriptor(item, path, issues));
+      }
+    }
+    checkObject(payload, "negotiated", "payload", issues, (negotiated, path) => validateNegotiated(negotiated, path, issues), {
+      optional: true,
+    });
+    checkStringArray(payload, "scopes", "payload", issues, { optional: true });
+    checkArray(payload, "terminals", "payload", issues, (item, path) => validateTerminalSummary(item, path, issues));
+    checkArray(payload, "snapshots", "payload", issues, (item, path) => validateTerminalSnapshot(item, path, issues));
+  },
+  "relay.ack": (payload, issues) => {
+    checkString(payload, "requestId", "payload", issues, { optional: true });
+    checkBoolean(payload, "ok", "payload", issues);
+    checkString(payload, "message", "payload", issues, { optional: true });
+    checkObject(payload, "negotiated", "payload", issues, (negotiated, path) => validateNegotiated(negotiated, path, issues), {
+      optional: true,
+    });
+  },
+};
+
+export function validateRelayMessage(data: unknown): RelayMessageValidation {
+  if (!isRecord(data)) {
+    return { ok: false, issues: [{ path: "", message: "message must be a JSON object" }] };
+  }
+
+  const type = typeof data.type === "string" ? data.type : undefined;
+  const requestId = typeof data.requestId === "string" ? data.requestId : undefined;
+  if (!type) {
+    return { ok: false, requestId, issues: [{ path: "type", message: "must be a string" }] };
+  }
+
+  const validator = Object.prototype.hasOwnProperty.call(PAYLOAD_VALIDATORS, type)
+    ? PAYLOAD_VALIDATORS[type as RelayMessage["type"]]
+    : undefined;
+  if (!validator) {
+    return { ok: false, type, requestId, issues: [{ path: "type", message: `unknown message type: ${type}` }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  if (data.requestId !== undefined && typeof data.requestId !== "string") {
+    issues.push({ path: "requestId", message: "must be a string" });
+  }
+  if (data.agentId !== undefined && (typeof data.agentId !== "string" || data.agentId.trim().length === 0)) {
+    issues.push({ path: "agentId", message: "must be a non-empty string" });
+  }
+  if (!isRecord(data.payload)) {
+    issues.push({ path: "payload", message: "must be an object" });
+  } else {
+    validator(data.payload, issues);
+  }
+
+  if (issues.length > 0) {
+    return { ok: false, type, requestId, issues };
+  }
+  return { ok: true, message: data as unknown as RelayMessage };
+}
+
+export function parseRelayMessage(input: string): RelayMessageValidation {
+  let data: unknown;
+  try {
+    data = JSON.parse(input);
   } catch {
-    return null;
+    return { ok: false, issues: [{ path: "", message: "invalid json" }] };
   }
+  return validateRelayMessage(data);
+}
+
+export function describeValidationIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) => (issue.path ? `${issue.path} ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+export function safeJsonParse(input: string): RelayMessage | null {
+  const result = parseRelayMessage(input);
+  return result.ok ? result.message : null;
 }
 
 export function jsonStringify(message: RelayMessage): string {
   return JSON.stringify(message);
 }
+
+export * from "./binary.js";
+export * from "./e2e.js";